@@ -2,97 +2,563 @@
 /**
  * Grammar Coverage Check
  * 
- * Detects drift between diagram factories (cppGrammar.ts) and EBNF definitions (ebnfDefinitions.ts).
- * Run via: npm run check-grammar
+ * Detects drift between diagram factories and hand-written EBNF definitions in
+ * every registered grammar pack (packs.ts).
+ * Run via: npm run check-grammar [-- --ll1-json=<file>]
  * 
- * Exit code 0 = all rules have both diagram and EBNF
- * Exit code 1 = coverage mismatch detected
+ * Seven checks run in order:
+ *   1. Coverage: every rule of a pack with hand-written EBNF has both a
+ *      diagram factory and an EBNF definition
+ *   2. References: every NT(...) has a factory and every rule is in exactly one
+ *      section, in each version a pack covers, and every since/until names one
+ *      of those versions
+ *   3. Stable names: every C++ rule maps to the draft clause defining it
+ *   4. Left recursion: every left-recursive EBNF rule is drawn iteratively, and
+ *      no left recursion remains in the diagram grammar
+ *   5. SVG sanitizer: built-in diagrams lose no element or link to sanitizeSvg,
+ *      and the malicious fixture corpus (fixtures/malicious-svg.mjs) comes out inert
+ *   6. Generated EBNF: the EBNF generated for every rule of every version, in
+ *      the standard and the diagram form, parses back without a single
+ *      diagnostic into the rule it came from, and the prose fixtures
+ *      (fixtures/ebnf-prose.mjs) parse as expected
+ *   7. Equivalence: each diagram and its parsed EBNF describe the same language
+ *      (after normalizing _opt, nested choices and chain()/left recursion), also
+ *      when the EBNF text is opened as a grammar file (loadGrammarFile)
+ *
+ * Checks 4 and 7 run against the version a pack's EBNF text describes (C++23
+ * for C++); packs with generated EBNF only get the diagram side of check 4.
+ *
+ * Rules unreachable from the start symbols are listed for information only.
+ * LL(1) conflicts are summarized too; --ll1-json=<file> writes the full
+ * per-rule report of every pack as JSON.
+ *
+ * Exit code 0 = all rules have both diagram and EBNF, and they agree
+ * Exit code 1 = coverage mismatch, broken reference, unknown version id,
+ *               missing stable name, leftover left recursion, unsafe or
+ *               damaged sanitized SVG, generated EBNF that is missing,
+ *               unparsable or reads back differently, EBNF parse error or
+ *               structural difference detected
  */
 
-import { readFileSync } from 'fs';
-import { resolve, dirname } from 'path';
-import { fileURLToPath } from 'url';
+import './lib/register-ts.mjs';
+import { writeFileSync } from 'fs';
 
-const __dirname = dirname(fileURLToPath(import.meta.url));
-const srcDir = resolve(__dirname, '../src/features/grammar');
+const { GRAMMAR_PACKS } = await import('../src/features/grammar/packs.ts');
 
-// Extract rule names from cppGrammar.ts by parsing rules.set() calls
-function extractDiagramRules(filePath) {
-  const content = readFileSync(filePath, 'utf8');
-  const rulePattern = /rules\.set\(\s*["']([^"']+)["']/g;
-  const rules = new Set();
-  let match;
-  while ((match = rulePattern.exec(content)) !== null) {
-    rules.add(match[1]);
+// Compares the rules of each pack with hand-written EBNF against its
+// EBNF_DEFINITIONS keys. Returns true when both sides name the same rules.
+function checkCoverage() {
+  let ok = true;
+  for (const pack of GRAMMAR_PACKS.filter(p => p.ebnf)) {
+    const diagramRules = new Set(pack.getAllRuleNames());
+    const ebnfRules = new Set(Object.keys(pack.ebnf.definitions));
+    console.log(`📊 [${pack.name}] Found ${diagramRules.size} diagram rules and ${ebnfRules.size} EBNF definitions`);
+
+    const missingEbnf = [...diagramRules].filter(r => !ebnfRules.has(r)).sort();
+    const missingDiagram = [...ebnfRules].filter(r => !diagramRules.has(r)).sort();
+
+    if (missingEbnf.length > 0) {
+      ok = false;
+      console.log(`⚠️  [${pack.name}] Rules with DIAGRAM but NO EBNF definition:`);
+      missingEbnf.forEach(r => console.log(`   - ${r}`));
+      console.log('');
+    }
+
+    if (missingDiagram.length > 0) {
+      ok = false;
+      console.log(`⚠️  [${pack.name}] Rules with EBNF but NO DIAGRAM factory:`);
+      missingDiagram.forEach(r => console.log(`   - ${r}`));
+      console.log('');
+    }
   }
-  return rules;
+  console.log('');
+  return ok;
 }
 
-// Extract rule names from ebnfDefinitions.ts by parsing EBNF_DEFINITIONS keys
-function extractEbnfRules(filePath) {
-  const content = readFileSync(filePath, 'utf8');
-  // Match object keys in the EBNF_DEFINITIONS object
-  const rulePattern = /^\s*["']([^"']+)["']\s*:/gm;
-  const rules = new Set();
-  let match;
-  while ((match = rulePattern.exec(content)) !== null) {
-    rules.add(match[1]);
-  }
-  return rules;
+// Checks nonterminal references and section membership in every version:
+// a reference to a rule tagged Since(...) from an untagged alternative shows
+// up as undefined in the older versions. Also checks that every since/until
+// (and source version) names a version of its pack: isInVersion reads an
+// unknown id as "before every version". Returns true when no issues are found.
+async function checkReferences() {
+  const { countGrammarIssues } = await import('../src/shared/grammar/validation.ts');
+  const { walkExpr } = await import('../src/shared/grammar/grammarExpr.ts');
+
+  console.log('🔗 Checking nonterminal references and sections...\n');
+
+  let total = 0;
+  let versionCount = 0;
+  for (const pack of GRAMMAR_PACKS) {
+    const unknownIds = [];
+    for (const name of pack.getAllRuleNames()) {
+      walkExpr(pack.getVersionedRuleExpr(name), node => {
+        for (const bound of ['since', 'until']) {
+          if (node[bound] !== undefined && !pack.isVersion(node[bound])) unknownIds.push(`${name}: ${bound} "${node[bound]}"`);
+        }
+      });
+    }
+    for (const [id, entry] of Object.entries(pack.sources?.entries ?? {})) {
+      if (!pack.isVersion(entry.version)) unknownIds.push(`source ${id}: version "${entry.version}"`);
+    }
+
+    if (unknownIds.length > 0) {
+      console.log(`⚠️  [${pack.name}] Version ids NOT in ${pack.versions.join(', ')}:`);
+      unknownIds.forEach(r => console.log(`   - ${r}`));
+      console.log('');
+    }
+    total += unknownIds.length;
+  }
+
+  for (const pack of GRAMMAR_PACKS) for (const standard of pack.versions) {
+    const label = pack.versionLabels[standard];
+    const result = pack.validate(standard);
+    versionCount++;
+
+    if (result.undefinedReferences.length > 0) {
+      console.log(`⚠️  [${label}] Nonterminals referenced but NOT defined:`);
+      result.undefinedReferences.forEach(({ rule, name }) => console.log(`   - ${name} (used in ${rule})`));
+      console.log('');
+    }
+
+    if (result.unsectionedRules.length > 0) {
+      console.log(`⚠️  [${label}] Rules missing from every section:`);
+      result.unsectionedRules.forEach(r => console.log(`   - ${r}`));
+      console.log('');
+    }
+
+    if (result.duplicateSectionRules.length > 0) {
+      console.log(`⚠️  [${label}] Rules listed in more than one section:`);
+      result.duplicateSectionRules.forEach(({ rule, sections }) => console.log(`   - ${rule} (${sections.join(', ')})`));
+      console.log('');
+    }
+
+    if (result.sectionEntriesWithoutRule.length > 0) {
+      console.log(`⚠️  [${label}] Section entries with NO diagram factory:`);
+      result.sectionEntriesWithoutRule.forEach(({ section, rule }) => console.log(`   - ${rule} (in ${section})`));
+      console.log('');
+    }
+
+    total += countGrammarIssues(result);
+  }
+
+  console.log(`🔗 ${total} reference/section issue(s) across ${versionCount} versions of ${GRAMMAR_PACKS.length} grammars\n`);
+  return total === 0;
 }
 
-function main() {
-  console.log('🔍 Checking grammar coverage...\n');
+// Checks that every C++ rule knows the draft clause defining it, and that the
+// clause table names no rule without a diagram factory.
+async function checkClauses() {
+  const { CPP_GRAMMAR } = await import('../src/features/grammar/cppGrammar.ts');
+  const { RULE_CLAUSES } = await import('../src/features/grammar/ruleClauses.ts');
 
-  const grammarPath = resolve(srcDir, 'cppGrammar.ts');
-  const ebnfPath = resolve(srcDir, 'ebnfDefinitions.ts');
+  const ruleNames = new Set(CPP_GRAMMAR.getAllRuleNames());
+  const missing = [...ruleNames].filter(name => !RULE_CLAUSES[name]).sort();
+  const unknown = Object.keys(RULE_CLAUSES).filter(name => !ruleNames.has(name)).sort();
 
-  let diagramRules, ebnfRules;
-  
-  try {
-    diagramRules = extractDiagramRules(grammarPath);
-    console.log(`📊 Found ${diagramRules.size} diagram rules in cppGrammar.ts`);
-  } catch (err) {
-    console.error(`❌ Failed to read cppGrammar.ts: ${err.message}`);
-    process.exit(1);
+  if (missing.length > 0) {
+    console.log('⚠️  Rules with NO stable name in ruleClauses.ts:');
+    missing.forEach(r => console.log(`   - ${r}`));
+    console.log('');
   }
 
-  try {
-    ebnfRules = extractEbnfRules(ebnfPath);
-    console.log(`📝 Found ${ebnfRules.size} EBNF definitions in ebnfDefinitions.ts`);
-  } catch (err) {
-    console.error(`❌ Failed to read ebnfDefinitions.ts: ${err.message}`);
-    process.exit(1);
+  if (unknown.length > 0) {
+    console.log('⚠️  Stable names for rules with NO diagram factory:');
+    unknown.forEach(r => console.log(`   - ${r}`));
+    console.log('');
+  }
+
+  console.log(`📖 ${Object.keys(RULE_CLAUSES).length} rules mapped to draft clauses\n`);
+  return missing.length === 0 && unknown.length === 0;
+}
+
+// Elements and attributes sanitized SVG may contain (mirrors sanitizeSvg.ts).
+const SAFE_SVG_ELEMENTS = new Set(['svg', 'g', 'path', 'rect', 'circle', 'text', 'tspan', 'a', 'title', 'desc']);
+const SAFE_SVG_ATTRIBUTE = /^(class|transform|d|x|y|cx|cy|r|rx|ry|width|height|viewBox|text-anchor|xmlns|xmlns:xlink|data-rule|data-path|href|xlink:href)$/;
+
+// Problems with sanitized markup: anything outside the allowlist, or a link
+// leaving the document. Text is escaped, so every "<" starts a real tag.
+function unsafeSvgParts(svg) {
+  const problems = [];
+  for (const [, name, attrs] of svg.matchAll(/<\/?([^\s>/]+)([^>]*)>/g)) {
+    if (!SAFE_SVG_ELEMENTS.has(name)) problems.push(`element <${name}>`);
+    for (const [, attr, value] of attrs.matchAll(/([^\s=]+)="([^"]*)"/g)) {
+      if (!SAFE_SVG_ATTRIBUTE.test(attr)) problems.push(`attribute ${attr}`);
+      else if (attr.endsWith('href') && !value.startsWith('#')) problems.push(`link ${value}`);
+    }
+  }
+  return problems;
+}
+
+// Checks that sanitizeSvg keeps every element and link of the built-in
+// diagrams, and neutralizes each entry of the malicious fixture corpus.
+async function checkSvgSanitizer() {
+  const { createRuleDiagram } = await import('../src/features/grammar/packs.ts');
+  const { exprToDiagram } = await import('../src/shared/railroad/exprToDiagram.ts');
+  const { sanitizeSvg } = await import('../src/shared/railroad/sanitizeSvg.ts');
+  const { MALICIOUS_SVG_FIXTURES } = await import('./fixtures/malicious-svg.mjs');
+
+  const count = (svg, pattern) => svg.match(pattern)?.length ?? 0;
+  const damaged = [];
+  let versionCount = 0;
+  for (const pack of GRAMMAR_PACKS) for (const standard of pack.versions) {
+    versionCount++;
+    for (const name of pack.getRuleNames(standard)) {
+      // toString() draws without a DOM; the browser serializes the same elements
+      const raw = createRuleDiagram(pack, name, standard).toString();
+      const clean = sanitizeSvg(raw);
+      if (count(raw, /<[a-z]/g) !== count(clean, /<[a-z]/g) || count(raw, /href=/g) !== count(clean, /href=/g)) {
+        damaged.push(`${name} (${pack.versionLabels[standard]})`);
+      }
+    }
+  }
+
+  const unsafe = [];
+  for (const fixture of MALICIOUS_SVG_FIXTURES) {
+    const raw = fixture.svg ?? exprToDiagram(fixture.expr, { nonterminalHref: n => `#rule-${n}` }).toString();
+    const clean = sanitizeSvg(raw);
+    const problems = unsafeSvgParts(clean);
+    for (const text of fixture.keep ?? []) {
+      if (!clean.includes(text)) problems.push(`lost ${JSON.stringify(text)}`);
+    }
+    if (sanitizeSvg(clean) !== clean) problems.push('not stable when sanitized again');
+    if (problems.length > 0) unsafe.push(`${fixture.name}: ${problems.join(', ')}`);
+  }
+
+  if (damaged.length > 0) {
+    console.log('⚠️  Built-in diagrams DAMAGED by sanitizeSvg:');
+    damaged.forEach(r => console.log(`   - ${r}`));
+    console.log('');
+  }
+
+  if (unsafe.length > 0) {
+    console.log('⚠️  Malicious fixtures NOT neutralized:');
+    unsafe.forEach(r => console.log(`   - ${r}`));
+    console.log('');
+  }
+
+  console.log(`🧼 Sanitized the diagrams of ${versionCount} grammar versions and ${MALICIOUS_SVG_FIXTURES.length} malicious fixtures\n`);
+  return damaged.length === 0 && unsafe.length === 0;
+}
+
+// Parses the EBNF generated for every rule of every version, in the standard
+// form (shown when a pack has no hand-written text for it) and in the diagram
+// form, and the prose fixtures. Returns true when every rule has a standard
+// form, each form parses without a diagnostic (prose, for one, must not read as
+// symbols) and reads back as the rule it was generated from, and every fixture
+// reads as expected.
+async function checkGeneratedEbnf() {
+  const { parseEbnf } = await import('../src/shared/grammar/ebnfParser.ts');
+  const { compareRuleExprs } = await import('../src/shared/grammar/equivalence.ts');
+  const { EBNF_PROSE_FIXTURES } = await import('./fixtures/ebnf-prose.mjs');
+
+  console.log('📝 Parsing generated EBNF...\n');
+
+  const forms = [['standard', 'annex-a'], ['diagram', 'extended']];
+  const failures = [];
+  const inexpressible = [];
+  const different = [];
+  let ruleCount = 0;
+  for (const pack of GRAMMAR_PACKS) for (const standard of pack.versions) {
+    const knownRules = pack.getAllRuleNames();
+    const ruleTerminals = pack.ebnf?.ruleTerminals;
+    for (const name of pack.getRuleNames(standard)) {
+      ruleCount++;
+      for (const [form, notation] of forms) {
+        const rule = `${name} (${pack.versionLabels[standard]}, ${form} form)`;
+        const source = pack.generateEbnfDefinition(name, form, standard);
+        if (source === undefined) {
+          inexpressible.push(rule);
+          continue;
+        }
+        const parsed = parseEbnf(source, { notation, knownRules, ruleTerminals });
+        if (parsed.diagnostics.length > 0 || parsed.rules.length !== 1) {
+          failures.push({ rule, diagnostics: parsed.diagnostics });
+          continue;
+        }
+        const result = compareRuleExprs(name, pack.getRuleExpr(name, standard), parsed.rules[0].expr);
+        if (result.status === 'different') different.push({ ...result, rule });
+      }
+    }
+  }
+
+  const misread = [];
+  for (const fixture of EBNF_PROSE_FIXTURES) {
+    const parsed = parseEbnf(fixture.source, { knownRules: fixture.knownRules });
+    const problems = parsed.diagnostics.map(d => `${d.line}:${d.column} ${d.message}`);
+    if (JSON.stringify(parsed.rules[0]?.alternatives) !== JSON.stringify(fixture.alternatives)) {
+      problems.push('alternatives differ');
+    }
+    if (problems.length > 0) misread.push(`${fixture.name}: ${problems.join(', ')}`);
   }
 
+  if (inexpressible.length > 0) {
+    console.log('⚠️  Rules with NO standard (Annex A) form:');
+    inexpressible.forEach(r => console.log(`   - ${r}`));
+    console.log('');
+  }
+
+  if (failures.length > 0) {
+    console.log('⚠️  Generated EBNF that does NOT parse cleanly:');
+    for (const { rule, diagnostics } of failures) {
+      console.log(`   - ${rule}`);
+      diagnostics.forEach(d => console.log(`       ${d.line}:${d.column} ${d.severity}: ${d.message}`));
+    }
+    console.log('');
+  }
+
+  if (different.length > 0) {
+    console.log('⚠️  Generated EBNF that reads back DIFFERENTLY (normalized alternatives):');
+    for (const { rule, leftOnly, rightOnly } of different) {
+      console.log(`   - ${rule}`);
+      leftOnly.forEach(a => console.log(`       diagram only: ${a || '<empty>'}`));
+      rightOnly.forEach(a => console.log(`       EBNF only:    ${a || '<empty>'}`));
+    }
+    console.log('');
+  }
+
+  if (misread.length > 0) {
+    console.log('⚠️  Prose fixtures NOT read as expected:');
+    misread.forEach(r => console.log(`   - ${r}`));
+    console.log('');
+  }
+
+  console.log(`📝 Parsed the generated EBNF of ${ruleCount} rules in both forms and ${EBNF_PROSE_FIXTURES.length} prose fixtures\n`);
+  return inexpressible.length === 0 && failures.length === 0 && different.length === 0 && misread.length === 0;
+}
+
+// Lists rules that the start symbols never reach. Informational only:
+// Annex A has a few such rules (e.g. token, keyword) by design.
+async function reportReachability() {
+  const { getUnreachableRules } = await import('../src/features/grammar/ruleGraph.ts');
+
+  for (const pack of GRAMMAR_PACKS) {
+    const start = pack.startRules.join(' or ');
+    const unreachable = getUnreachableRules(pack);
+    if (unreachable.length > 0) {
+      console.log(`ℹ️  [${pack.name}] Rules not reachable from ${start}:`);
+      unreachable.forEach(r => console.log(`   - ${r}`));
+      console.log('');
+    } else {
+      console.log(`🌳 [${pack.name}] Every rule is reachable from ${start}\n`);
+    }
+  }
+}
+
+// Checks that left recursion in the EBNF was rewritten into repetition in the diagrams.
+// Returns true when every left-recursive rule is drawn iteratively.
+async function checkLeftRecursion() {
+  const { auditLeftRecursion } = await import('../src/features/grammar/leftRecursionAudit.ts');
+
+  console.log('🔁 Auditing left recursion...\n');
+
+  let ok = true;
+  for (const pack of GRAMMAR_PACKS) {
+    const { entries, diagramCycles } = auditLeftRecursion(pack);
+    if (pack.ebnf) {
+      const direct = entries.filter(e => e.direct).length;
+      console.log(`🔁 [${pack.name}] ${entries.length} left-recursive EBNF rule(s) ` +
+        `(${direct} direct, ${entries.length - direct} indirect)`);
+    } else {
+      console.log(`🔁 [${pack.name}] No hand-written EBNF; checking the diagram grammar only`);
+    }
+
+    const problems = entries.filter(e => e.status !== 'iterative');
+    if (problems.length > 0) {
+      console.log('');
+      console.log(`⚠️  [${pack.name}] Left-recursive EBNF rules whose DIAGRAM is not iterative:`);
+      for (const { rule, cycle, status } of problems) {
+        const via = cycle.length > 1 ? ` (cycle: ${cycle.join(' → ')})` : '';
+        const reason = status === 'left-recursive' ? 'still left recursive' : 'no ZeroOrMore/OneOrMore';
+        console.log(`   - ${rule}: ${reason}${via}`);
+      }
+    }
+
+    if (diagramCycles.length > 0) {
+      console.log('');
+      console.log(`⚠️  [${pack.name}] Left recursion cycles remaining in the diagram grammar:`);
+      diagramCycles.forEach(c => console.log(`   - ${c.rules.join(' → ')}`));
+    }
+
+    console.log('');
+    ok = ok && problems.length === 0 && diagramCycles.length === 0;
+  }
+  return ok;
+}
+
+// Summarizes LL(1) conflicts and optionally writes the full report as JSON.
+// Informational only: neither C nor C++ is LL(1); both need semantic lookahead.
+async function reportLl1Conflicts(jsonPath) {
+  const { getRuleConflicts } = await import('../src/features/grammar/ruleAnalysis.ts');
+
+  const packs = GRAMMAR_PACKS.map(pack => {
+    const rules = pack.sections.flatMap(s => s.rules)
+      .map(name => ({ name, section: pack.getRuleSection(name), conflicts: getRuleConflicts(pack, name) }))
+      .filter(r => r.conflicts.length > 0);
+
+    const total = rules.reduce((n, r) => n + r.conflicts.length, 0);
+    const byKind = kind => rules.reduce((n, r) => n + r.conflicts.filter(c => c.kind === kind).length, 0);
+    console.log(`🔀 [${pack.name}] LL(1): ${total} conflict(s) in ${rules.length} rules ` +
+      `(${byKind('first-first')} FIRST/FIRST, ${byKind('first-follow')} FIRST/FOLLOW)`);
+
+    return { pack: pack.id, version: pack.defaultVersion, conflictCount: total, ruleCount: rules.length, rules };
+  });
+
+  if (jsonPath) {
+    writeFileSync(jsonPath, JSON.stringify({ packs }, null, 2) + '\n');
+    console.log(`   Report written to ${jsonPath}`);
+  }
   console.log('');
+}
+
+// Compares every diagram factory of a pack with its parsed hand-written EBNF
+// definition, read both through the pack and as a dropped-in grammar file. A
+// rule removed before the version the text describes (e.g. C++14 type-id-list)
+// is compared as of the last version that has it. Returns true when all rules
+// agree.
+async function checkEquivalence(pack) {
+  const { compareRuleExprs } = await import('../src/shared/grammar/equivalence.ts');
+  const { loadGrammarFile } = await import('../src/shared/grammar/grammarFile.ts');
+
+  console.log(`🧬 [${pack.name}] Comparing diagram structure with EBNF definitions...\n`);
+
+  const version = pack.ebnf.version;
+  const ruleNames = pack.getAllRuleNames().sort();
+  const parseErrors = [];
+  const different = [];
+  const tooComplex = [];
+  const diagramExpr = name =>
+    pack.getRuleExpr(name, pack.getRuleExpr(name, version) ? version : pack.versions.findLast(v => pack.getRuleExpr(name, v)));
 
-  // Find mismatches
-  const missingEbnf = [...diagramRules].filter(r => !ebnfRules.has(r)).sort();
-  const missingDiagram = [...ebnfRules].filter(r => !diagramRules.has(r)).sort();
+  for (const name of ruleNames) {
+    const parsed = pack.parseEbnfDefinition(name, version);
+    const errors = parsed.diagnostics.filter(d => d.severity === 'error');
+    if (errors.length > 0 || parsed.rules.length === 0) {
+      parseErrors.push({ name, errors });
+      continue;
+    }
 
-  let hasErrors = false;
+    const result = compareRuleExprs(name, diagramExpr(name), parsed.rules[0].expr);
+    if (result.status === 'different') different.push(result);
+    if (result.status === 'too-complex') tooComplex.push(result);
+  }
+
+  // The same text opened as a grammar file must read the same way
+  const { grammar, diagnostics } = loadGrammarFile(Object.values(pack.ebnf.definitions).join('\n\n'), `${pack.id}.ebnf`, {
+    ruleTerminals: pack.ebnf.ruleTerminals,
+  });
+  const fileProblems = diagnostics.map(d => `line ${d.line}: ${d.message}`);
+  for (const name of ruleNames) {
+    const loaded = grammar?.rules.get(name);
+    if (!loaded) {
+      fileProblems.push(`${name}: not loaded`);
+    } else if (compareRuleExprs(name, diagramExpr(name), loaded).status === 'different') {
+      fileProblems.push(`${name}: differs from the diagram`);
+    }
+  }
 
-  if (missingEbnf.length > 0) {
-    hasErrors = true;
-    console.log('⚠️  Rules with DIAGRAM but NO EBNF definition:');
-    missingEbnf.forEach(r => console.log(`   - ${r}`));
+  if (parseErrors.length > 0) {
+    console.log('⚠️  EBNF definitions that do not parse:');
+    for (const { name, errors } of parseErrors) {
+      console.log(`   - ${name}`);
+      errors.forEach(e => console.log(`       ${e.line}:${e.column} ${e.message}`));
+    }
     console.log('');
   }
 
-  if (missingDiagram.length > 0) {
-    hasErrors = true;
-    console.log('⚠️  Rules with EBNF but NO DIAGRAM factory:');
-    missingDiagram.forEach(r => console.log(`   - ${r}`));
+  if (different.length > 0) {
+    console.log('⚠️  Rules whose DIAGRAM and EBNF differ (normalized alternatives):');
+    for (const { name, leftOnly, rightOnly } of different) {
+      console.log(`   - ${name}`);
+      leftOnly.forEach(a => console.log(`       diagram only: ${a || '<empty>'}`));
+      rightOnly.forEach(a => console.log(`       EBNF only:    ${a || '<empty>'}`));
+    }
     console.log('');
   }
 
-  if (hasErrors) {
+  if (fileProblems.length > 0) {
+    console.log('⚠️  EBNF definitions read DIFFERENTLY as a grammar file:');
+    fileProblems.forEach(p => console.log(`   - ${p}`));
+    console.log('');
+  }
+
+  if (tooComplex.length > 0) {
+    console.log('ℹ️  Rules too large to compare structurally (skipped):');
+    tooComplex.forEach(r => console.log(`   - ${r.name}`));
+    console.log('');
+  }
+
+  const compared = ruleNames.length - parseErrors.length - tooComplex.length;
+  console.log(`📐 Compared ${compared} rules, ${different.length} structural difference(s)\n`);
+
+  return parseErrors.length === 0 && different.length === 0 && fileProblems.length === 0;
+}
+
+async function main() {
+  const ll1Arg = process.argv.slice(2).find(arg => arg.startsWith('--ll1-json='));
+  const ll1JsonPath = ll1Arg ? ll1Arg.slice('--ll1-json='.length) : undefined;
+
+  console.log('🔍 Checking grammar coverage...\n');
+
+  if (!checkCoverage()) {
     console.log('❌ Grammar coverage check FAILED');
     console.log('   Please ensure every rule has both a diagram factory and EBNF definition.\n');
     process.exit(1);
   }
 
+  const referencesOk = await checkReferences();
+
+  if (!referencesOk) {
+    console.log('❌ Grammar reference check FAILED');
+    console.log('   Please define every referenced rule, list each rule in exactly one section and tag only known versions.\n');
+    process.exit(1);
+  }
+
+  const clausesOk = await checkClauses();
+
+  if (!clausesOk) {
+    console.log('❌ Stable name check FAILED');
+    console.log('   Please map every rule to the draft clause defining it in ruleClauses.ts.\n');
+    process.exit(1);
+  }
+
+  const leftRecursionOk = await checkLeftRecursion();
+
+  if (!leftRecursionOk) {
+    console.log('❌ Left recursion audit FAILED');
+    console.log('   Please draw left-recursive rules with chain(), ZeroOrMore or OneOrMore.\n');
+    process.exit(1);
+  }
+
+  const sanitizerOk = await checkSvgSanitizer();
+
+  if (!sanitizerOk) {
+    console.log('❌ SVG sanitizer check FAILED');
+    console.log('   Please keep sanitizeSvg.ts in line with the markup the railroad library emits.\n');
+    process.exit(1);
+  }
+
+  const generatedOk = await checkGeneratedEbnf();
+
+  if (!generatedOk) {
+    console.log('❌ Generated EBNF check FAILED');
+    console.log('   Please keep formatRuleEbnf output readable by parseEbnf.\n');
+    process.exit(1);
+  }
+
+  await reportReachability();
+  await reportLl1Conflicts(ll1JsonPath);
+
+  let equivalent = true;
+  for (const pack of GRAMMAR_PACKS.filter(p => p.ebnf)) {
+    equivalent = (await checkEquivalence(pack)) && equivalent;
+  }
+
+  if (!equivalent) {
+    console.log('❌ Grammar equivalence check FAILED');
+    console.log('   Please update the diagram factory or EBNF definition so both describe the same rule.\n');
+    process.exit(1);
+  }
+
   console.log('✅ Grammar coverage check PASSED');
   console.log('   All rules have matching diagram factories and EBNF definitions.\n');
   process.exit(0);
@@ -0,0 +1,53 @@
+/**
+ * Prose fixtures for the generated EBNF check (check-grammar-coverage.mjs).
+ *
+ * Each fixture is Annex A text for one rule (`source`) and the alternatives
+ * parseEbnf must read from it (`alternatives`), without any diagnostic;
+ * `knownRules` names the rules it refers to.
+ * Wrapped prose continues on deeper-indented lines, whatever word ends the
+ * line above; a line at the alternatives' indentation starts a new one.
+ */
+
+const T = (text) => ({ kind: 'terminal', text });
+const C = (text) => ({ kind: 'comment', text });
+const NT = (name) => ({ kind: 'nonterminal', name });
+
+export const EBNF_PROSE_FIXTURES = [
+  {
+    name: 'prose on one line',
+    source: `c-char:
+    any member of the translation character set except ', \\, or new-line
+    escape-sequence`,
+    knownRules: ['escape-sequence'],
+    alternatives: [C("any member of the translation character set except ', \\, or new-line"), NT('escape-sequence')],
+  },
+  {
+    name: 'prose wrapped after a word',
+    source: `r-char:
+    any member of the translation character set, except ) followed by the
+        initial d-char-sequence followed by "`,
+    alternatives: [C('any member of the translation character set, except ) followed by the initial d-char-sequence followed by "')],
+  },
+  {
+    name: 'prose wrapped after a symbol',
+    source: `d-char:
+    any member of the basic character set except space, (, ), \\,
+        horizontal tab, vertical tab, form feed, and new-line`,
+    alternatives: [C('any member of the basic character set except space, (, ), \\, horizontal tab, vertical tab, form feed, and new-line')],
+  },
+  {
+    name: 'alternative after prose ending in "or"',
+    source: `n-char:
+    any member of the translation character set except } or
+    universal-character-name`,
+    knownRules: ['universal-character-name'],
+    alternatives: [C('any member of the translation character set except } or'), NT('universal-character-name')],
+  },
+  {
+    name: 'alternative after prose ending in ","',
+    source: `h-char:
+    any member of the translation character set except new-line and >,
+    \\ h-char`,
+    alternatives: [C('any member of the translation character set except new-line and >,'), { kind: 'sequence', items: [T('\\'), NT('h-char')] }],
+  },
+];
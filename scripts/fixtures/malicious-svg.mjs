@@ -0,0 +1,99 @@
+/**
+ * Malicious input corpus for the SVG sanitizer check (check-grammar-coverage.mjs).
+ *
+ * Each fixture is either raw markup (`svg`) fed straight to sanitizeSvg, or a
+ * grammar expression (`expr`) drawn with exprToDiagram first, the way a loaded
+ * grammar file is. `keep` lists text the sanitized output must still contain,
+ * e.g. an escaped label.
+ */
+
+const T = (text) => ({ kind: 'terminal', text });
+const C = (text) => ({ kind: 'comment', text });
+const NT = (name) => ({ kind: 'nonterminal', name });
+
+export const MALICIOUS_SVG_FIXTURES = [
+  // ===== Raw markup =====
+  {
+    name: 'script element',
+    svg: '<svg><g><script>alert(1)</script><text>ok</text></g></svg>',
+    keep: ['<text>ok</text>'],
+  },
+  {
+    name: 'script hiding an end tag in its body',
+    svg: '<svg><script>"</script-x>"; alert(1) </g><text>x</text></script><text>ok</text></svg>',
+    keep: ['<text>ok</text>'],
+  },
+  {
+    name: 'event handler attributes',
+    svg: '<svg onload="alert(1)"><rect ONCLICK=alert(1) onmouseover=\'alert(1)\' width="5"></rect></svg>',
+    keep: ['<rect width="5">'],
+  },
+  {
+    name: 'foreignObject with HTML inside',
+    svg: '<svg><foreignObject><img src=x onerror=alert(1)><iframe src="javascript:alert(1)"></iframe></foreignObject><text>ok</text></svg>',
+  },
+  {
+    name: 'javascript: link',
+    svg: '<svg><a xlink:href="javascript:alert(1)"><text>x</text></a><a href=" JaVaScRiPt:alert(1)"></a></svg>',
+  },
+  {
+    name: 'entity-encoded javascript: link',
+    svg: '<svg><a xlink:href="&#106;avascript:alert(1)"><text>x</text></a></svg>',
+  },
+  {
+    name: 'external links and resources',
+    svg: '<svg><a href="https://example.com/">x</a><image href="https://example.com/x.png"></image><use href="https://example.com/s.svg#a"></use></svg>',
+  },
+  {
+    name: 'data: URL link',
+    svg: '<svg><a href="data:text/html,&lt;script&gt;alert(1)&lt;/script&gt;"><text>x</text></a></svg>',
+  },
+  {
+    name: 'style element and attribute',
+    svg: '<svg><style>* { background: url(https://example.com/) }</style><g style="background:url(javascript:alert(1))"></g></svg>',
+  },
+  {
+    name: 'animate setting an href',
+    svg: '<svg><a><animate attributeName="href" to="javascript:alert(1)"></animate><set attributeName="onmouseover" to="alert(1)"/><text>x</text></a></svg>',
+  },
+  {
+    name: 'comment and CDATA smuggling',
+    svg: '<svg><!--><script>alert(1)</script>--><![CDATA[<script>alert(1)</script>]]><text>ok</text></svg>',
+    keep: ['<text>ok</text>'],
+  },
+  {
+    name: 'unbalanced and unclosed tags',
+    svg: '<svg><g></text></a><g><text>open',
+    keep: ['open'],
+  },
+  {
+    name: 'xmlns pointing at XHTML',
+    svg: '<svg xmlns="http://www.w3.org/1999/xhtml"><text>x</text></svg>',
+  },
+  {
+    name: 'breaking out of a quoted attribute',
+    svg: '<svg><g class="a&quot; onload=&quot;alert(1)"></g></svg>',
+    keep: ['class="a&quot; onload=&quot;alert(1)"'],
+  },
+
+  // ===== Grammar expressions from a loaded file =====
+  {
+    name: 'terminal closing its text element',
+    expr: T('</text><script>alert(1)</script>'),
+    keep: ['&lt;/text&gt;&lt;script&gt;alert(1)&lt;/script&gt;'],
+  },
+  {
+    name: 'comment with markup',
+    expr: C('<img src=x onerror=alert(1)>'),
+    keep: ['&lt;img src=x onerror=alert(1)&gt;'],
+  },
+  {
+    name: 'terminal with entity references',
+    expr: { kind: 'sequence', items: [T('&lt;script&gt;'), T('&#60;svg onload=alert(1)&#62;')] },
+    keep: ['&amp;lt;script&amp;gt;', '&amp;#60;svg onload=alert(1)&amp;#62;'],
+  },
+  {
+    name: 'nonterminal name with quotes',
+    expr: NT('x" onmouseover="alert(1)'),
+  },
+];
@@ -0,0 +1,79 @@
+#!/usr/bin/env node
+/**
+ * EBNF Generator
+ *
+ * Prints EBNF generated straight from the diagram factories of a grammar pack.
+ * Run via: npm run generate-ebnf -- [--pack=<id>] [--form=standard|diagram] [--std=<id>] [rule-name ...]
+ *
+ *   --pack=<id>      Grammar pack to print (cpp or c, default cpp)
+ *   --form=standard  Annex A style with left recursion restored (default)
+ *   --form=diagram   Mirrors the diagram structure using ( | ), _opt, * and +
+ *   --std=<id>       Standard to print (e.g. c++17 or c11, default: the pack's default)
+ *
+ * With no rule names, every rule of that standard is printed in section order.
+ */
+
+import './lib/register-ts.mjs';
+
+const FORMS = ['standard', 'diagram'];
+
+function parseArgs(argv) {
+  let form = 'standard';
+  let pack;
+  let std;
+  const names = [];
+  for (const arg of argv) {
+    if (arg.startsWith('--pack=')) {
+      pack = arg.slice('--pack='.length);
+    } else if (arg.startsWith('--form=')) {
+      form = arg.slice('--form='.length);
+    } else if (arg.startsWith('--std=')) {
+      std = arg.slice('--std='.length);
+    } else {
+      names.push(arg);
+    }
+  }
+  return { form, pack, std, names };
+}
+
+async function main() {
+  const { form, pack: packId, std, names } = parseArgs(process.argv.slice(2));
+  if (!FORMS.includes(form)) {
+    console.error(`❌ Unknown form "${form}" (expected one of: ${FORMS.join(', ')})`);
+    process.exit(1);
+  }
+
+  const { DEFAULT_PACK, GRAMMAR_PACKS, getGrammarPack } = await import('../src/features/grammar/packs.ts');
+  const pack = packId ? getGrammarPack(packId) : DEFAULT_PACK;
+  if (!pack) {
+    console.error(`❌ Unknown grammar pack "${packId}" (expected one of: ${GRAMMAR_PACKS.map(p => p.id).join(', ')})`);
+    process.exit(1);
+  }
+
+  const standard = std ?? pack.defaultVersion;
+  if (!pack.isVersion(standard)) {
+    console.error(`❌ Unknown standard "${standard}" (expected one of: ${pack.versions.join(', ')})`);
+    process.exit(1);
+  }
+
+  const ruleNames = names.length > 0
+    ? names
+    : pack.sections.flatMap(s => pack.getSectionRules(s.id, standard));
+
+  const unknown = ruleNames.filter(n => !pack.getRuleExpr(n, standard));
+  if (unknown.length > 0) {
+    console.error(`❌ Unknown rule(s) in ${standard}: ${unknown.join(', ')}`);
+    process.exit(1);
+  }
+
+  const definitions = ruleNames.map(n => pack.generateEbnfDefinition(n, form, standard));
+  const inexpressible = ruleNames.filter((n, i) => definitions[i] === undefined);
+  if (inexpressible.length > 0) {
+    console.error(`❌ No ${form} form for rule(s): ${inexpressible.join(', ')} (try --form=diagram)`);
+    process.exit(1);
+  }
+
+  console.log(definitions.join('\n\n'));
+}
+
+main();
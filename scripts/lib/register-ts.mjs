@@ -0,0 +1,8 @@
+/**
+ * Registers the TypeScript loader hooks. Import this first, then load the
+ * app's `.ts` modules with dynamic `import()`.
+ */
+
+import { register } from 'module';
+
+register('./ts-hooks.mjs', import.meta.url);
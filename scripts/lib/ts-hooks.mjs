@@ -0,0 +1,40 @@
+/**
+ * Node module hooks that let the check scripts import the app's TypeScript
+ * sources directly. Files are transpiled on load (no type checking; that is
+ * `npm run typecheck`'s job), and extensionless relative imports resolve to
+ * `.ts`/`.tsx` the same way webpack resolves them.
+ */
+
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { fileURLToPath } from 'url';
+import ts from 'typescript';
+
+const TS_EXTENSIONS = ['.ts', '.tsx'];
+
+export async function resolve(specifier, context, nextResolve) {
+  const isRelative = specifier.startsWith('./') || specifier.startsWith('../');
+  const fromTs = context.parentURL && TS_EXTENSIONS.some(ext => context.parentURL.endsWith(ext));
+  if (isRelative && fromTs && !/\.[cm]?[jt]sx?$/.test(specifier)) {
+    for (const ext of TS_EXTENSIONS) {
+      const url = new URL(specifier + ext, context.parentURL);
+      if (existsSync(fileURLToPath(url))) return { url: url.href, shortCircuit: true };
+    }
+  }
+  return nextResolve(specifier, context);
+}
+
+export async function load(url, context, nextLoad) {
+  if (!TS_EXTENSIONS.some(ext => url.endsWith(ext))) return nextLoad(url, context);
+
+  const source = await readFile(fileURLToPath(url), 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    fileName: fileURLToPath(url),
+    compilerOptions: {
+      module: ts.ModuleKind.ESNext,
+      target: ts.ScriptTarget.ES2020,
+      jsx: ts.JsxEmit.ReactJSX,
+    },
+  });
+  return { format: 'module', source: outputText, shortCircuit: true };
+}
@@ -1,17 +1,187 @@
-import { useMemo, useState, useCallback } from "react";
+import { useMemo, useState, useCallback, useEffect, useRef } from "react";
 import { RuleList } from "../components/RuleList";
-import { SECTION_ORDER, SECTION_RULES, SECTION_TITLES, type SectionId } from "../features/grammar/cppGrammar";
+import { GrammarDiagnostics } from "../components/GrammarDiagnostics";
+import { Ll1Report } from "../components/Ll1Report";
+import { StandardDiff } from "../components/StandardDiff";
+import { CommandPalette } from "../components/CommandPalette";
+import { ShortcutHelp } from "../components/ShortcutHelp";
+import { Breadcrumbs } from "../components/Breadcrumbs";
+import { LoadedGrammarView } from "../components/LoadedGrammarView";
+import { loadGrammarFile, type GrammarFileDiagnostic, type LoadedGrammar } from "../shared/grammar/grammarFile";
+import type { GrammarPack } from "../shared/grammar/grammarPack";
+import { DEFAULT_PACK, GRAMMAR_PACKS, getGrammarPack } from "../features/grammar/packs";
+import { getReferences } from "../features/grammar/ruleGraph";
+import { matchesRuleText } from "../features/grammar/ruleSearch";
+import { parseRoutePath, readViewParams, routeFromHash, routePath, writeViewParams, type Route } from "./routes";
+import { EMPTY_TRAIL, trailFromPath, visitRule, type Trail } from "./trail";
+
+/** Query parameter naming a same-origin grammar file to open on load. */
+const GRAMMAR_PARAM = "grammar";
+
+/**
+ * Resolves a `?grammar=` value against the page, refusing other origins so a
+ * shared link cannot pull in arbitrary third-party content.
+ */
+function sameOriginUrl(value: string): URL | null {
+  try {
+    const url = new URL(value, window.location.href);
+    return url.origin === window.location.origin ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+/** A pack starts with its first section expanded (lazy rendering keeps the rest collapsed). */
+function defaultSections(pack: GrammarPack): Set<string> {
+  return new Set([pack.sections[0].id]);
+}
+
+function isDefaultSections(pack: GrammarPack, sections: ReadonlySet<string>): boolean {
+  return sections.size === 1 && sections.has(pack.sections[0].id);
+}
+
+/**
+ * Route and view state as the current URL describes them, with defaults for
+ * anything missing or unknown. A `#fragment` (an in-page link, or a link from
+ * before routes existed) takes precedence over the path. `trail` is null
+ * unless the URL carries a pinned path.
+ */
+function readLocation() {
+  const params = readViewParams(new URLSearchParams(window.location.search));
+  const pack = getGrammarPack(params.pack) ?? DEFAULT_PACK;
+  const standard = pack.isVersion(params.standard) ? params.standard : pack.defaultVersion;
+  const hash = decodeURIComponent(window.location.hash.slice(1));
+  const route = hash ? routeFromHash(hash) : parseRoutePath(window.location.pathname);
+  const path = params.path?.filter((name) => pack.getRuleExpr(name, standard));
+  return {
+    route,
+    trail: path ? trailFromPath(path, route.page === "rule" ? route.name : undefined) : null,
+    pack,
+    standard,
+    paper: pack.getSourceIds(standard).includes(params.paper) ? params.paper : "",
+    query: params.query,
+    fullText: params.fullText,
+    expandedSections: params.sections ? new Set(params.sections) : defaultSections(pack),
+  };
+}
 
 export default function App() {
-  const [query, setQuery] = useState("");
+  const [initial] = useState(readLocation);
+  const [query, setQuery] = useState(initial.query);
+  // Search rule bodies (EBNF, terminals, references) rather than rule names
+  const [fullText, setFullText] = useState(initial.fullText);
+  const [hoverPreview, setHoverPreview] = useState(true);
+  const [pack, setPack] = useState<GrammarPack>(initial.pack);
+  const [standard, setStandard] = useState(initial.standard);
+  // Only show rules a source (e.g. a WG21 paper) introduced or changed; "" shows every rule
+  const [paper, setPaper] = useState(initial.paper);
+  const [route, setRoute] = useState<Route>(initial.route);
+  const view = route.page === "ll1-report" || route.page === "diff" ? route.page : "grammar";
+  const validation = useMemo(() => pack.validate(standard), [pack, standard]);
+  // Grammar file opened by the user; replaces the pack views while set
+  const [external, setExternal] = useState<{ grammar: LoadedGrammar; diagnostics: GrammarFileDiagnostic[] } | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [helpOpen, setHelpOpen] = useState(false);
+  const closeHelp = useCallback(() => setHelpOpen(false), []);
+  // Current rule of keyboard navigation (j/k), which also follows rule routes
+  const [focusedRule, setFocusedRule] = useState<string | null>(null);
+  // Rules visited so far, shown as breadcrumbs; pinning keeps them in the URL
+  const [trail, setTrail] = useState<Trail>(initial.trail ?? EMPTY_TRAIL);
+  const [pinned, setPinned] = useState(initial.trail !== null);
+
+  useEffect(() => {
+    if (external) return;
+    document.title = `${pack.name} (${pack.versionLabels[standard]}) Syntax – Railroad Diagrams`;
+  }, [pack, standard, external]);
+
+  // A grammar file is read as a dialect of the current pack, with its keyword spellings
+  const ruleTerminals = pack.ebnf?.ruleTerminals;
+  const openGrammarFile = useCallback((text: string, fileName: string) => {
+    const { grammar, diagnostics } = loadGrammarFile(text, fileName, { ruleTerminals });
+    if (grammar) {
+      setExternal({ grammar, diagnostics });
+      setLoadError(null);
+    } else {
+      setLoadError(`Could not load ${fileName}: ${diagnostics.map((d) => d.message).join("; ")}`);
+    }
+  }, [ruleTerminals]);
+
+  const readGrammarFile = useCallback((file: File) => {
+    file.text().then(
+      (text) => openGrammarFile(text, file.name),
+      (e) => setLoadError(`Could not read ${file.name}: ${e instanceof Error ? e.message : String(e)}`)
+    );
+  }, [openGrammarFile]);
+
+  const closeGrammarFile = () => {
+    setExternal(null);
+    // Drop ?grammar= so a reload shows the built-in grammar too
+    const url = new URL(window.location.href);
+    if (url.searchParams.has(GRAMMAR_PARAM)) {
+      url.searchParams.delete(GRAMMAR_PARAM);
+      window.history.replaceState(null, "", url);
+    }
+  };
+
+  // ?grammar=<path> opens a same-origin grammar file on load
+  useEffect(() => {
+    const value = new URLSearchParams(window.location.search).get(GRAMMAR_PARAM);
+    if (!value) return;
+    const url = sameOriginUrl(value);
+    if (!url) {
+      setLoadError(`Refusing to load ${value}: grammar files must come from ${window.location.origin}`);
+      return;
+    }
+    fetch(url)
+      .then((res) => (res.ok ? res.text() : Promise.reject(new Error(`HTTP ${res.status}`))))
+      .then(
+        (text) => openGrammarFile(text, url.pathname),
+        (e) => setLoadError(`Could not load ${value}: ${e instanceof Error ? e.message : String(e)}`)
+      );
+  }, [openGrammarFile]);
+
+  // Dropping a file anywhere on the page opens it
+  useEffect(() => {
+    const hasFiles = (e: DragEvent) => e.dataTransfer?.types.includes("Files") ?? false;
+    const onDragOver = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      setDragging(true);
+    };
+    const onDragLeave = (e: DragEvent) => {
+      // relatedTarget is null once the pointer leaves the window
+      if (!e.relatedTarget) setDragging(false);
+    };
+    const onDrop = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      setDragging(false);
+      const file = e.dataTransfer?.files[0];
+      if (file) readGrammarFile(file);
+    };
+
+    window.addEventListener("dragover", onDragOver);
+    window.addEventListener("dragleave", onDragLeave);
+    window.addEventListener("drop", onDrop);
+    return () => {
+      window.removeEventListener("dragover", onDragOver);
+      window.removeEventListener("dragleave", onDragLeave);
+      window.removeEventListener("drop", onDrop);
+    };
+  }, [readGrammarFile]);
   
   // Track which sections are expanded (lazy rendering: collapsed by default for performance)
-  const [expandedSections, setExpandedSections] = useState<Set<SectionId>>(() => {
-    // Start with first section expanded for better UX
-    return new Set([SECTION_ORDER[0]]);
-  });
+  const [expandedSections, setExpandedSections] = useState<Set<string>>(initial.expandedSections);
+
+  // Set by toolbar and section changes so the next URL update gets its own
+  // history entry. Route changes already have one (the browser pushed the
+  // #fragment), and filter edits replace theirs rather than one per keystroke.
+  const pushHistory = useRef(false);
 
-  const toggleSection = useCallback((sectionId: SectionId) => {
+  const toggleSection = useCallback((sectionId: string) => {
+    pushHistory.current = true;
     setExpandedSections(prev => {
       const next = new Set(prev);
       if (next.has(sectionId)) {
@@ -24,64 +194,452 @@ export default function App() {
   }, []);
 
   const expandAll = useCallback(() => {
-    setExpandedSections(new Set(SECTION_ORDER));
-  }, []);
+    pushHistory.current = true;
+    setExpandedSections(new Set(pack.sections.map((s) => s.id)));
+  }, [pack]);
 
   const collapseAll = useCallback(() => {
+    pushHistory.current = true;
     setExpandedSections(new Set());
   }, []);
 
-  const filterNames = (names: string[]) => {
-    const q = query.trim().toLowerCase();
-    if (!q) return names;
-    return names.filter((n) => n.toLowerCase().includes(q));
+  // Element id to scroll into view once it has rendered (rule card or section)
+  const [scrollTarget, setScrollTarget] = useState<string | null>(null);
+
+  // In-page #fragment links navigate to the route they stand for; back/forward
+  // restores the whole view from the URL. A loaded grammar handles its own links.
+  useEffect(() => {
+    if (external) return;
+    const followHash = () => setRoute(routeFromHash(decodeURIComponent(window.location.hash.slice(1))));
+    const followHistory = () => {
+      const location = readLocation();
+      setPack(location.pack);
+      setStandard(location.standard);
+      setPaper(location.paper);
+      setQuery(location.query);
+      setFullText(location.fullText);
+      setExpandedSections(location.expandedSections);
+      // Without a pinned path the in-memory trail stays; the route steps along it
+      if (location.trail) setTrail(location.trail);
+      setPinned(location.trail !== null);
+      setRoute(location.route);
+    };
+
+    window.addEventListener("hashchange", followHash);
+    window.addEventListener("popstate", followHistory);
+    return () => {
+      window.removeEventListener("hashchange", followHash);
+      window.removeEventListener("popstate", followHistory);
+    };
+  }, [external]);
+
+  const matchesQuery = useCallback(
+    (name: string, q: string) =>
+      fullText ? matchesRuleText(pack, name, q, standard) : name.toLowerCase().includes(q.trim().toLowerCase()),
+    [pack, standard, fullText]
+  );
+
+  // Ctrl/Cmd-K toggles the "go to" palette
+  useEffect(() => {
+    if (external) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setPaletteOpen((open) => !open);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [external]);
+
+  // Navigation from within the app (rather than a link) gets its own history entry
+  const goTo = (next: Route) => {
+    pushHistory.current = true;
+    setRoute(next);
+  };
+
+  // Rule and section routes expand their section (a rule also clears a filter
+  // that hides it), then scroll there once the section renders.
+  useEffect(() => {
+    if (route.page === "rule") {
+      const { name } = route;
+      const section = pack.getRuleSection(name);
+      if (!section) return;
+
+      setExpandedSections(prev => (prev.has(section) ? prev : new Set(prev).add(section)));
+      setQuery(q => (matchesQuery(name, q) ? q : ""));
+      setPaper(p => (p && !pack.citesSource(name, p) ? "" : p));
+      setFocusedRule(name);
+      setTrail(t => visitRule(t, name));
+      setScrollTarget(`rule-${name}`);
+    } else if (route.page === "section") {
+      const { id } = route;
+      if (!pack.sections.some((s) => s.id === id)) return;
+
+      setExpandedSections(prev => (prev.has(id) ? prev : new Set(prev).add(id)));
+      setScrollTarget(id);
+    }
+  }, [route, pack, matchesQuery]);
+
+  // Mirror the route and view state in the URL; defaults are left out
+  useEffect(() => {
+    if (external) return;
+    const url = new URL(window.location.href);
+    url.pathname = routePath(route);
+    url.hash = "";
+    writeViewParams(url.searchParams, {
+      pack: pack === DEFAULT_PACK ? "" : pack.id,
+      standard: standard === pack.defaultVersion ? "" : standard,
+      paper,
+      query,
+      fullText,
+      sections: isDefaultSections(pack, expandedSections)
+        ? null
+        : pack.sections.map((s) => s.id).filter((id) => expandedSections.has(id)),
+      path: pinned ? trail.rules : null,
+    });
+
+    const push = pushHistory.current;
+    pushHistory.current = false;
+    if (url.href === window.location.href) return;
+    if (push) window.history.pushState(null, "", url);
+    else window.history.replaceState(null, "", url);
+  }, [external, route, pack, standard, paper, query, fullText, expandedSections, trail, pinned]);
+
+  useEffect(() => {
+    if (!scrollTarget) return;
+    document.getElementById(scrollTarget)?.scrollIntoView();
+    setScrollTarget(null);
+  }, [scrollTarget, expandedSections, query, view]);
+
+  const filterNames = (names: string[]) =>
+    names.filter((n) => matchesQuery(n, query) && (!paper || pack.citesSource(n, paper)));
+
+  const changeStandard = (next: string) => {
+    pushHistory.current = true;
+    setStandard(next);
+    setPaper(p => (p && !pack.getSourceIds(next).includes(p) ? "" : p));
+  };
+
+  // Link to a rule as of another standard (e.g. from the comparison), keeping the rest of the view
+  const ruleHref = (name: string, version: string) => {
+    const url = new URL(window.location.href);
+    const params = readViewParams(url.searchParams);
+    writeViewParams(url.searchParams, {
+      ...params,
+      standard: version === pack.defaultVersion ? "" : version,
+      paper: pack.getSourceIds(version).includes(params.paper) ? params.paper : "",
+    });
+    return `${routePath({ page: "rule", name })}${url.search}`;
+  };
+
+  const openRuleIn = (name: string, version: string) => {
+    changeStandard(version);
+    goTo({ page: "rule", name });
+  };
+
+  // A pack starts at its default version, with its first section expanded;
+  // a rule or section of the previous pack gives way to the grammar page
+  const changePack = (next: GrammarPack) => {
+    pushHistory.current = true;
+    setPack(next);
+    setStandard(next.defaultVersion);
+    setPaper("");
+    setExpandedSections(defaultSections(next));
+    setRoute(r => (r.page === "rule" || r.page === "section" ? { page: "grammar" } : r));
+    setTrail(EMPTY_TRAIL);
+    setPinned(false);
   };
 
-  const filteredBySection: Record<SectionId, string[]> = useMemo(() => {
-    const out = {} as Record<SectionId, string[]>;
-    for (const s of SECTION_ORDER) out[s] = filterNames(SECTION_RULES[s]);
+  // Back/forward along the trail moves its cursor rather than adding a visit
+  const goToTrail = (index: number) => {
+    setTrail(t => ({ ...t, index }));
+    goTo({ page: "rule", name: trail.rules[index] });
+  };
+
+  // Sections with no rules in the selected standard (e.g. modules before C++20) are hidden
+  const sections = useMemo(() => pack.getSections(standard).map((s) => s.id), [pack, standard]);
+
+  const filteredBySection: Record<string, string[]> = useMemo(() => {
+    const out: Record<string, string[]> = {};
+    for (const s of sections) out[s] = filterNames(pack.getSectionRules(s, standard));
     return out;
-  }, [query]);
+  }, [query, paper, pack, standard, sections, matchesQuery]);
+
+  const { sources } = pack;
 
   // When filtering, auto-expand sections that have matches
-  const hasFilterQuery = query.trim().length > 0;
+  const hasFilterQuery = query.trim().length > 0 || paper !== "";
+
+  // Every rule the filter lets through, in page order, whether or not its section is expanded
+  const ruleOrder = useMemo(
+    () => sections.flatMap((section) => filteredBySection[section].map((name) => ({ name, section }))),
+    [sections, filteredBySection]
+  );
+
+  // j/k move between rule cards and [/] between sections, expanding sections as
+  // needed; Enter follows the current rule's first reference; ? toggles the help
+  useEffect(() => {
+    if (external) return;
+
+    const focusRule = ({ name, section }: { name: string; section: string }) => {
+      setFocusedRule(name);
+      setExpandedSections(prev => (prev.has(section) ? prev : new Set(prev).add(section)));
+      setScrollTarget(`rule-${name}`);
+    };
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || paletteOpen) return;
+      const target = e.target as Element;
+      // Typing in the filter (or any other field) is not a shortcut
+      if (target.closest?.("input, textarea, select, [contenteditable]")) return;
+
+      if (e.key === "?") {
+        e.preventDefault();
+        setHelpOpen((open) => !open);
+        return;
+      }
+      if (helpOpen || view !== "grammar" || ruleOrder.length === 0) return;
+
+      const at = ruleOrder.findIndex((r) => r.name === focusedRule);
+      const sectionIds = [...new Set(ruleOrder.map((r) => r.section))];
+      const currentSection = at < 0 ? -1 : sectionIds.indexOf(ruleOrder[at].section);
+      const firstRuleOf = (i: number) => ruleOrder.findIndex((r) => r.section === sectionIds[i]);
+
+      let next: number;
+      switch (e.key) {
+        case "j":
+          next = Math.min(at + 1, ruleOrder.length - 1);
+          break;
+        case "k":
+          next = at < 0 ? ruleOrder.length - 1 : Math.max(at - 1, 0);
+          break;
+        case "]":
+          next = firstRuleOf(Math.min(currentSection + 1, sectionIds.length - 1));
+          break;
+        case "[":
+          next = firstRuleOf(Math.max(currentSection - 1, 0));
+          break;
+        case "Enter": {
+          // Links and buttons keep their own Enter
+          if (at < 0 || target.closest?.("a, button, summary")) return;
+          const reference = getReferences(pack, ruleOrder[at].name, standard).find((r) =>
+            pack.getRuleExpr(r, standard)
+          );
+          if (!reference) return;
+          e.preventDefault();
+          goTo({ page: "rule", name: reference });
+          return;
+        }
+        default:
+          return;
+      }
+      e.preventDefault();
+      focusRule(ruleOrder[next]);
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [external, paletteOpen, helpOpen, view, ruleOrder, focusedRule, pack, standard]);
+
+  const fileNotices = (
+    <>
+      {dragging && <div className="drop-overlay">Drop a grammar file (JSON or EBNF) to view it</div>}
+      {loadError && (
+        <div className="load-error" role="alert">
+          {loadError}
+          <button type="button" onClick={() => setLoadError(null)} className="toolbar-btn">
+            Dismiss
+          </button>
+        </div>
+      )}
+    </>
+  );
+
+  if (external) {
+    return (
+      <>
+        {fileNotices}
+        <LoadedGrammarView
+          grammar={external.grammar}
+          diagnostics={external.diagnostics}
+          packName={pack.name}
+          onClose={closeGrammarFile}
+        />
+      </>
+    );
+  }
 
   return (
     <>
+      {fileNotices}
       <header>
-        <h1 style={{ margin: 0 }}>C++ (C++23) Language Syntax – Railroad Diagrams</h1>
-        <div className="subtitle">
-          Rendered from a diagram-friendly transcription of Annex A–style grammar rules (left recursion removed where needed).
-        </div>
+        <h1 style={{ margin: 0 }}>
+          {pack.name} ({pack.versionLabels[standard]}) Language Syntax – Railroad Diagrams
+        </h1>
+        <div className="subtitle">{pack.description}</div>
 
         <div className="toolbar">
           <input
             value={query}
             onChange={(e) => setQuery(e.target.value)}
-            placeholder="Filter rules by name (e.g., declarator, template-id)…"
-            aria-label="Filter rules"
+            placeholder={
+              fullText
+                ? "Search rule bodies, terminals and references (e.g., co_await, ...)…"
+                : "Filter rules by name (e.g., declarator, initializer-list)…"
+            }
+            aria-label={fullText ? "Search rules" : "Filter rules"}
           />
           <div className="toolbar-actions">
+            <label className="toolbar-toggle" title="Match EBNF bodies, terminals and referenced rules instead of rule names">
+              <input
+                type="checkbox"
+                checked={fullText}
+                onChange={(e) => {
+                  pushHistory.current = true;
+                  setFullText(e.target.checked);
+                }}
+              />
+              Full text
+            </label>
+            {GRAMMAR_PACKS.length > 1 && (
+              <select
+                value={pack.id}
+                onChange={(e) => {
+                  const next = getGrammarPack(e.target.value);
+                  if (next) changePack(next);
+                }}
+                className="toolbar-select"
+                aria-label="Grammar"
+              >
+                {GRAMMAR_PACKS.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            {pack.versions.length > 1 && (
+              <select
+                value={standard}
+                onChange={(e) => pack.isVersion(e.target.value) && changeStandard(e.target.value)}
+                className="toolbar-select"
+                aria-label={`${pack.name} standard`}
+              >
+                {pack.versions.map((id) => (
+                  <option key={id} value={id}>
+                    {pack.versionLabels[id]}
+                  </option>
+                ))}
+              </select>
+            )}
+            {sources && (
+              <select
+                value={paper}
+                onChange={(e) => {
+                  pushHistory.current = true;
+                  setPaper(e.target.value in sources.entries ? e.target.value : "");
+                }}
+                className="toolbar-select toolbar-select-paper"
+                aria-label={sources.label}
+              >
+                <option value="">All {sources.label}s</option>
+                {pack.getSourceIds(standard).map((id) => (
+                  <option key={id} value={id}>
+                    {id}: {sources.entries[id].title}
+                  </option>
+                ))}
+              </select>
+            )}
             <button type="button" onClick={expandAll} className="toolbar-btn">
               Expand All
             </button>
             <button type="button" onClick={collapseAll} className="toolbar-btn">
               Collapse All
             </button>
+            <button type="button" onClick={() => setPaletteOpen(true)} className="toolbar-btn" title="Ctrl+K / ⌘K">
+              Go to…
+            </button>
+            <a href="#ll1-report" className="toolbar-btn">
+              LL(1) Report
+            </a>
+            {pack.versions.length > 1 && (
+              <a href="#diff" className="toolbar-btn">
+                Compare Standards
+              </a>
+            )}
+            <label className="toolbar-btn" title="Open a JSON or EBNF grammar file (or drop one onto the page)">
+              Open Grammar…
+              <input
+                type="file"
+                accept=".json,.ebnf,.txt"
+                hidden
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) readGrammarFile(file);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            <label className="toolbar-toggle">
+              <input
+                type="checkbox"
+                checked={hoverPreview}
+                onChange={(e) => setHoverPreview(e.target.checked)}
+              />
+              Hover previews
+            </label>
           </div>
         </div>
 
         <nav>
-          {SECTION_ORDER.map((s) => (
+          {sections.map((s) => (
             <a key={s} href={`#${s}`}>
-              {SECTION_TITLES[s]}
+              {pack.getSectionTitle(s, standard)}
             </a>
           ))}
         </nav>
       </header>
 
+      {helpOpen && <ShortcutHelp onClose={closeHelp} />}
+
+      {paletteOpen && (
+        <CommandPalette
+          pack={pack}
+          standard={standard}
+          onPickRule={(name) => goTo({ page: "rule", name })}
+          onPickSection={(id) => goTo({ page: "section", id })}
+          onClose={() => setPaletteOpen(false)}
+        />
+      )}
+
+      {view === "grammar" && trail.rules.length > 0 && (
+        <Breadcrumbs
+          rules={trail.rules}
+          index={trail.index}
+          pinned={pinned}
+          onGo={goToTrail}
+          onTogglePin={() => {
+            pushHistory.current = true;
+            setPinned(p => !p);
+          }}
+          onClear={() => {
+            setTrail(EMPTY_TRAIL);
+            setPinned(false);
+          }}
+        />
+      )}
+
       <main>
-        {SECTION_ORDER.map((s) => {
+        {view === "ll1-report" && <Ll1Report pack={pack} standard={standard} />}
+
+        {view === "diff" && (
+          <StandardDiff key={pack.id} pack={pack} standard={standard} ruleHref={ruleHref} onOpenRule={openRuleIn} />
+        )}
+
+        {view === "grammar" && <GrammarDiagnostics result={validation} />}
+
+        {view === "grammar" && sections.map((s) => {
           const ruleCount = filteredBySection[s].length;
           const isExpanded = hasFilterQuery ? ruleCount > 0 : expandedSections.has(s);
           
@@ -98,14 +656,21 @@ export default function App() {
                 aria-controls={`section-content-${s}`}
               >
                 <span className={`section-chevron ${isExpanded ? 'expanded' : ''}`}>▶</span>
-                <h2>{SECTION_TITLES[s]}</h2>
+                <h2>{pack.getSectionTitle(s, standard)}</h2>
                 <span className="rule-count">({ruleCount} rules)</span>
               </button>
               
               {/* Lazy render: only render rules when section is expanded */}
               {isExpanded && (
                 <div id={`section-content-${s}`} className="section-content">
-                  <RuleList names={filteredBySection[s]} />
+                  <RuleList
+                    pack={pack}
+                    names={filteredBySection[s]}
+                    standard={standard}
+                    hoverPreview={hoverPreview}
+                    highlight={fullText ? query.trim() : undefined}
+                    focusedRule={focusedRule}
+                  />
                 </div>
               )}
             </section>
@@ -114,6 +679,13 @@ export default function App() {
       </main>
 
       <footer>
+        <div>
+          Tip: Press <kbd>Ctrl</kbd>+<kbd>K</kbd> (<kbd>⌘</kbd><kbd>K</kbd> on macOS) to jump to any rule or section,
+          and <kbd>?</kbd> for keyboard shortcuts (<kbd>j</kbd>/<kbd>k</kbd> between rules, <kbd>[</kbd>/<kbd>]</kbd> between sections).
+        </div>
+        <div>
+          Tip: Shift-click a nonterminal to expand its rule in place; click the label above the expansion to collapse it.
+        </div>
         <div>
           Tip: Use <code>npm run dev</code> for local development, or <code>npm run build</code> then <code>npm run preview</code> to serve a production build.
         </div>
@@ -0,0 +1,122 @@
+/**
+ * URL routes and the view state kept in the query string, so any view can be
+ * linked to and restored with back/forward.
+ *
+ * Paths are relative to webpack's `publicPath` (e.g. "/<repo>/" on GitHub Pages):
+ * - `/` — the grammar
+ * - `/rule/<name>` — the grammar, scrolled to one rule with its section expanded
+ * - `/section/<id>` — the grammar, scrolled to one expanded section
+ * - `/ll1-report`, `/diff` — the LL(1) report and the standards comparison
+ *
+ * In-page `#rule-<name>`, `#<section>`, `#ll1-report` and `#diff` links are
+ * shorthand for those routes (diagram links must stay same-document fragments
+ * to survive sanitizeSvg).
+ */
+
+export type Route =
+  | { page: "grammar" }
+  | { page: "rule"; name: string }
+  | { page: "section"; id: string }
+  | { page: "ll1-report" }
+  | { page: "diff" };
+
+/** View state shared by every route. Empty values are left out of the URL. */
+export interface ViewParams {
+  pack: string;
+  standard: string;
+  paper: string;
+  query: string;
+  /** Whether `query` searches EBNF bodies, terminals and references instead of rule names. */
+  fullText: boolean;
+  /** Expanded sections; null when the URL does not say (the app's default applies). */
+  sections: string[] | null;
+  /** Pinned exploration trail (rules visited, oldest first); null when not pinned. */
+  path: string[] | null;
+}
+
+/** Path the app is served from, with a trailing slash. */
+const BASE_PATH = __webpack_public_path__;
+
+// --- Routes ---
+
+/** Route for a path, relative to BASE_PATH; anything unknown is the grammar. */
+export function parseRoutePath(pathname: string): Route {
+  const rest = pathname.startsWith(BASE_PATH) ? pathname.slice(BASE_PATH.length) : pathname.replace(/^\//, "");
+  let segments: string[];
+  try {
+    segments = rest.split("/").filter(Boolean).map(decodeURIComponent);
+  } catch {
+    // Malformed escapes (e.g. a truncated link)
+    return { page: "grammar" };
+  }
+  const [page, arg, ...extra] = segments;
+
+  if (page === "rule" && arg && extra.length === 0) return { page, name: arg };
+  if (page === "section" && arg && extra.length === 0) return { page, id: arg };
+  if ((page === "ll1-report" || page === "diff") && !arg) return { page };
+  return { page: "grammar" };
+}
+
+/** Route an in-page `#fragment` link stands for; "" is the grammar. */
+export function routeFromHash(hash: string): Route {
+  if (!hash) return { page: "grammar" };
+  if (hash.startsWith("rule-")) return { page: "rule", name: hash.slice("rule-".length) };
+  if (hash === "ll1-report" || hash === "diff") return { page: hash };
+  return { page: "section", id: hash };
+}
+
+/** Absolute path of a route. */
+export function routePath(route: Route): string {
+  switch (route.page) {
+    case "grammar":
+      return BASE_PATH;
+    case "rule":
+      return `${BASE_PATH}rule/${encodeURIComponent(route.name)}`;
+    case "section":
+      return `${BASE_PATH}section/${encodeURIComponent(route.id)}`;
+    default:
+      return `${BASE_PATH}${route.page}`;
+  }
+}
+
+// --- Query string ---
+
+const PARAMS = {
+  pack: "pack",
+  standard: "std",
+  paper: "paper",
+  query: "q",
+  mode: "mode",
+  sections: "sections",
+  path: "path",
+} as const;
+
+/** `?mode=` value for full-text search; name search is the default. */
+const FULL_TEXT_MODE = "text";
+
+export function readViewParams(params: URLSearchParams): ViewParams {
+  const sections = params.get(PARAMS.sections);
+  const path = params.get(PARAMS.path);
+  return {
+    pack: params.get(PARAMS.pack) ?? "",
+    standard: params.get(PARAMS.standard) ?? "",
+    paper: params.get(PARAMS.paper) ?? "",
+    query: params.get(PARAMS.query) ?? "",
+    fullText: params.get(PARAMS.mode) === FULL_TEXT_MODE,
+    sections: sections === null ? null : sections.split(",").filter(Boolean),
+    path: path === null ? null : path.split(",").filter(Boolean),
+  };
+}
+
+/** Sets the view params on `params`, leaving any others (e.g. `?grammar=`) alone. */
+export function writeViewParams(params: URLSearchParams, view: ViewParams): void {
+  const set = (key: string, value: string | null) => (value === null ? params.delete(key) : params.set(key, value));
+  set(PARAMS.pack, view.pack || null);
+  set(PARAMS.standard, view.standard || null);
+  set(PARAMS.paper, view.paper || null);
+  set(PARAMS.query, view.query || null);
+  set(PARAMS.mode, view.fullText ? FULL_TEXT_MODE : null);
+  // An empty list is kept: "all collapsed" differs from the default
+  set(PARAMS.sections, view.sections && view.sections.join(","));
+  set(PARAMS.path, view.path && view.path.join(","));
+}
@@ -0,0 +1,31 @@
+/**
+ * Exploration trail: the rules visited while following references, with a
+ * cursor for back/forward, like a browser's history but shown as breadcrumbs.
+ */
+
+export interface Trail {
+  rules: string[];
+  /** Position of the current rule in `rules`; -1 when empty. */
+  index: number;
+}
+
+export const EMPTY_TRAIL: Trail = { rules: [], index: -1 };
+
+/**
+ * Trail after arriving at a rule. Arriving at the current rule changes
+ * nothing and arriving at a neighbour moves the cursor (e.g. browser
+ * back/forward); anything else is a new visit that drops the forward part.
+ */
+export function visitRule(trail: Trail, name: string): Trail {
+  const { rules, index } = trail;
+  if (rules[index] === name) return trail;
+  if (rules[index - 1] === name) return { rules, index: index - 1 };
+  if (rules[index + 1] === name) return { rules, index: index + 1 };
+  return { rules: [...rules.slice(0, index + 1), name], index: index + 1 };
+}
+
+/** Trail restored from a pinned path, positioned at the current rule if it is on it. */
+export function trailFromPath(rules: string[], current?: string): Trail {
+  const at = current === undefined ? -1 : rules.lastIndexOf(current);
+  return { rules, index: at < 0 ? rules.length - 1 : at };
+}
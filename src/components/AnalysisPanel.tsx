@@ -0,0 +1,57 @@
+import { useMemo, useState } from "react";
+import type { GrammarPack } from "../shared/grammar/grammarPack";
+import { getRuleAnalysis, getRuleConflicts } from "../features/grammar/ruleAnalysis";
+import { Ll1ConflictList } from "./Ll1Report";
+
+interface AnalysisPanelProps {
+  pack: GrammarPack;
+  name: string;
+  standard: string;
+}
+
+function TerminalSet({ label, terminals }: { label: string; terminals: string[] }) {
+  return (
+    <div className="analysis-row">
+      <h4>
+        {label} ({terminals.length})
+      </h4>
+      <div className="analysis-terminals">
+        {terminals.map((t) => (
+          <code key={t} className={t.startsWith("? ") ? "analysis-prose" : undefined}>
+            {t}
+          </code>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Collapsible nullable / FIRST / FOLLOW summary and LL(1) conflicts for a rule. The grammar-wide
+ * analysis is only computed once a panel is first opened.
+ */
+export function AnalysisPanel({ pack, name, standard }: AnalysisPanelProps) {
+  const [open, setOpen] = useState(false);
+  const analysis = useMemo(() => (open ? getRuleAnalysis(pack, name, standard) : undefined), [pack, name, standard, open]);
+  const conflicts = useMemo(() => (open ? getRuleConflicts(pack, name, standard) : []), [pack, name, standard, open]);
+
+  return (
+    <details className="ebnf-container analysis" onToggle={(e) => setOpen(e.currentTarget.open)}>
+      <summary className="ebnf-toggle">Analysis</summary>
+      {analysis && (
+        <div className="analysis-body">
+          <div className="analysis-row">
+            <h4>Nullable</h4>
+            <span>{analysis.nullable ? "yes (derives the empty string)" : "no"}</span>
+          </div>
+          <TerminalSet label="FIRST" terminals={analysis.first} />
+          <TerminalSet label="FOLLOW" terminals={analysis.follow} />
+          <div className="analysis-row">
+            <h4>LL(1) conflicts ({conflicts.length})</h4>
+            {conflicts.length === 0 ? <span>none</span> : <Ll1ConflictList conflicts={conflicts} />}
+          </div>
+        </div>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,70 @@
+interface BreadcrumbsProps {
+  /** Rules visited, oldest first. */
+  rules: string[];
+  /** Position of the current rule in `rules`. */
+  index: number;
+  /** Whether the trail is kept in the page URL as a shareable path. */
+  pinned: boolean;
+  onGo: (index: number) => void;
+  onTogglePin: () => void;
+  onClear: () => void;
+}
+
+/**
+ * Bar showing the rules visited while exploring, with back/forward controls.
+ * Rules ahead of the current one (after going back) stay listed, dimmed,
+ * until a new rule is visited.
+ */
+export function Breadcrumbs({ rules, index, pinned, onGo, onTogglePin, onClear }: BreadcrumbsProps) {
+  return (
+    <nav className="breadcrumbs" aria-label="Visited rules">
+      <button
+        type="button"
+        className="toolbar-btn"
+        onClick={() => onGo(index - 1)}
+        disabled={index <= 0}
+        aria-label="Back"
+        title={index > 0 ? `Back to ${rules[index - 1]}` : undefined}
+      >
+        ◀
+      </button>
+      <button
+        type="button"
+        className="toolbar-btn"
+        onClick={() => onGo(index + 1)}
+        disabled={index >= rules.length - 1}
+        aria-label="Forward"
+        title={index < rules.length - 1 ? `Forward to ${rules[index + 1]}` : undefined}
+      >
+        ▶
+      </button>
+
+      <ol className="breadcrumb-trail">
+        {rules.map((name, i) => (
+          <li key={i} className={i > index ? "breadcrumb-ahead" : undefined}>
+            {i === index ? (
+              <span aria-current="location">{name}</span>
+            ) : (
+              <button type="button" className="breadcrumb-link" onClick={() => onGo(i)}>
+                {name}
+              </button>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      <button
+        type="button"
+        className={pinned ? "toolbar-btn breadcrumb-pinned" : "toolbar-btn"}
+        onClick={onTogglePin}
+        aria-pressed={pinned}
+        title={pinned ? "Stop keeping this path in the URL" : "Keep this path in the URL to share it"}
+      >
+        {pinned ? "Pinned" : "Pin path"}
+      </button>
+      <button type="button" className="toolbar-btn" onClick={onClear}>
+        Clear
+      </button>
+    </nav>
+  );
+}
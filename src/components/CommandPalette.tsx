@@ -0,0 +1,170 @@
+import { useEffect, useMemo, useRef, useState, type KeyboardEvent, type ReactNode } from "react";
+import type { GrammarPack } from "../shared/grammar/grammarPack";
+import { diagramToSvgString } from "../shared/railroad/diagramToSvg";
+import { fuzzyRank } from "../shared/search/fuzzyMatch";
+import { createRuleDiagram } from "../features/grammar/packs";
+
+interface CommandPaletteProps {
+  pack: GrammarPack;
+  standard: string;
+  onPickRule: (name: string) => void;
+  onPickSection: (id: string) => void;
+  onClose: () => void;
+}
+
+interface PaletteItem {
+  kind: "rule" | "section";
+  /** Rule name or section id. */
+  id: string;
+  /** Text matched against the query. */
+  label: string;
+  detail: string;
+}
+
+/** Results listed at once; the ranking puts the useful ones first. */
+const MAX_RESULTS = 50;
+
+/** The label with runs of matched characters in bold. */
+function highlight(label: string, positions: number[]): ReactNode[] {
+  const marked = new Set(positions);
+  const parts: ReactNode[] = [];
+  let start = 0;
+  for (let i = 1; i <= label.length; i++) {
+    if (i < label.length && marked.has(i) === marked.has(start)) continue;
+    const text = label.slice(start, i);
+    parts.push(marked.has(start) ? <b key={start} className="palette-match">{text}</b> : text);
+    start = i;
+  }
+  return parts;
+}
+
+/** Diagram of the highlighted rule, or a section's rule count. */
+function PalettePreview({ pack, standard, item }: { pack: GrammarPack; standard: string; item: PaletteItem }) {
+  const svg = useMemo(
+    () => (item.kind === "rule" ? diagramToSvgString(createRuleDiagram(pack, item.id, standard)) : null),
+    [pack, standard, item]
+  );
+
+  if (!svg) {
+    return <div className="palette-preview-empty">{pack.getSectionRules(item.id, standard).length} rules</div>;
+  }
+  return (
+    <div
+      className="svgwrap"
+      // Same trust boundary as RuleDiagram: sanitized by diagramToSvgString.
+      dangerouslySetInnerHTML={{ __html: svg }}
+    />
+  );
+}
+
+/**
+ * Ctrl/Cmd-K "go to" dialog: fuzzy-matches every rule name and section title
+ * of a pack version, best match first, and previews the highlighted rule's
+ * diagram. Arrow keys move the highlight, Enter picks it, Escape closes.
+ * With no query it lists the sections.
+ */
+export function CommandPalette({ pack, standard, onPickRule, onPickSection, onClose }: CommandPaletteProps) {
+  const [query, setQuery] = useState("");
+  const [selected, setSelected] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const items = useMemo<PaletteItem[]>(() => {
+    const sections = pack.getSections(standard).map((s) => ({
+      kind: "section" as const,
+      id: s.id,
+      label: pack.getSectionTitle(s.id, standard),
+      detail: "Section",
+    }));
+    const rules = pack.getRuleNames(standard).map((name) => {
+      const section = pack.getRuleSection(name);
+      const detail = section ? pack.getSectionTitle(section, standard) : "";
+      return { kind: "rule" as const, id: name, label: name, detail };
+    });
+    return [...sections, ...rules];
+  }, [pack, standard]);
+
+  const results = useMemo(() => {
+    if (!query.trim()) return items.filter((item) => item.kind === "section").map((item) => ({ item, positions: [] }));
+    return fuzzyRank(items, (item) => item.label, query)
+      .slice(0, MAX_RESULTS)
+      .map(({ item, match }) => ({ item, positions: match.positions }));
+  }, [items, query]);
+
+  const current = results[Math.min(selected, results.length - 1)]?.item;
+
+  useEffect(() => setSelected(0), [query]);
+
+  // Keep the highlighted result in view while moving with the arrow keys
+  useEffect(() => {
+    listRef.current?.children[selected]?.scrollIntoView({ block: "nearest" });
+  }, [selected]);
+
+  // Give focus back to whatever had it before the palette opened
+  useEffect(() => {
+    const previous = document.activeElement;
+    return () => {
+      // The picked rule scrolls into view; focusing must not scroll back
+      if (previous instanceof HTMLElement) previous.focus({ preventScroll: true });
+    };
+  }, []);
+
+  const pick = (item: PaletteItem) => {
+    onClose();
+    if (item.kind === "rule") onPickRule(item.id);
+    else onPickSection(item.id);
+  };
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setSelected((i) => (results.length ? (i + step + results.length) % results.length : 0));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      if (current) pick(current);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="overlay-backdrop" onMouseDown={(e) => e.target === e.currentTarget && onClose()}>
+      <div className="palette" role="dialog" aria-modal="true" aria-label="Go to rule or section">
+        <input
+          autoFocus
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={onKeyDown}
+          placeholder="Go to rule or section (e.g., ptrdecl, nns)…"
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="palette-results"
+          aria-activedescendant={current ? `palette-${current.kind}-${current.id}` : undefined}
+        />
+        <ul id="palette-results" className="palette-results" role="listbox" ref={listRef}>
+          {results.map(({ item, positions }, i) => (
+            <li
+              key={`${item.kind}-${item.id}`}
+              id={`palette-${item.kind}-${item.id}`}
+              role="option"
+              aria-selected={item === current}
+              className={item === current ? "palette-result selected" : "palette-result"}
+              onMouseMove={() => setSelected(i)}
+              onClick={() => pick(item)}
+            >
+              <span className="palette-label">{highlight(item.label, positions)}</span>
+              <span className="palette-detail">{item.detail}</span>
+            </li>
+          ))}
+          {results.length === 0 && <li className="palette-empty">No matching rules or sections</li>}
+        </ul>
+        {current && (
+          <div className="palette-preview">
+            <PalettePreview pack={pack} standard={standard} item={current} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import type { ReactNode } from "react";
+import type { EbnfToken, ParsedEbnfGrammar } from "../shared/grammar/ebnfParser";
+
+interface EbnfCodeProps {
+  source: string;
+  parsed?: ParsedEbnfGrammar;
+  /** Text to mark (case-insensitive) in the definition, below its `name:` line. */
+  highlight?: string;
+}
+
+const OPT_SUFFIX = "_opt";
+
+/** Renders `line[start, end)`, wrapping the parts that fall in a match. */
+type Mark = (start: number, end: number) => ReactNode;
+
+/** Start and end of each non-overlapping occurrence of `query` in `line`. */
+function findMatches(line: string, query: string): [number, number][] {
+  const matches: [number, number][] = [];
+  if (!query) return matches;
+  const haystack = line.toLowerCase();
+  const needle = query.toLowerCase();
+  for (let i = haystack.indexOf(needle); i >= 0; i = haystack.indexOf(needle, i + needle.length)) {
+    matches.push([i, i + needle.length]);
+  }
+  return matches;
+}
+
+function markMatches(line: string, matches: [number, number][]): Mark {
+  return (start, end) => {
+    const parts: ReactNode[] = [];
+    let pos = start;
+    for (const [from, to] of matches) {
+      if (to <= pos || from >= end) continue;
+      if (from > pos) parts.push(line.slice(pos, from));
+      const stop = Math.min(to, end);
+      parts.push(<mark key={pos} className="ebnf-match">{line.slice(Math.max(from, pos), stop)}</mark>);
+      pos = stop;
+    }
+    if (pos < end) parts.push(line.slice(pos, end));
+    return parts.length === 1 ? parts[0] : parts;
+  };
+}
+
+function renderToken(token: EbnfToken, start: number, end: number, line: string, mark: Mark): ReactNode {
+  const text = line.slice(start, end);
+  const optional = token.optional && text.endsWith(OPT_SUFFIX);
+  const split = optional ? end - OPT_SUFFIX.length : end;
+  const base = mark(start, split);
+  const suffix = optional ? <span className="ebnf-opt">{mark(split, end)}</span> : null;
+
+  switch (token.kind) {
+    case "nonterminal":
+      return (
+        <span key={start}>
+          <a className="ebnf-nonterminal" href={`#rule-${token.value}`}>{base}</a>
+          {suffix}
+        </span>
+      );
+    case "terminal":
+      return (
+        <span key={start}>
+          <span className="ebnf-terminal">{base}</span>
+          {suffix}
+        </span>
+      );
+    default:
+      return <span key={start} className={`ebnf-${token.kind}`}>{base}{suffix}</span>;
+  }
+}
+
+function renderLine(line: string, tokens: EbnfToken[], mark: Mark): ReactNode[] {
+  const parts: ReactNode[] = [];
+  let pos = 0;
+  for (const token of tokens) {
+    const start = token.column - 1;
+    if (start < pos) continue;
+    if (start > pos) parts.push(mark(pos, start));
+    const end = Math.min(line.length, start + token.text.length);
+    parts.push(renderToken(token, start, end, line, mark));
+    pos = end;
+  }
+  if (pos < line.length) parts.push(mark(pos, line.length));
+  return parts;
+}
+
+/**
+ * Renders EBNF text with symbols classified by the EBNF parser:
+ * nonterminals link to their rule, terminals and prose are styled,
+ * and parse diagnostics are listed below the code. Matches of a search
+ * are marked across token boundaries.
+ */
+export function EbnfCode({ source, parsed, highlight = "" }: EbnfCodeProps) {
+  const lines = source.split("\n");
+  const tokensByLine = new Map<number, EbnfToken[]>();
+  for (const token of parsed?.tokens ?? []) {
+    const list = tokensByLine.get(token.line) ?? [];
+    list.push(token);
+    tokensByLine.set(token.line, list);
+  }
+
+  const diagnostics = parsed?.diagnostics ?? [];
+
+  return (
+    <>
+      <pre className="ebnf-code">
+        {lines.map((line, i) => (
+          <span key={i}>
+            {renderLine(line, tokensByLine.get(i + 1) ?? [], markMatches(line, i === 0 ? [] : findMatches(line, highlight)))}
+            {i < lines.length - 1 ? "\n" : null}
+          </span>
+        ))}
+      </pre>
+      {diagnostics.length > 0 && (
+        <ul className="ebnf-diagnostics">
+          {diagnostics.map((d, i) => (
+            <li key={i} className={`ebnf-diagnostic-${d.severity}`}>
+              {d.line}:{d.column} {d.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  );
+}
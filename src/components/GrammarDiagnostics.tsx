@@ -0,0 +1,73 @@
+import type { ReactNode } from "react";
+import { countGrammarIssues, type GrammarValidation } from "../shared/grammar/validation";
+
+interface GrammarDiagnosticsProps {
+  result: GrammarValidation;
+}
+
+function RuleLink({ name }: { name: string }) {
+  return <a href={`#rule-${name}`}>{name}</a>;
+}
+
+function IssueGroup({ title, items }: { title: string; items: ReactNode[] }) {
+  if (items.length === 0) return null;
+  return (
+    <div className="diagnostics-group">
+      <h4>{title} ({items.length})</h4>
+      <ul>
+        {items.map((item, i) => (
+          <li key={i}>{item}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Collapsible panel listing grammar consistency problems: dangling
+ * nonterminal references and rules that are unlisted, listed twice,
+ * or listed without a diagram factory.
+ */
+export function GrammarDiagnostics({ result }: GrammarDiagnosticsProps) {
+  const issues = countGrammarIssues(result);
+
+  return (
+    <details className={`diagnostics-panel ${issues > 0 ? "has-issues" : ""}`} open={issues > 0}>
+      <summary className="ebnf-toggle">
+        Grammar diagnostics: {issues === 0 ? "no issues found" : `${issues} issue${issues === 1 ? "" : "s"}`}
+      </summary>
+      {issues > 0 && (
+        <div className="diagnostics-body">
+          <IssueGroup
+            title="Undefined nonterminals"
+            items={result.undefinedReferences.map(({ rule, name }) => (
+              <>
+                <code>{name}</code> used in <RuleLink name={rule} />
+              </>
+            ))}
+          />
+          <IssueGroup
+            title="Rules not listed in any section"
+            items={result.unsectionedRules.map((rule) => <code>{rule}</code>)}
+          />
+          <IssueGroup
+            title="Rules listed in several sections"
+            items={result.duplicateSectionRules.map(({ rule, sections }) => (
+              <>
+                <RuleLink name={rule} /> in {sections.join(", ")}
+              </>
+            ))}
+          />
+          <IssueGroup
+            title="Section entries without a diagram factory"
+            items={result.sectionEntriesWithoutRule.map(({ section, rule }) => (
+              <>
+                <code>{rule}</code> in {section}
+              </>
+            ))}
+          />
+        </div>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,90 @@
+import { useMemo } from "react";
+import type { GrammarPack } from "../shared/grammar/grammarPack";
+import type { Ll1Conflict } from "../shared/grammar/ll1";
+import { getRuleConflicts } from "../features/grammar/ruleAnalysis";
+
+/** Terminal lists longer than this are cut short with a count. */
+const MAX_TERMINALS = 24;
+
+const KIND_LABELS: Record<Ll1Conflict["kind"], string> = {
+  "first-first": "FIRST/FIRST",
+  "first-follow": "FIRST/FOLLOW",
+};
+
+/**
+ * One rule's LL(1) conflicts: the competing branches and the lookahead
+ * terminals on which a predictive parser cannot decide.
+ */
+export function Ll1ConflictList({ conflicts }: { conflicts: Ll1Conflict[] }) {
+  return (
+    <ul className="ll1-conflicts">
+      {conflicts.map((c, i) => {
+        const shown = c.terminals.slice(0, MAX_TERMINALS);
+        const hidden = c.terminals.length - shown.length;
+        return (
+          <li key={i}>
+            <span className={`ll1-kind ll1-kind-${c.kind}`}>{KIND_LABELS[c.kind]}</span>
+            <span className="ll1-construct">{c.construct}</span>
+            <div className="ll1-branches">
+              {c.branches.map((b, j) => (
+                <code key={j}>{b}</code>
+              ))}
+            </div>
+            <div className="analysis-terminals">
+              {shown.map((t) => (
+                <code key={t}>{t}</code>
+              ))}
+              {hidden > 0 && <span className="ll1-more">+{hidden} more</span>}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+/**
+ * Grammar-wide LL(1) report: every rule with conflicts, grouped by section.
+ * This is where a language like C++ needs semantic lookahead or disambiguation rules.
+ */
+export function Ll1Report({ pack, standard }: { pack: GrammarPack; standard: string }) {
+  const sections = useMemo(
+    () =>
+      pack.sections.map(({ id }) => ({
+        section: id,
+        rules: pack.getSectionRules(id, standard)
+          .map((name) => ({ name, conflicts: getRuleConflicts(pack, name, standard) }))
+          .filter((r) => r.conflicts.length > 0),
+      })).filter((s) => s.rules.length > 0),
+    [pack, standard]
+  );
+
+  const ruleCount = sections.reduce((n, s) => n + s.rules.length, 0);
+  const conflictCount = sections.reduce((n, s) => n + s.rules.reduce((m, r) => m + r.conflicts.length, 0), 0);
+
+  return (
+    <div className="ll1-report">
+      <h2>LL(1) Conflict Report – {pack.versionLabels[standard]}</h2>
+      <p className="subtitle">
+        {conflictCount} conflicts in {ruleCount} rules. Lexical rules are treated as single tokens
+        (e.g. <code>&lt;identifier&gt;</code>) from phrase-level rules. <a href="#">Back to the grammar</a>
+      </p>
+
+      {sections.map(({ section, rules }) => (
+        <section key={section} className="grammar-section">
+          <h3 className="ll1-section-title">
+            {pack.getSectionTitle(section, standard)} <span className="rule-count">({rules.length} rules)</span>
+          </h3>
+          {rules.map(({ name, conflicts }) => (
+            <div key={name} className="rule ll1-rule">
+              <h4>
+                <a href={`#rule-${name}`}>{name}</a>
+              </h4>
+              <Ll1ConflictList conflicts={conflicts} />
+            </div>
+          ))}
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { parseEbnf } from "../shared/grammar/ebnfParser";
+import type { GrammarFileDiagnostic, LoadedGrammar } from "../shared/grammar/grammarFile";
+import { validateGrammar } from "../shared/grammar/validation";
+import { diagramToSvgString } from "../shared/railroad/diagramToSvg";
+import { exprToDiagram } from "../shared/railroad/exprToDiagram";
+import { EbnfCode } from "./EbnfCode";
+import { GrammarDiagnostics } from "./GrammarDiagnostics";
+
+interface LoadedGrammarViewProps {
+  grammar: LoadedGrammar;
+  /** Problems found while reading the file. */
+  diagnostics: GrammarFileDiagnostic[];
+  /** Name of the built-in grammar pack `onClose` returns to. */
+  packName: string;
+  /** Return to the built-in grammar pack. */
+  onClose: () => void;
+}
+
+function LoadedRule({ name, grammar }: { name: string; grammar: LoadedGrammar }) {
+  const expr = grammar.rules.get(name)!;
+  const svg = useMemo(
+    () =>
+      diagramToSvgString(
+        exprToDiagram(expr, { nonterminalHref: (n) => (grammar.rules.has(n) ? `#rule-${n}` : undefined) })
+      ),
+    [expr, grammar]
+  );
+  const ebnf = grammar.ebnf.get(name) ?? "";
+  const knownRules = useMemo(() => new Set(grammar.rules.keys()), [grammar]);
+  const parsedEbnf = useMemo(
+    () => parseEbnf(ebnf, { notation: grammar.notation, knownRules, ruleTerminals: grammar.ruleTerminals }),
+    [ebnf, grammar, knownRules]
+  );
+
+  return (
+    <div className="rule" id={`rule-${name}`}>
+      <h3>{name}</h3>
+
+      {/* Railroad Diagram */}
+      <div
+        className="svgwrap"
+        // Trust boundary: the file's rules were rebuilt from known node kinds
+        // by loadGrammarFile, and diagramToSvgString sanitizes the SVG.
+        dangerouslySetInnerHTML={{ __html: svg }}
+      />
+
+      {/* EBNF Definition */}
+      {ebnf && (
+        <details className="ebnf-container" open>
+          <summary className="ebnf-toggle">EBNF</summary>
+          <EbnfCode source={ebnf} parsed={parsedEbnf} />
+        </details>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Shows a grammar loaded from a dropped file or a `?grammar=` URL with the
+ * same section navigation, name filter and EBNF panels as the built-in grammars.
+ */
+export function LoadedGrammarView({ grammar, diagnostics, packName, onClose }: LoadedGrammarViewProps) {
+  const [query, setQuery] = useState("");
+  const [expandedSections, setExpandedSections] = useState<Set<string>>(
+    () => new Set(grammar.sections.slice(0, 1).map((s) => s.id))
+  );
+  const [scrollTarget, setScrollTarget] = useState<string | null>(null);
+
+  const validation = useMemo(
+    () =>
+      validateGrammar({
+        ruleNames: [...grammar.rules.keys()],
+        getRuleExpr: (name) => grammar.rules.get(name),
+        sections: grammar.sections.map((s) => ({ id: s.title, rules: s.rules })),
+      }),
+    [grammar]
+  );
+
+  useEffect(() => {
+    document.title = `${grammar.title} – Railroad Diagrams`;
+  }, [grammar]);
+
+  const toggleSection = useCallback((id: string) => {
+    setExpandedSections(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  // Follow #rule-<name> links within the loaded grammar, like App does for the built-in grammars
+  useEffect(() => {
+    const followHash = () => {
+      const hash = decodeURIComponent(window.location.hash.slice(1));
+      if (!hash.startsWith("rule-")) {
+        setScrollTarget(hash || null);
+        return;
+      }
+      const name = hash.slice("rule-".length);
+      const section = grammar.sections.find((s) => s.rules.includes(name));
+      if (!section) return;
+
+      setExpandedSections(prev => (prev.has(section.id) ? prev : new Set(prev).add(section.id)));
+      setQuery(q => (q.trim() && !name.toLowerCase().includes(q.trim().toLowerCase()) ? "" : q));
+      setScrollTarget(hash);
+    };
+
+    followHash();
+    window.addEventListener("hashchange", followHash);
+    return () => window.removeEventListener("hashchange", followHash);
+  }, [grammar]);
+
+  useEffect(() => {
+    if (!scrollTarget) return;
+    document.getElementById(scrollTarget)?.scrollIntoView();
+    setScrollTarget(null);
+  }, [scrollTarget, expandedSections, query]);
+
+  const q = query.trim().toLowerCase();
+  const hasFilterQuery = q.length > 0;
+
+  return (
+    <>
+      <header>
+        <h1 style={{ margin: 0 }}>{grammar.title} – Railroad Diagrams</h1>
+        <div className="subtitle">
+          Loaded {grammar.format === "json" ? "JSON grammar" : "EBNF grammar"} with {grammar.rules.size} rules.
+        </div>
+
+        <div className="toolbar">
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Filter rules by name…"
+            aria-label="Filter rules"
+          />
+          <div className="toolbar-actions">
+            <button
+              type="button"
+              onClick={() => setExpandedSections(new Set(grammar.sections.map((s) => s.id)))}
+              className="toolbar-btn"
+            >
+              Expand All
+            </button>
+            <button type="button" onClick={() => setExpandedSections(new Set())} className="toolbar-btn">
+              Collapse All
+            </button>
+            <button type="button" onClick={onClose} className="toolbar-btn">
+              Back to {packName}
+            </button>
+          </div>
+        </div>
+
+        <nav>
+          {grammar.sections.map((s) => (
+            <a key={s.id} href={`#${s.id}`}>
+              {s.title}
+            </a>
+          ))}
+        </nav>
+      </header>
+
+      <main>
+        {diagnostics.length > 0 && (
+          <details className="diagnostics-panel has-issues" open>
+            <summary className="ebnf-toggle">
+              File problems: {diagnostics.length} issue{diagnostics.length === 1 ? "" : "s"} (affected rules were skipped)
+            </summary>
+            <div className="diagnostics-body">
+              <div className="diagnostics-group">
+                <ul>
+                  {diagnostics.map((d, i) => (
+                    <li key={i}>
+                      {d.line !== undefined && <>Line {d.line}: </>}
+                      {d.path && <><code>{d.path}</code>: </>}
+                      {d.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          </details>
+        )}
+
+        <GrammarDiagnostics result={validation} />
+
+        {grammar.sections.map((s) => {
+          const names = s.rules.filter((n) => grammar.rules.has(n) && n.toLowerCase().includes(q));
+          const isExpanded = hasFilterQuery ? names.length > 0 : expandedSections.has(s.id);
+
+          // Skip rendering empty sections when filtering
+          if (hasFilterQuery && names.length === 0) return null;
+
+          return (
+            <section key={s.id} id={s.id} className="grammar-section">
+              <button
+                type="button"
+                className="section-header"
+                onClick={() => toggleSection(s.id)}
+                aria-expanded={isExpanded}
+                aria-controls={`section-content-${s.id}`}
+              >
+                <span className={`section-chevron ${isExpanded ? 'expanded' : ''}`}>▶</span>
+                <h2>{s.title}</h2>
+                <span className="rule-count">({names.length} rules)</span>
+              </button>
+
+              {isExpanded && (
+                <div id={`section-content-${s.id}`} className="section-content">
+                  {names.map((name) => (
+                    <LoadedRule key={name} name={name} grammar={grammar} />
+                  ))}
+                </div>
+              )}
+            </section>
+          );
+        })}
+      </main>
+    </>
+  );
+}
@@ -1,47 +1,211 @@
-import { useMemo } from "react";
+import { useEffect, useMemo, useRef, useState, type MouseEvent } from "react";
+import type { GrammarPack } from "../shared/grammar/grammarPack";
 import { diagramToSvgString } from "../shared/railroad/diagramToSvg";
-import { createRuleDiagram } from "../features/grammar/cppGrammar";
-import { getEbnfDefinition } from "../features/grammar/ebnfDefinitions";
+import {
+  EXPANSION_LABEL_CLASS,
+  NONTERMINAL_PATH_ATTR,
+  NONTERMINAL_RULE_ATTR,
+  RECURSIVE_NONTERMINAL_CLASS,
+} from "../shared/railroad/exprToDiagram";
+import { createRuleDiagram } from "../features/grammar/packs";
+import { isReachable } from "../features/grammar/ruleGraph";
+import { AnalysisPanel } from "./AnalysisPanel";
+import { EbnfCode } from "./EbnfCode";
+import { RulePreview } from "./RulePreview";
+import { UsedByPanel } from "./UsedByPanel";
 
 interface RuleDiagramProps {
+  pack: GrammarPack;
   name: string;
+  /** Version of the pack the diagram, EBNF and analysis are shown for. */
+  standard: string;
+  /** Show a popover with the referenced rule's diagram when hovering a nonterminal. */
+  hoverPreview?: boolean;
+  /** Full-text search to mark in the EBNF. */
+  highlight?: string;
+  /** Current rule of keyboard navigation; drawn with a focus ring. */
+  focused?: boolean;
+}
+
+/** Hover time before a nonterminal preview opens. */
+const PREVIEW_DELAY_MS = 300;
+
+/** The linked nonterminal box containing an event target, if any. */
+function linkedBoxAt(target: EventTarget): Element | null {
+  const box = (target as Element).closest?.(`g.non-terminal[${NONTERMINAL_RULE_ATTR}]`);
+  return box?.querySelector("a") ? box : null;
+}
+
+/** Path of the expansion whose label contains an event target, if any. */
+function expansionLabelAt(target: EventTarget): string | null {
+  const label = (target as Element).closest?.(`g.${EXPANSION_LABEL_CLASS}[${NONTERMINAL_PATH_ATTR}]`);
+  return label?.getAttribute(NONTERMINAL_PATH_ATTR) ?? null;
 }
 
 /**
- * Renders a railroad diagram for a C++23 grammar rule,
- * along with its EBNF definition displayed below.
+ * Renders a railroad diagram for a grammar rule as it reads in one
+ * standard, along with its EBNF definition displayed below.
+ *
+ * Nonterminal boxes navigate to the referenced rule (App expands its
+ * section on hash change) and can optionally preview it on hover.
+ * Shift-clicking a box splices the referenced rule into the diagram instead,
+ * one level at a time; clicking the label above an expansion collapses it.
+ * A rule is never expanded inside itself, so recursion cannot unroll forever.
  * 
- * Security note: SVG is generated locally from deterministic factories.
- * No untrusted user input is processed. If external grammar loading is
- * added in the future, implement defensive sanitization.
+ * Security note: SVG is generated locally from deterministic factories and
+ * still goes through sanitizeSvg (via diagramToSvgString) like every other
+ * diagram, including those of loaded grammar files.
  */
-export function RuleDiagram({ name }: RuleDiagramProps) {
+export function RuleDiagram({
+  pack,
+  name,
+  standard,
+  hoverPreview = false,
+  highlight,
+  focused = false,
+}: RuleDiagramProps) {
+  // Paths of the nonterminal occurrences expanded in place
+  const [expanded, setExpanded] = useState<ReadonlySet<string>>(() => new Set());
+  useEffect(() => setExpanded(new Set()), [pack, standard]);
+
   const svg = useMemo(() => {
-    const diagram = createRuleDiagram(name);
+    const diagram = createRuleDiagram(pack, name, standard, expanded);
     return diagramToSvgString(diagram);
-  }, [name]);
+  }, [pack, name, standard, expanded]);
+
+  const ebnf = useMemo(() => pack.getEbnfDefinition(name, standard), [pack, name, standard]);
+  const parsedEbnf = useMemo(() => pack.parseEbnfDefinition(name, standard), [pack, name, standard]);
+  const reachable = useMemo(() => isReachable(pack, name, standard), [pack, name, standard]);
+  const since = useMemo(() => pack.getVersionedRuleExpr(name)?.since, [pack, name]);
+  const links = useMemo(() => pack.ruleLinks?.(name) ?? [], [pack, name]);
+  const ruleSources = useMemo(() => pack.getRuleSources(name, standard), [pack, name, standard]);
+  const { sources } = pack;
+
+  const [preview, setPreview] = useState<{ name: string; x: number; y: number } | null>(null);
+  const pendingRule = useRef<string | null>(null);
+  const hoverTimer = useRef<number | undefined>(undefined);
+
+  const cancelPreview = () => {
+    window.clearTimeout(hoverTimer.current);
+    pendingRule.current = null;
+    setPreview(null);
+  };
+
+  useEffect(() => () => window.clearTimeout(hoverTimer.current), []);
+  useEffect(() => {
+    if (!hoverPreview) cancelPreview();
+  }, [hoverPreview]);
 
-  const ebnf = useMemo(() => getEbnfDefinition(name), [name]);
+  // Whole box is clickable, not just the <a> around its label
+  const onDiagramClick = (e: MouseEvent) => {
+    const collapsed = expansionLabelAt(e.target);
+    if (collapsed !== null) {
+      // Nested expansions go with the one collapsed
+      setExpanded((prev) => new Set([...prev].filter((p) => p !== collapsed && !p.startsWith(`${collapsed}/`))));
+      return;
+    }
+
+    const box = linkedBoxAt(e.target);
+    if (!box) return;
+    e.preventDefault();
+    cancelPreview();
+
+    if (e.shiftKey) {
+      const path = box.getAttribute(NONTERMINAL_PATH_ATTR);
+      if (path !== null && !box.classList.contains(RECURSIVE_NONTERMINAL_CLASS)) {
+        setExpanded((prev) => new Set(prev).add(path));
+      }
+      return;
+    }
+
+    const hash = `#rule-${box.getAttribute(NONTERMINAL_RULE_ATTR)}`;
+    if (window.location.hash === hash) {
+      // Same hash does not fire hashchange; re-dispatch so App still scrolls
+      window.dispatchEvent(new HashChangeEvent("hashchange"));
+    } else {
+      window.location.hash = hash;
+    }
+  };
+
+  const onDiagramMouseOver = (e: MouseEvent) => {
+    if (!hoverPreview) return;
+    const rule = linkedBoxAt(e.target)?.getAttribute(NONTERMINAL_RULE_ATTR) ?? null;
+    if (rule && rule === pendingRule.current) return;
+    cancelPreview();
+    if (!rule) return;
+
+    pendingRule.current = rule;
+    const { clientX, clientY } = e;
+    hoverTimer.current = window.setTimeout(() => setPreview({ name: rule, x: clientX, y: clientY }), PREVIEW_DELAY_MS);
+  };
 
   return (
-    <div className="rule" id={`rule-${name}`}>
-      <h3>{name}</h3>
+    <div className={focused ? "rule rule-focused" : "rule"} id={`rule-${name}`}>
+      <h3>
+        {name}
+        {!reachable && (
+          <span className="rule-badge rule-badge-unreachable" title={`Not reachable from ${pack.startRules.join(" or ")}`}>
+            unreachable
+          </span>
+        )}
+        {since && (
+          <span className="rule-badge rule-badge-since" title={`Added in ${pack.versionLabels[since]}`}>
+            since {pack.versionLabels[since]}
+          </span>
+        )}
+        {links.length > 0 && (
+          <span className="rule-clause">
+            {links.map((link) => (
+              <a key={link.url} href={link.url} target="_blank" rel="noopener noreferrer" title={link.title}>
+                {link.label}
+              </a>
+            ))}
+          </span>
+        )}
+      </h3>
+
+      {/* Documents (e.g. WG21 papers) that introduced or changed the rule */}
+      {sources && ruleSources.length > 0 && (
+        <div className="paper-chips">
+          {ruleSources.map((id) => (
+            <a
+              key={id}
+              href={sources.url(id)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="paper-chip"
+              title={`${sources.entries[id].title} (${pack.versionLabels[sources.entries[id].version]})`}
+            >
+              {id}
+            </a>
+          ))}
+        </div>
+      )}
 
       {/* Railroad Diagram */}
       <div
         className="svgwrap"
-        // SVG is generated locally from deterministic factories.
-        // Trust boundary: no untrusted input is processed here.
+        onClick={onDiagramClick}
+        onMouseOver={onDiagramMouseOver}
+        onMouseLeave={cancelPreview}
+        // Trust boundary: diagramToSvgString returns sanitized SVG.
         dangerouslySetInnerHTML={{ __html: svg }}
       />
+      {preview && <RulePreview pack={pack} name={preview.name} standard={standard} x={preview.x} y={preview.y} />}
 
       {/* EBNF Definition */}
       {ebnf && (
         <details className="ebnf-container" open>
           <summary className="ebnf-toggle">EBNF</summary>
-          <pre className="ebnf-code">{ebnf}</pre>
+          <EbnfCode source={ebnf} parsed={parsedEbnf} highlight={highlight} />
         </details>
       )}
+
+      {/* Back-references */}
+      <UsedByPanel pack={pack} name={name} standard={standard} />
+
+      {/* Nullable / FIRST / FOLLOW */}
+      <AnalysisPanel pack={pack} name={name} standard={standard} />
     </div>
   );
 }
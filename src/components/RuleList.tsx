@@ -1,10 +1,26 @@
+import type { GrammarPack } from "../shared/grammar/grammarPack";
 import { RuleDiagram } from "./RuleDiagram";
 
-export function RuleList(props: { names: string[] }) {
+export function RuleList(props: {
+  pack: GrammarPack;
+  names: string[];
+  standard: string;
+  hoverPreview?: boolean;
+  highlight?: string;
+  focusedRule?: string | null;
+}) {
   return (
     <>
       {props.names.map((name) => (
-        <RuleDiagram key={name} name={name} />
+        <RuleDiagram
+          key={name}
+          pack={props.pack}
+          name={name}
+          standard={props.standard}
+          hoverPreview={props.hoverPreview}
+          highlight={props.highlight}
+          focused={name === props.focusedRule}
+        />
       ))}
     </>
   );
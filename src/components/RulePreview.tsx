@@ -0,0 +1,42 @@
+import { useMemo, type CSSProperties } from "react";
+import type { GrammarPack } from "../shared/grammar/grammarPack";
+import { diagramToSvgString } from "../shared/railroad/diagramToSvg";
+import { createRuleDiagram } from "../features/grammar/packs";
+
+interface RulePreviewProps {
+  pack: GrammarPack;
+  name: string;
+  standard: string;
+  /** Viewport coordinates of the pointer that triggered the preview. */
+  x: number;
+  y: number;
+}
+
+const OFFSET = 16;
+
+/**
+ * Floating popover showing a referenced rule's diagram.
+ * It ignores pointer events so it never steals hover from the diagram below.
+ */
+export function RulePreview({ pack, name, standard, x, y }: RulePreviewProps) {
+  const svg = useMemo(() => diagramToSvgString(createRuleDiagram(pack, name, standard)), [pack, name, standard]);
+
+  // Open towards the side of the viewport with more room
+  const style: CSSProperties = {
+    left: x < window.innerWidth / 2 ? x + OFFSET : undefined,
+    right: x < window.innerWidth / 2 ? undefined : window.innerWidth - x + OFFSET,
+    top: y < window.innerHeight / 2 ? y + OFFSET : undefined,
+    bottom: y < window.innerHeight / 2 ? undefined : window.innerHeight - y + OFFSET,
+  };
+
+  return (
+    <div className="rule-preview" style={style} role="tooltip">
+      <div className="rule-preview-title">{name}</div>
+      <div
+        className="svgwrap"
+        // Same trust boundary as RuleDiagram: sanitized by diagramToSvgString.
+        dangerouslySetInnerHTML={{ __html: svg }}
+      />
+    </div>
+  );
+}
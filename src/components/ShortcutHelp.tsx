@@ -0,0 +1,54 @@
+import { useEffect } from "react";
+
+/** Keys and what they do, in the order shown. */
+const SHORTCUTS: { keys: string[]; action: string }[] = [
+  { keys: ["j"], action: "Next rule" },
+  { keys: ["k"], action: "Previous rule" },
+  { keys: ["]"], action: "Next section" },
+  { keys: ["["], action: "Previous section" },
+  { keys: ["Enter"], action: "Follow the current rule's first reference" },
+  { keys: ["Ctrl", "K"], action: "Go to a rule or section (⌘K on macOS)" },
+  { keys: ["?"], action: "Show or hide this help" },
+  { keys: ["Esc"], action: "Close a dialog" },
+];
+
+/**
+ * Overlay listing the keyboard shortcuts. Closes on Escape or a click outside.
+ */
+export function ShortcutHelp({ onClose }: { onClose: () => void }) {
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="overlay-backdrop" onMouseDown={(e) => e.target === e.currentTarget && onClose()}>
+      <div className="shortcut-help" role="dialog" aria-modal="true" aria-label="Keyboard shortcuts">
+        <h2>Keyboard Shortcuts</h2>
+        <table>
+          <tbody>
+            {SHORTCUTS.map(({ keys, action }) => (
+              <tr key={action}>
+                <td>
+                  {keys.map((key, i) => (
+                    <span key={key}>
+                      {i > 0 && "+"}
+                      <kbd>{key}</kbd>
+                    </span>
+                  ))}
+                </td>
+                <td>{action}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button type="button" onClick={onClose} className="toolbar-btn">
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
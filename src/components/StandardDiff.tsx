@@ -0,0 +1,186 @@
+import { useMemo, useState, type MouseEvent } from "react";
+import type { GrammarPack } from "../shared/grammar/grammarPack";
+import { diagramToSvgString } from "../shared/railroad/diagramToSvg";
+import { NONTERMINAL_RULE_ATTR } from "../shared/railroad/exprToDiagram";
+import { createDiffDiagram, diffStandards, orderStandards } from "../features/grammar/standardDiff";
+
+interface StandardDiffProps {
+  pack: GrammarPack;
+  /** Standard compared against initially; the one before it is the baseline. */
+  standard: string;
+  /** URL of a rule shown in the given standard. */
+  ruleHref: (name: string, standard: string) => string;
+  /** Opens a rule in the grammar view, switched to the given standard. */
+  onOpenRule: (name: string, standard: string) => void;
+}
+
+type ChangedRuleProps = Pick<StandardDiffProps, "pack" | "ruleHref" | "onOpenRule"> & {
+  name: string;
+  from: string;
+  to: string;
+};
+
+interface StandardSelectProps {
+  pack: GrammarPack;
+  label: string;
+  value: string;
+  onChange: (id: string) => void;
+}
+
+function StandardSelect({ pack, label, value, onChange }: StandardSelectProps) {
+  return (
+    <label className="diff-select">
+      {label}
+      <select
+        value={value}
+        onChange={(e) => pack.isVersion(e.target.value) && onChange(e.target.value)}
+        className="toolbar-select"
+      >
+        {pack.versions.map((id) => (
+          <option key={id} value={id}>
+            {pack.versionLabels[id]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+function RuleNames({ title, names, className }: { title: string; names: string[]; className: string }) {
+  if (names.length === 0) return null;
+  return (
+    <div className={`diff-group ${className}`}>
+      <h4>
+        {title} ({names.length})
+      </h4>
+      <ul>
+        {names.map((name) => (
+          <li key={name}>
+            <code>{name}</code>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/** Rule named by the linked nonterminal box containing an event target, if any. */
+function linkedRuleAt(target: EventTarget): string | null {
+  const box = (target as Element).closest?.(`g.non-terminal[${NONTERMINAL_RULE_ATTR}]`);
+  return box?.querySelector("a") ? box.getAttribute(NONTERMINAL_RULE_ATTR) : null;
+}
+
+/**
+ * One changed rule: both diagrams side by side, differences highlighted. The
+ * title opens the rule as of the newer standard, and a nonterminal box as of
+ * the standard its diagram shows.
+ */
+function ChangedRule({ pack, name, from, to, ruleHref, onOpenRule }: ChangedRuleProps) {
+  const [before, after] = useMemo(
+    () => [
+      diagramToSvgString(createDiffDiagram(pack, name, from, to)),
+      diagramToSvgString(createDiffDiagram(pack, name, to, from)),
+    ],
+    [pack, name, from, to]
+  );
+
+  // The boxes link to a bare #rule- fragment, which would keep the selected standard
+  const onDiagramClick = (e: MouseEvent, standard: string) => {
+    const rule = linkedRuleAt(e.target);
+    if (!rule) return;
+    e.preventDefault();
+    if (e.metaKey || e.ctrlKey || e.shiftKey) {
+      window.open(ruleHref(rule, standard), "_blank", "noopener");
+    } else {
+      onOpenRule(rule, standard);
+    }
+  };
+
+  return (
+    <div className="rule diff-rule">
+      <h4>
+        <a
+          href={ruleHref(name, to)}
+          title={`Open ${name} in ${pack.versionLabels[to]}`}
+          onClick={(e) => {
+            // Modified clicks open the URL as usual (e.g. in a new tab)
+            if (e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+            e.preventDefault();
+            onOpenRule(name, to);
+          }}
+        >
+          {name}
+        </a>
+      </h4>
+      <div className="diff-sides">
+        {[
+          { standard: from, svg: before },
+          { standard: to, svg: after },
+        ].map(({ standard, svg }) => (
+          <div key={standard} className="diff-side">
+            <div className="diff-side-label">{pack.versionLabels[standard]}</div>
+            <div
+              className="svgwrap"
+              onClick={(e) => onDiagramClick(e, standard)}
+              // Same trust boundary as RuleDiagram: sanitized by diagramToSvgString.
+              dangerouslySetInnerHTML={{ __html: svg }}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Grammar differences between two standards: added, removed and changed rules
+ * per section. Changed rules show both diagrams, with branches only the newer
+ * standard has drawn as added and branches only the older one has as removed.
+ */
+export function StandardDiff({ pack, standard, ruleHref, onOpenRule }: StandardDiffProps) {
+  const [first, setFirst] = useState(() => pack.versions[Math.max(0, pack.versions.indexOf(standard) - 1)]);
+  const [second, setSecond] = useState(standard);
+  const [from, to] = orderStandards(pack, first, second);
+
+  const sections = useMemo(() => diffStandards(pack, from, to), [pack, from, to]);
+  const count = (key: "added" | "removed" | "changed") => sections.reduce((n, s) => n + s[key].length, 0);
+
+  return (
+    <div className="diff-report">
+      <h2>Compare Standards</h2>
+      <div className="diff-controls">
+        <StandardSelect pack={pack} label="From" value={first} onChange={setFirst} />
+        <StandardSelect pack={pack} label="To" value={second} onChange={setSecond} />
+        <span className="diff-legend">
+          <span className="diff-swatch diff-swatch-added" /> only in {pack.versionLabels[to]}
+          <span className="diff-swatch diff-swatch-removed" /> only in {pack.versionLabels[from]}
+        </span>
+      </div>
+      <p className="subtitle">
+        {from === to
+          ? "Pick two different standards to compare."
+          : `${count("added")} added, ${count("removed")} removed and ${count("changed")} changed rules.`}{" "}
+        <a href="#">Back to the grammar</a>
+      </p>
+
+      {sections.map(({ section, added, removed, changed }) => (
+        <section key={section} className="grammar-section">
+          <h3 className="ll1-section-title">{pack.getSectionTitle(section, to)}</h3>
+          <RuleNames title="Added" names={added} className="diff-group-added" />
+          <RuleNames title="Removed" names={removed} className="diff-group-removed" />
+          {changed.map((name) => (
+            <ChangedRule
+              key={name}
+              pack={pack}
+              name={name}
+              from={from}
+              to={to}
+              ruleHref={ruleHref}
+              onOpenRule={onOpenRule}
+            />
+          ))}
+        </section>
+      ))}
+    </div>
+  );
+}
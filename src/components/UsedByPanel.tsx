@@ -0,0 +1,53 @@
+import { useMemo } from "react";
+import type { GrammarPack } from "../shared/grammar/grammarPack";
+import { getReferencedBy } from "../features/grammar/ruleGraph";
+
+interface UsedByPanelProps {
+  pack: GrammarPack;
+  name: string;
+  standard: string;
+}
+
+/**
+ * Collapsible list of the rules that reference `name`, grouped by section.
+ * Links point at `#rule-<name>`; App expands the target section on navigation.
+ */
+export function UsedByPanel({ pack, name, standard }: UsedByPanelProps) {
+  const groups = useMemo(() => {
+    const bySection = new Map<string | undefined, string[]>();
+    for (const user of getReferencedBy(pack, name, standard)) {
+      if (user === name) continue;
+      const section = pack.getRuleSection(user);
+      bySection.set(section, [...(bySection.get(section) ?? []), user]);
+    }
+    return [...pack.sections.map((s) => s.id), undefined]
+      .filter((s) => bySection.has(s))
+      .map((s) => ({ section: s, rules: bySection.get(s)! }));
+  }, [pack, name, standard]);
+
+  const count = groups.reduce((n, g) => n + g.rules.length, 0);
+
+  return (
+    <details className="ebnf-container used-by">
+      <summary className="ebnf-toggle">Used by ({count})</summary>
+      <div className="used-by-body">
+        {count === 0 ? (
+          <div className="used-by-empty">Not referenced by any other rule.</div>
+        ) : (
+          groups.map(({ section, rules }) => (
+            <div key={section ?? "unsectioned"} className="used-by-group">
+              <h4>{section ? pack.getSectionTitle(section, standard) : "Other"}</h4>
+              <ul>
+                {rules.map((rule) => (
+                  <li key={rule}>
+                    <a href={`#rule-${rule}`}>{rule}</a>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))
+        )}
+      </div>
+    </details>
+  );
+}
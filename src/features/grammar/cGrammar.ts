@@ -0,0 +1,1889 @@
+/**
+ * C Grammar Definitions (C99 – C23)
+ *
+ * Defines the C grammar as grammar expression trees, rendered as railroad
+ * diagrams. Based on the language syntax summary of ISO/IEC 9899 (Annex A).
+ * Reference: https://www.open-std.org/jtc1/sc22/wg14/www/docs/n3220.pdf
+ *
+ * As in cppGrammar.ts, rules are drawn in diagram-friendly equivalent form
+ * (left recursion -> repetition), and the factories describe C23 plus the
+ * rules and alternatives older standards add or drop, tagged with
+ * Since/Until. Rules use their C23 names throughout; C23 only renamed a few
+ * (e.g. struct-declaration -> member-declaration) without changing them.
+ *
+ * The EBNF shown for each rule is generated from its diagram.
+ */
+
+import {
+  Diagram,
+  Versioned,
+  Sequence,
+  Choice,
+  Optional,
+  OneOrMore,
+  ZeroOrMore,
+  Terminal,
+  NonTerminal,
+  Comment,
+  type GrammarExpr,
+} from "../../shared/grammar/grammarExpr";
+import { defineGrammarPack, type GrammarPack, type GrammarPackSection } from "../../shared/grammar/grammarPack";
+
+// --- Standards ----------------------------------------------------------------
+
+const STANDARDS = ["c99", "c11", "c17", "c23"] as const;
+
+type StandardId = (typeof STANDARDS)[number];
+
+const STANDARD_LABELS: Record<StandardId, string> = {
+  c99: "C99",
+  c11: "C11",
+  c17: "C17",
+  c23: "C23",
+};
+
+// Convenience wrappers ------------------------------------------------------
+
+const T  = (s: string) => Terminal(s);
+const NT = (s: string) => NonTerminal(s);
+
+/** Rule or alternative added in the given standard. */
+const Since = (std: StandardId, expr: GrammarExpr) => Versioned(expr, { since: std });
+/** Rule or alternative removed in the given standard. */
+const Until = (std: StandardId, expr: GrammarExpr) => Versioned(expr, { until: std });
+
+/** C23 attributes may appertain to most declarations and statements. */
+const Attributes = () => Since("c23", Optional(NT("attribute-specifier-sequence")));
+
+/** Digit separators, allowed between the digits of a constant since C23. */
+const Separated = (digit: string) =>
+  Sequence(NT(digit), ZeroOrMore(Sequence(Since("c23", Optional(T("'"))), NT(digit))));
+
+// precedence-chain helper
+function chain(base: string, ops: string[]) {
+  return Sequence(
+    NT(base),
+    ZeroOrMore(Sequence(Choice(0, ...ops.map(T)), NT(base)))
+  );
+}
+
+// --- Grammar rules (diagram factories) ----------------------------------------
+
+const rules = new Map<string, () => GrammarExpr>();
+
+// ===== A.1.1 Lexical elements =====
+
+rules.set("token", () =>
+  Diagram(
+    Choice(0,
+      NT("keyword"),
+      NT("identifier"),
+      NT("constant"),
+      NT("string-literal"),
+      NT("punctuator")
+    )
+  )
+);
+
+rules.set("preprocessing-token", () =>
+  Diagram(
+    Choice(0,
+      NT("header-name"),
+      NT("identifier"),
+      NT("pp-number"),
+      NT("character-constant"),
+      NT("string-literal"),
+      NT("punctuator"),
+      Comment("universal character name that cannot be one of the above"),
+      Comment("non-white-space character that cannot be one of the above")
+    )
+  )
+);
+
+// ===== A.1.2 Keywords =====
+
+rules.set("keyword", () =>
+  Diagram(
+    Choice(0,
+      Choice(0, Since("c23", T("alignas")), Since("c23", T("alignof")), T("auto"), Since("c23", T("bool")), T("break"), T("case")),
+      Choice(0, T("char"), T("const"), Since("c23", T("constexpr")), T("continue"), T("default"), T("do"), T("double")),
+      Choice(0, T("else"), T("enum"), T("extern"), Since("c23", T("false")), T("float"), T("for"), T("goto"), T("if")),
+      Choice(0, T("inline"), T("int"), T("long"), Since("c23", T("nullptr")), T("register"), T("restrict"), T("return")),
+      Choice(0, T("short"), T("signed"), T("sizeof"), T("static"), Since("c23", T("static_assert")), T("struct"), T("switch")),
+      Choice(0, Since("c23", T("thread_local")), Since("c23", T("true")), T("typedef"), Since("c23", T("typeof")), Since("c23", T("typeof_unqual"))),
+      Choice(0, T("union"), T("unsigned"), T("void"), T("volatile"), T("while")),
+      Choice(0, Since("c11", T("_Alignas")), Since("c11", T("_Alignof")), Since("c11", T("_Atomic")), Since("c23", T("_BitInt")), T("_Bool"), T("_Complex")),
+      Choice(0, Since("c23", T("_Decimal128")), Since("c23", T("_Decimal32")), Since("c23", T("_Decimal64")), Since("c11", T("_Generic")), T("_Imaginary")),
+      Choice(0, Since("c11", T("_Noreturn")), Since("c11", T("_Static_assert")), Since("c11", T("_Thread_local")))
+    )
+  )
+);
+
+// ===== A.1.3 Identifiers =====
+
+rules.set("identifier", () =>
+  Diagram(
+    Sequence(
+      NT("identifier-start"),
+      ZeroOrMore(NT("identifier-continue"))
+    )
+  )
+);
+
+rules.set("identifier-start", () =>
+  Diagram(
+    Choice(0,
+      NT("nondigit"),
+      NT("universal-character-name"),
+      Since("c23", Comment("XID_Start character")),
+      Until("c23", Comment("other implementation-defined characters"))
+    )
+  )
+);
+
+rules.set("identifier-continue", () =>
+  Diagram(
+    Choice(0,
+      NT("digit"),
+      NT("nondigit"),
+      NT("universal-character-name"),
+      Since("c23", Comment("XID_Continue character")),
+      Until("c23", Comment("other implementation-defined characters"))
+    )
+  )
+);
+
+rules.set("nondigit", () =>
+  Diagram(
+    Choice(0,
+      T("a-z"),
+      T("A-Z"),
+      T("_")
+    )
+  )
+);
+
+rules.set("digit", () =>
+  Diagram(T("0-9"))
+);
+
+// ===== A.1.4 Universal character names =====
+
+rules.set("universal-character-name", () =>
+  Diagram(
+    Choice(0,
+      Sequence(T("\\u"), NT("hex-quad")),
+      Sequence(T("\\U"), NT("hex-quad"), NT("hex-quad"))
+    )
+  )
+);
+
+rules.set("hex-quad", () =>
+  Diagram(
+    Sequence(
+      NT("hexadecimal-digit"),
+      NT("hexadecimal-digit"),
+      NT("hexadecimal-digit"),
+      NT("hexadecimal-digit")
+    )
+  )
+);
+
+// ===== A.1.5 Constants =====
+
+rules.set("constant", () =>
+  Diagram(
+    Choice(0,
+      NT("integer-constant"),
+      NT("floating-constant"),
+      NT("enumeration-constant"),
+      NT("character-constant"),
+      Since("c23", NT("predefined-constant"))
+    )
+  )
+);
+
+rules.set("integer-constant", () =>
+  Diagram(
+    Choice(0,
+      NT("decimal-constant"),
+      NT("octal-constant"),
+      NT("hexadecimal-constant"),
+      Since("c23", NT("binary-constant"))
+    ),
+    Optional(NT("integer-suffix"))
+  )
+);
+
+rules.set("decimal-constant", () =>
+  Diagram(
+    NT("nonzero-digit"),
+    ZeroOrMore(Sequence(Since("c23", Optional(T("'"))), NT("digit")))
+  )
+);
+
+rules.set("octal-constant", () =>
+  Diagram(
+    T("0"),
+    ZeroOrMore(Sequence(Since("c23", Optional(T("'"))), NT("octal-digit")))
+  )
+);
+
+rules.set("hexadecimal-constant", () =>
+  Diagram(NT("hexadecimal-prefix"), NT("hexadecimal-digit-sequence"))
+);
+
+rules.set("binary-constant", () =>
+  Since("c23", Diagram(NT("binary-prefix"), Separated("binary-digit")))
+);
+
+rules.set("hexadecimal-prefix", () =>
+  Diagram(Choice(0, T("0x"), T("0X")))
+);
+
+rules.set("binary-prefix", () =>
+  Since("c23", Diagram(Choice(0, T("0b"), T("0B"))))
+);
+
+rules.set("nonzero-digit", () =>
+  Diagram(T("1-9"))
+);
+
+rules.set("octal-digit", () =>
+  Diagram(T("0-7"))
+);
+
+rules.set("hexadecimal-digit-sequence", () =>
+  Diagram(Separated("hexadecimal-digit"))
+);
+
+rules.set("hexadecimal-digit", () =>
+  Diagram(Choice(0, T("0-9"), T("a-f"), T("A-F")))
+);
+
+rules.set("binary-digit", () =>
+  Since("c23", Diagram(Choice(0, T("0"), T("1"))))
+);
+
+rules.set("integer-suffix", () => {
+  const size = Choice(0,
+    NT("long-suffix"),
+    NT("long-long-suffix"),
+    Since("c23", NT("bit-precise-int-suffix"))
+  );
+
+  return Diagram(
+    Choice(0,
+      Sequence(NT("unsigned-suffix"), Optional(size)),
+      Sequence(size, Optional(NT("unsigned-suffix")))
+    )
+  );
+});
+
+rules.set("bit-precise-int-suffix", () =>
+  Since("c23", Diagram(Choice(0, T("wb"), T("WB"))))
+);
+
+rules.set("unsigned-suffix", () =>
+  Diagram(Choice(0, T("u"), T("U")))
+);
+
+rules.set("long-suffix", () =>
+  Diagram(Choice(0, T("l"), T("L")))
+);
+
+rules.set("long-long-suffix", () =>
+  Diagram(Choice(0, T("ll"), T("LL")))
+);
+
+rules.set("floating-constant", () =>
+  Diagram(
+    Choice(0,
+      NT("decimal-floating-constant"),
+      NT("hexadecimal-floating-constant")
+    )
+  )
+);
+
+rules.set("decimal-floating-constant", () =>
+  Diagram(
+    Choice(0,
+      Sequence(NT("fractional-constant"), Optional(NT("exponent-part"))),
+      Sequence(NT("digit-sequence"), NT("exponent-part"))
+    ),
+    Optional(NT("floating-suffix"))
+  )
+);
+
+rules.set("hexadecimal-floating-constant", () =>
+  Diagram(
+    NT("hexadecimal-prefix"),
+    Choice(0,
+      NT("hexadecimal-fractional-constant"),
+      NT("hexadecimal-digit-sequence")
+    ),
+    NT("binary-exponent-part"),
+    Optional(NT("floating-suffix"))
+  )
+);
+
+rules.set("fractional-constant", () =>
+  Diagram(
+    Choice(0,
+      Sequence(Optional(NT("digit-sequence")), T("."), NT("digit-sequence")),
+      Sequence(NT("digit-sequence"), T("."))
+    )
+  )
+);
+
+rules.set("exponent-part", () =>
+  Diagram(Choice(0, T("e"), T("E")), Optional(NT("sign")), NT("digit-sequence"))
+);
+
+rules.set("sign", () =>
+  Diagram(Choice(0, T("+"), T("-")))
+);
+
+rules.set("digit-sequence", () =>
+  Diagram(Separated("digit"))
+);
+
+rules.set("hexadecimal-fractional-constant", () =>
+  Diagram(
+    Choice(0,
+      Sequence(Optional(NT("hexadecimal-digit-sequence")), T("."), NT("hexadecimal-digit-sequence")),
+      Sequence(NT("hexadecimal-digit-sequence"), T("."))
+    )
+  )
+);
+
+rules.set("binary-exponent-part", () =>
+  Diagram(Choice(0, T("p"), T("P")), Optional(NT("sign")), NT("digit-sequence"))
+);
+
+rules.set("floating-suffix", () =>
+  Diagram(
+    Choice(0,
+      T("f"), T("l"), T("F"), T("L"),
+      Since("c23", Choice(0, T("df"), T("dd"), T("dl"), T("DF"), T("DD"), T("DL")))
+    )
+  )
+);
+
+rules.set("enumeration-constant", () =>
+  Diagram(NT("identifier"))
+);
+
+rules.set("character-constant", () =>
+  Diagram(
+    // u8 character constants came with C23, which shares the string literal prefixes
+    Since("c23", Optional(NT("encoding-prefix"))),
+    Until("c23", Optional(Choice(0, T("L"), Since("c11", T("u")), Since("c11", T("U"))))),
+    T("'"),
+    NT("c-char-sequence"),
+    T("'")
+  )
+);
+
+rules.set("encoding-prefix", () =>
+  Diagram(
+    Choice(0,
+      Since("c11", T("u8")),
+      Since("c11", T("u")),
+      Since("c11", T("U")),
+      T("L")
+    )
+  )
+);
+
+rules.set("c-char-sequence", () =>
+  Diagram(OneOrMore(NT("c-char")))
+);
+
+rules.set("c-char", () =>
+  Diagram(
+    Choice(0,
+      Comment("any member of the source character set except ', \\ or new-line"),
+      NT("escape-sequence")
+    )
+  )
+);
+
+rules.set("escape-sequence", () =>
+  Diagram(
+    Choice(0,
+      NT("simple-escape-sequence"),
+      NT("octal-escape-sequence"),
+      NT("hexadecimal-escape-sequence"),
+      NT("universal-character-name")
+    )
+  )
+);
+
+rules.set("simple-escape-sequence", () =>
+  Diagram(
+    Choice(0,
+      Choice(0, T("\\'"), T('\\"'), T("\\?"), T("\\\\")),
+      Choice(0, T("\\a"), T("\\b"), T("\\f"), T("\\n"), T("\\r"), T("\\t"), T("\\v"))
+    )
+  )
+);
+
+rules.set("octal-escape-sequence", () =>
+  Diagram(
+    T("\\"),
+    NT("octal-digit"),
+    Optional(Sequence(NT("octal-digit"), Optional(NT("octal-digit"))))
+  )
+);
+
+rules.set("hexadecimal-escape-sequence", () =>
+  Diagram(T("\\x"), OneOrMore(NT("hexadecimal-digit")))
+);
+
+rules.set("predefined-constant", () =>
+  Since("c23", Diagram(Choice(0, T("false"), T("true"), T("nullptr"))))
+);
+
+// ===== A.1.6 String literals =====
+
+rules.set("string-literal", () =>
+  Diagram(
+    Optional(NT("encoding-prefix")),
+    T('"'),
+    Optional(NT("s-char-sequence")),
+    T('"')
+  )
+);
+
+rules.set("s-char-sequence", () =>
+  Diagram(OneOrMore(NT("s-char")))
+);
+
+rules.set("s-char", () =>
+  Diagram(
+    Choice(0,
+      Comment('any member of the source character set except ", \\ or new-line'),
+      NT("escape-sequence")
+    )
+  )
+);
+
+// ===== A.1.7 Punctuators =====
+
+rules.set("punctuator", () =>
+  Diagram(
+    Choice(0,
+      Choice(0, T("["), T("]"), T("("), T(")"), T("{"), T("}"), T("."), T("->")),
+      Choice(0, T("++"), T("--"), T("&"), T("*"), T("+"), T("-"), T("~"), T("!")),
+      Choice(0, T("/"), T("%"), T("<<"), T(">>"), T("<"), T(">"), T("<="), T(">="), T("=="), T("!=")),
+      Choice(0, T("^"), T("|"), T("&&"), T("||"), T("?"), T(":"), Since("c23", T("::")), T(";"), T("...")),
+      Choice(0, T("="), T("*="), T("/="), T("%="), T("+="), T("-="), T("<<="), T(">>="), T("&="), T("^="), T("|=")),
+      Choice(0, T(","), T("#"), T("##")),
+      Choice(0, T("<:"), T(":>"), T("<%"), T("%>"), T("%:"), T("%:%:"))
+    )
+  )
+);
+
+// ===== A.1.8 Header names =====
+
+rules.set("header-name", () =>
+  Diagram(
+    Choice(0,
+      Sequence(T("<"), NT("h-char-sequence"), T(">")),
+      Sequence(T('"'), NT("q-char-sequence"), T('"'))
+    )
+  )
+);
+
+rules.set("h-char-sequence", () =>
+  Diagram(OneOrMore(NT("h-char")))
+);
+
+rules.set("h-char", () =>
+  Diagram(Comment("any member of the source character set except new-line and >"))
+);
+
+rules.set("q-char-sequence", () =>
+  Diagram(OneOrMore(NT("q-char")))
+);
+
+rules.set("q-char", () =>
+  Diagram(Comment('any member of the source character set except new-line and "'))
+);
+
+// ===== A.1.9 Preprocessing numbers =====
+
+rules.set("pp-number", () =>
+  Diagram(
+    Choice(0,
+      NT("digit"),
+      Sequence(T("."), NT("digit"))
+    ),
+    ZeroOrMore(
+      Choice(0,
+        NT("identifier-continue"),
+        Since("c23", Sequence(T("'"), NT("digit"))),
+        Since("c23", Sequence(T("'"), NT("nondigit"))),
+        Sequence(Choice(0, T("e"), T("E"), T("p"), T("P")), NT("sign")),
+        T(".")
+      )
+    )
+  )
+);
+
+// ===== A.2.1 Expressions =====
+
+rules.set("primary-expression", () =>
+  Diagram(
+    Choice(0,
+      NT("identifier"),
+      NT("constant"),
+      NT("string-literal"),
+      Sequence(T("("), NT("expression"), T(")")),
+      Since("c11", NT("generic-selection"))
+    )
+  )
+);
+
+rules.set("generic-selection", () =>
+  Since("c11",
+    Diagram(
+      T("_Generic"),
+      T("("),
+      NT("assignment-expression"),
+      T(","),
+      NT("generic-assoc-list"),
+      T(")")
+    )
+  )
+);
+
+rules.set("generic-assoc-list", () =>
+  Since("c11",
+    Diagram(
+      NT("generic-association"),
+      ZeroOrMore(Sequence(T(","), NT("generic-association")))
+    )
+  )
+);
+
+rules.set("generic-association", () =>
+  Since("c11",
+    Diagram(
+      Choice(0, NT("type-name"), T("default")),
+      T(":"),
+      NT("assignment-expression")
+    )
+  )
+);
+
+rules.set("postfix-expression", () => {
+  const postfixSuffix = Choice(0,
+    Sequence(T("["), NT("expression"), T("]")),
+    Sequence(T("("), Optional(NT("argument-expression-list")), T(")")),
+    Sequence(T("."), NT("identifier")),
+    Sequence(T("->"), NT("identifier")),
+    T("++"),
+    T("--")
+  );
+
+  return Diagram(
+    Choice(0,
+      NT("primary-expression"),
+      NT("compound-literal")
+    ),
+    ZeroOrMore(postfixSuffix)
+  );
+});
+
+rules.set("argument-expression-list", () =>
+  Diagram(
+    NT("assignment-expression"),
+    ZeroOrMore(Sequence(T(","), NT("assignment-expression")))
+  )
+);
+
+rules.set("compound-literal", () =>
+  Diagram(
+    T("("),
+    Since("c23", Optional(NT("storage-class-specifiers"))),
+    NT("type-name"),
+    T(")"),
+    NT("braced-initializer")
+  )
+);
+
+rules.set("storage-class-specifiers", () =>
+  Since("c23", Diagram(OneOrMore(NT("storage-class-specifier"))))
+);
+
+rules.set("unary-expression", () =>
+  Diagram(
+    Choice(0,
+      NT("postfix-expression"),
+      Sequence(T("++"), NT("unary-expression")),
+      Sequence(T("--"), NT("unary-expression")),
+      Sequence(NT("unary-operator"), NT("cast-expression")),
+      Sequence(T("sizeof"), NT("unary-expression")),
+      Sequence(T("sizeof"), T("("), NT("type-name"), T(")")),
+      Since("c11", Sequence(Choice(0, Since("c23", T("alignof")), T("_Alignof")), T("("), NT("type-name"), T(")")))
+    )
+  )
+);
+
+rules.set("unary-operator", () =>
+  Diagram(Choice(0, T("&"), T("*"), T("+"), T("-"), T("~"), T("!")))
+);
+
+rules.set("cast-expression", () =>
+  Diagram(
+    ZeroOrMore(Sequence(T("("), NT("type-name"), T(")"))),
+    NT("unary-expression")
+  )
+);
+
+rules.set("multiplicative-expression", () => Diagram(chain("cast-expression", ["*", "/", "%"])));
+rules.set("additive-expression", () => Diagram(chain("multiplicative-expression", ["+", "-"])));
+rules.set("shift-expression", () => Diagram(chain("additive-expression", ["<<", ">>"])));
+rules.set("relational-expression", () => Diagram(chain("shift-expression", ["<", ">", "<=", ">="])));
+rules.set("equality-expression", () => Diagram(chain("relational-expression", ["==", "!="])));
+rules.set("AND-expression", () => Diagram(chain("equality-expression", ["&"])));
+rules.set("exclusive-OR-expression", () => Diagram(chain("AND-expression", ["^"])));
+rules.set("inclusive-OR-expression", () => Diagram(chain("exclusive-OR-expression", ["|"])));
+rules.set("logical-AND-expression", () => Diagram(chain("inclusive-OR-expression", ["&&"])));
+rules.set("logical-OR-expression", () => Diagram(chain("logical-AND-expression", ["||"])));
+
+rules.set("conditional-expression", () =>
+  Diagram(
+    NT("logical-OR-expression"),
+    Optional(Sequence(T("?"), NT("expression"), T(":"), NT("conditional-expression")))
+  )
+);
+
+rules.set("assignment-expression", () =>
+  Diagram(
+    Choice(0,
+      NT("conditional-expression"),
+      Sequence(NT("unary-expression"), NT("assignment-operator"), NT("assignment-expression"))
+    )
+  )
+);
+
+rules.set("assignment-operator", () =>
+  Diagram(
+    Choice(0,
+      T("="), T("*="), T("/="), T("%="), T("+="), T("-="),
+      T("<<="), T(">>="), T("&="), T("^="), T("|=")
+    )
+  )
+);
+
+rules.set("expression", () =>
+  Diagram(
+    NT("assignment-expression"),
+    ZeroOrMore(Sequence(T(","), NT("assignment-expression")))
+  )
+);
+
+rules.set("constant-expression", () =>
+  Diagram(NT("conditional-expression"))
+);
+
+// ===== A.2.2 Declarations =====
+
+rules.set("declaration", () =>
+  Diagram(
+    Choice(0,
+      Sequence(NT("declaration-specifiers"), Optional(NT("init-declarator-list")), T(";")),
+      Since("c23", Sequence(NT("attribute-specifier-sequence"), NT("declaration-specifiers"), NT("init-declarator-list"), T(";"))),
+      Since("c11", NT("static_assert-declaration")),
+      Since("c23", NT("attribute-declaration"))
+    )
+  )
+);
+
+rules.set("declaration-specifiers", () =>
+  Diagram(OneOrMore(NT("declaration-specifier")), Attributes())
+);
+
+rules.set("declaration-specifier", () =>
+  Diagram(
+    Choice(0,
+      NT("storage-class-specifier"),
+      NT("type-specifier-qualifier"),
+      NT("function-specifier")
+    )
+  )
+);
+
+rules.set("init-declarator-list", () =>
+  Diagram(
+    NT("init-declarator"),
+    ZeroOrMore(Sequence(T(","), NT("init-declarator")))
+  )
+);
+
+rules.set("init-declarator", () =>
+  Diagram(NT("declarator"), Optional(Sequence(T("="), NT("initializer"))))
+);
+
+rules.set("attribute-declaration", () =>
+  Since("c23", Diagram(NT("attribute-specifier-sequence"), T(";")))
+);
+
+rules.set("storage-class-specifier", () =>
+  Diagram(
+    Choice(0,
+      T("auto"),
+      Since("c23", T("constexpr")),
+      T("extern"),
+      T("register"),
+      T("static"),
+      Since("c23", T("thread_local")),
+      Since("c11", T("_Thread_local")),
+      T("typedef")
+    )
+  )
+);
+
+rules.set("type-specifier", () =>
+  Diagram(
+    Choice(0,
+      Choice(0, T("void"), T("char"), T("short"), T("int"), T("long"), T("float"), T("double"), T("signed"), T("unsigned")),
+      Since("c23", Sequence(T("_BitInt"), T("("), NT("constant-expression"), T(")"))),
+      Choice(0, Since("c23", T("bool")), T("_Bool"), T("_Complex")),
+      Since("c23", Choice(0, T("_Decimal32"), T("_Decimal64"), T("_Decimal128"))),
+      Since("c11", NT("atomic-type-specifier")),
+      NT("struct-or-union-specifier"),
+      NT("enum-specifier"),
+      NT("typedef-name"),
+      Since("c23", NT("typeof-specifier"))
+    )
+  )
+);
+
+rules.set("struct-or-union-specifier", () =>
+  Diagram(
+    NT("struct-or-union"),
+    Attributes(),
+    Choice(0,
+      Sequence(Optional(NT("identifier")), T("{"), NT("member-declaration-list"), T("}")),
+      NT("identifier")
+    )
+  )
+);
+
+rules.set("struct-or-union", () =>
+  Diagram(Choice(0, T("struct"), T("union")))
+);
+
+rules.set("member-declaration-list", () =>
+  Diagram(OneOrMore(NT("member-declaration")))
+);
+
+rules.set("member-declaration", () =>
+  Diagram(
+    Choice(0,
+      // Anonymous structures and unions need no declarator since C11
+      Until("c11", Sequence(NT("specifier-qualifier-list"), NT("member-declarator-list"), T(";"))),
+      Since("c11", Sequence(Attributes(), NT("specifier-qualifier-list"), Optional(NT("member-declarator-list")), T(";"))),
+      Since("c11", NT("static_assert-declaration"))
+    )
+  )
+);
+
+rules.set("specifier-qualifier-list", () =>
+  Diagram(OneOrMore(NT("type-specifier-qualifier")), Attributes())
+);
+
+rules.set("type-specifier-qualifier", () =>
+  Diagram(
+    Choice(0,
+      NT("type-specifier"),
+      NT("type-qualifier"),
+      Since("c11", NT("alignment-specifier"))
+    )
+  )
+);
+
+rules.set("member-declarator-list", () =>
+  Diagram(
+    NT("member-declarator"),
+    ZeroOrMore(Sequence(T(","), NT("member-declarator")))
+  )
+);
+
+rules.set("member-declarator", () =>
+  Diagram(
+    Choice(0,
+      NT("declarator"),
+      Sequence(Optional(NT("declarator")), T(":"), NT("constant-expression"))
+    )
+  )
+);
+
+rules.set("enum-specifier", () =>
+  Diagram(
+    T("enum"),
+    Attributes(),
+    Choice(0,
+      Sequence(
+        Optional(NT("identifier")),
+        Since("c23", Optional(NT("enum-type-specifier"))),
+        T("{"),
+        NT("enumerator-list"),
+        Optional(T(",")),
+        T("}")
+      ),
+      Sequence(NT("identifier"), Since("c23", Optional(NT("enum-type-specifier"))))
+    )
+  )
+);
+
+rules.set("enumerator-list", () =>
+  Diagram(
+    NT("enumerator"),
+    ZeroOrMore(Sequence(T(","), NT("enumerator")))
+  )
+);
+
+rules.set("enumerator", () =>
+  Diagram(
+    NT("enumeration-constant"),
+    Attributes(),
+    Optional(Sequence(T("="), NT("constant-expression")))
+  )
+);
+
+rules.set("enum-type-specifier", () =>
+  Since("c23", Diagram(T(":"), NT("specifier-qualifier-list")))
+);
+
+rules.set("atomic-type-specifier", () =>
+  Since("c11", Diagram(T("_Atomic"), T("("), NT("type-name"), T(")")))
+);
+
+rules.set("typeof-specifier", () =>
+  Since("c23",
+    Diagram(
+      Choice(0, T("typeof"), T("typeof_unqual")),
+      T("("),
+      NT("typeof-specifier-argument"),
+      T(")")
+    )
+  )
+);
+
+rules.set("typeof-specifier-argument", () =>
+  Since("c23", Diagram(Choice(0, NT("expression"), NT("type-name"))))
+);
+
+rules.set("type-qualifier", () =>
+  Diagram(
+    Choice(0,
+      T("const"),
+      T("restrict"),
+      T("volatile"),
+      Since("c11", T("_Atomic"))
+    )
+  )
+);
+
+rules.set("function-specifier", () =>
+  Diagram(
+    Choice(0,
+      T("inline"),
+      Since("c11", T("_Noreturn"))
+    )
+  )
+);
+
+rules.set("alignment-specifier", () =>
+  Since("c11",
+    Diagram(
+      Choice(0, Since("c23", T("alignas")), T("_Alignas")),
+      T("("),
+      Choice(0, NT("type-name"), NT("constant-expression")),
+      T(")")
+    )
+  )
+);
+
+rules.set("declarator", () =>
+  Diagram(Optional(NT("pointer")), NT("direct-declarator"))
+);
+
+rules.set("direct-declarator", () =>
+  Diagram(
+    Choice(0,
+      Sequence(NT("identifier"), Attributes()),
+      Sequence(T("("), NT("declarator"), T(")"))
+    ),
+    ZeroOrMore(
+      Sequence(
+        Choice(0,
+          NT("array-declarator"),
+          NT("function-declarator")
+        ),
+        Attributes()
+      )
+    )
+  )
+);
+
+// Array and function declarators are drawn as the suffix following the
+// direct-declarator they apply to
+rules.set("array-declarator", () =>
+  Diagram(
+    T("["),
+    Choice(0,
+      Sequence(Optional(NT("type-qualifier-list")), Optional(NT("assignment-expression"))),
+      Sequence(T("static"), Optional(NT("type-qualifier-list")), NT("assignment-expression")),
+      Sequence(NT("type-qualifier-list"), T("static"), NT("assignment-expression")),
+      Sequence(Optional(NT("type-qualifier-list")), T("*"))
+    ),
+    T("]")
+  )
+);
+
+rules.set("function-declarator", () =>
+  Diagram(
+    T("("),
+    Optional(
+      Choice(0,
+        NT("parameter-type-list"),
+        // K&R-style identifier lists were removed in C23
+        Until("c23", NT("identifier-list"))
+      )
+    ),
+    T(")")
+  )
+);
+
+rules.set("pointer", () =>
+  Diagram(
+    OneOrMore(Sequence(T("*"), Attributes(), Optional(NT("type-qualifier-list"))))
+  )
+);
+
+rules.set("type-qualifier-list", () =>
+  Diagram(OneOrMore(NT("type-qualifier")))
+);
+
+rules.set("parameter-type-list", () =>
+  Diagram(
+    Choice(0,
+      Sequence(NT("parameter-list"), Optional(Sequence(T(","), T("...")))),
+      Since("c23", T("..."))
+    )
+  )
+);
+
+rules.set("parameter-list", () =>
+  Diagram(
+    NT("parameter-declaration"),
+    ZeroOrMore(Sequence(T(","), NT("parameter-declaration")))
+  )
+);
+
+rules.set("parameter-declaration", () =>
+  Diagram(
+    Attributes(),
+    NT("declaration-specifiers"),
+    Optional(Choice(0, NT("declarator"), NT("abstract-declarator")))
+  )
+);
+
+rules.set("type-name", () =>
+  Diagram(NT("specifier-qualifier-list"), Optional(NT("abstract-declarator")))
+);
+
+rules.set("abstract-declarator", () =>
+  Diagram(
+    Choice(0,
+      NT("pointer"),
+      Sequence(Optional(NT("pointer")), NT("direct-abstract-declarator"))
+    )
+  )
+);
+
+rules.set("direct-abstract-declarator", () => {
+  const suffix = Sequence(
+    Choice(0,
+      NT("array-abstract-declarator"),
+      NT("function-abstract-declarator")
+    ),
+    Attributes()
+  );
+
+  return Diagram(
+    Choice(0,
+      Sequence(T("("), NT("abstract-declarator"), T(")"), ZeroOrMore(suffix)),
+      OneOrMore(suffix)
+    )
+  );
+});
+
+rules.set("array-abstract-declarator", () =>
+  Diagram(
+    T("["),
+    Choice(0,
+      Sequence(Optional(NT("type-qualifier-list")), Optional(NT("assignment-expression"))),
+      Sequence(T("static"), Optional(NT("type-qualifier-list")), NT("assignment-expression")),
+      Sequence(NT("type-qualifier-list"), T("static"), NT("assignment-expression")),
+      T("*")
+    ),
+    T("]")
+  )
+);
+
+rules.set("function-abstract-declarator", () =>
+  Diagram(T("("), Optional(NT("parameter-type-list")), T(")"))
+);
+
+rules.set("typedef-name", () =>
+  Diagram(NT("identifier"))
+);
+
+rules.set("braced-initializer", () =>
+  Diagram(
+    Choice(0,
+      Sequence(T("{"), NT("initializer-list"), Optional(T(",")), T("}")),
+      Since("c23", Sequence(T("{"), T("}")))
+    )
+  )
+);
+
+rules.set("initializer", () =>
+  Diagram(
+    Choice(0,
+      NT("assignment-expression"),
+      NT("braced-initializer")
+    )
+  )
+);
+
+rules.set("initializer-list", () =>
+  Diagram(
+    Optional(NT("designation")),
+    NT("initializer"),
+    ZeroOrMore(Sequence(T(","), Optional(NT("designation")), NT("initializer")))
+  )
+);
+
+rules.set("designation", () =>
+  Diagram(NT("designator-list"), T("="))
+);
+
+rules.set("designator-list", () =>
+  Diagram(OneOrMore(NT("designator")))
+);
+
+rules.set("designator", () =>
+  Diagram(
+    Choice(0,
+      Sequence(T("["), NT("constant-expression"), T("]")),
+      Sequence(T("."), NT("identifier"))
+    )
+  )
+);
+
+rules.set("static_assert-declaration", () =>
+  Since("c11",
+    Diagram(
+      Choice(0, Since("c23", T("static_assert")), T("_Static_assert")),
+      T("("),
+      NT("constant-expression"),
+      // The message became optional in C23
+      Until("c23", Sequence(T(","), NT("string-literal"))),
+      Since("c23", Optional(Sequence(T(","), NT("string-literal")))),
+      T(")"),
+      T(";")
+    )
+  )
+);
+
+rules.set("attribute-specifier-sequence", () =>
+  Since("c23", Diagram(OneOrMore(NT("attribute-specifier"))))
+);
+
+rules.set("attribute-specifier", () =>
+  Since("c23", Diagram(T("["), T("["), NT("attribute-list"), T("]"), T("]")))
+);
+
+rules.set("attribute-list", () =>
+  Since("c23",
+    Diagram(
+      Optional(NT("attribute")),
+      ZeroOrMore(Sequence(T(","), Optional(NT("attribute"))))
+    )
+  )
+);
+
+rules.set("attribute", () =>
+  Since("c23", Diagram(NT("attribute-token"), Optional(NT("attribute-argument-clause"))))
+);
+
+rules.set("attribute-token", () =>
+  Since("c23",
+    Diagram(
+      Choice(0,
+        NT("standard-attribute"),
+        NT("attribute-prefixed-token")
+      )
+    )
+  )
+);
+
+rules.set("standard-attribute", () =>
+  Since("c23", Diagram(NT("identifier")))
+);
+
+rules.set("attribute-prefixed-token", () =>
+  Since("c23", Diagram(NT("attribute-prefix"), T("::"), NT("identifier")))
+);
+
+rules.set("attribute-prefix", () =>
+  Since("c23", Diagram(NT("identifier")))
+);
+
+rules.set("attribute-argument-clause", () =>
+  Since("c23", Diagram(T("("), Optional(NT("balanced-token-sequence")), T(")")))
+);
+
+rules.set("balanced-token-sequence", () =>
+  Since("c23", Diagram(OneOrMore(NT("balanced-token"))))
+);
+
+rules.set("balanced-token", () =>
+  Since("c23",
+    Diagram(
+      Choice(0,
+        Sequence(T("("), Optional(NT("balanced-token-sequence")), T(")")),
+        Sequence(T("["), Optional(NT("balanced-token-sequence")), T("]")),
+        Sequence(T("{"), Optional(NT("balanced-token-sequence")), T("}")),
+        Comment("any token other than a parenthesis, a bracket or a brace")
+      )
+    )
+  )
+);
+
+// ===== A.2.3 Statements =====
+
+rules.set("statement", () =>
+  Diagram(
+    Choice(0,
+      NT("labeled-statement"),
+      NT("unlabeled-statement")
+    )
+  )
+);
+
+rules.set("unlabeled-statement", () =>
+  Diagram(
+    Choice(0,
+      NT("expression-statement"),
+      Sequence(Attributes(), NT("primary-block")),
+      Sequence(Attributes(), NT("jump-statement"))
+    )
+  )
+);
+
+rules.set("primary-block", () =>
+  Diagram(
+    Choice(0,
+      NT("compound-statement"),
+      NT("selection-statement"),
+      NT("iteration-statement")
+    )
+  )
+);
+
+rules.set("secondary-block", () =>
+  Diagram(NT("statement"))
+);
+
+rules.set("label", () =>
+  Diagram(
+    Attributes(),
+    Choice(0,
+      NT("identifier"),
+      Sequence(T("case"), NT("constant-expression")),
+      T("default")
+    ),
+    T(":")
+  )
+);
+
+rules.set("labeled-statement", () =>
+  Diagram(NT("label"), NT("statement"))
+);
+
+rules.set("compound-statement", () =>
+  Diagram(T("{"), Optional(NT("block-item-list")), T("}"))
+);
+
+rules.set("block-item-list", () =>
+  Diagram(OneOrMore(NT("block-item")))
+);
+
+rules.set("block-item", () =>
+  Diagram(
+    Choice(0,
+      NT("declaration"),
+      // C23 allows labels before declarations and at the end of a block
+      Until("c23", NT("statement")),
+      Since("c23", NT("unlabeled-statement")),
+      Since("c23", NT("label"))
+    )
+  )
+);
+
+rules.set("expression-statement", () =>
+  Diagram(
+    Choice(0,
+      Sequence(Optional(NT("expression")), T(";")),
+      Since("c23", Sequence(NT("attribute-specifier-sequence"), NT("expression"), T(";")))
+    )
+  )
+);
+
+rules.set("selection-statement", () =>
+  Diagram(
+    Choice(0,
+      Sequence(
+        T("if"), T("("), NT("expression"), T(")"), NT("secondary-block"),
+        Optional(Sequence(T("else"), NT("secondary-block")))
+      ),
+      Sequence(T("switch"), T("("), NT("expression"), T(")"), NT("secondary-block"))
+    )
+  )
+);
+
+rules.set("iteration-statement", () =>
+  Diagram(
+    Choice(0,
+      Sequence(T("while"), T("("), NT("expression"), T(")"), NT("secondary-block")),
+      Sequence(T("do"), NT("secondary-block"), T("while"), T("("), NT("expression"), T(")"), T(";")),
+      Sequence(
+        T("for"),
+        T("("),
+        Choice(0,
+          Sequence(Optional(NT("expression")), T(";")),
+          NT("declaration")
+        ),
+        Optional(NT("expression")),
+        T(";"),
+        Optional(NT("expression")),
+        T(")"),
+        NT("secondary-block")
+      )
+    )
+  )
+);
+
+rules.set("jump-statement", () =>
+  Diagram(
+    Choice(0,
+      Sequence(T("goto"), NT("identifier"), T(";")),
+      Sequence(T("continue"), T(";")),
+      Sequence(T("break"), T(";")),
+      Sequence(T("return"), Optional(NT("expression")), T(";"))
+    )
+  )
+);
+
+// ===== A.2.4 External definitions =====
+
+rules.set("translation-unit", () =>
+  Diagram(OneOrMore(NT("external-declaration")))
+);
+
+rules.set("external-declaration", () =>
+  Diagram(
+    Choice(0,
+      NT("function-definition"),
+      NT("declaration")
+    )
+  )
+);
+
+rules.set("function-definition", () =>
+  Diagram(
+    Attributes(),
+    NT("declaration-specifiers"),
+    NT("declarator"),
+    // K&R-style parameter declarations were removed in C23
+    Until("c23", Optional(NT("declaration-list"))),
+    NT("function-body")
+  )
+);
+
+rules.set("declaration-list", () =>
+  Until("c23", Diagram(OneOrMore(NT("declaration"))))
+);
+
+rules.set("function-body", () =>
+  Diagram(NT("compound-statement"))
+);
+
+// ===== A.3 Preprocessing directives =====
+
+rules.set("preprocessing-file", () =>
+  Diagram(Optional(NT("group")))
+);
+
+rules.set("group", () =>
+  Diagram(OneOrMore(NT("group-part")))
+);
+
+rules.set("group-part", () =>
+  Diagram(
+    Choice(0,
+      NT("if-section"),
+      NT("control-line"),
+      NT("text-line"),
+      Sequence(T("#"), NT("non-directive"))
+    )
+  )
+);
+
+rules.set("if-section", () =>
+  Diagram(
+    NT("if-group"),
+    Optional(NT("elif-groups")),
+    Optional(NT("else-group")),
+    NT("endif-line")
+  )
+);
+
+rules.set("if-group", () =>
+  Diagram(
+    T("#"),
+    Choice(0,
+      Sequence(T("if"), NT("constant-expression")),
+      Sequence(T("ifdef"), NT("identifier")),
+      Sequence(T("ifndef"), NT("identifier"))
+    ),
+    NT("new-line"),
+    Optional(NT("group"))
+  )
+);
+
+rules.set("elif-groups", () =>
+  Diagram(OneOrMore(NT("elif-group")))
+);
+
+rules.set("elif-group", () =>
+  Diagram(
+    T("#"),
+    Choice(0,
+      Sequence(T("elif"), NT("constant-expression")),
+      Since("c23", Sequence(T("elifdef"), NT("identifier"))),
+      Since("c23", Sequence(T("elifndef"), NT("identifier")))
+    ),
+    NT("new-line"),
+    Optional(NT("group"))
+  )
+);
+
+rules.set("else-group", () =>
+  Diagram(T("#"), T("else"), NT("new-line"), Optional(NT("group")))
+);
+
+rules.set("endif-line", () =>
+  Diagram(T("#"), T("endif"), NT("new-line"))
+);
+
+rules.set("control-line", () =>
+  Diagram(
+    T("#"),
+    Choice(0,
+      Sequence(T("include"), NT("pp-tokens")),
+      Since("c23", Sequence(T("embed"), NT("pp-tokens"))),
+      Sequence(T("define"), NT("identifier"), NT("replacement-list")),
+      Sequence(
+        T("define"),
+        NT("identifier"),
+        NT("lparen"),
+        Choice(0,
+          Optional(NT("identifier-list")),
+          T("..."),
+          Sequence(NT("identifier-list"), T(","), T("..."))
+        ),
+        T(")"),
+        NT("replacement-list")
+      ),
+      Sequence(T("undef"), NT("identifier")),
+      Sequence(T("line"), NT("pp-tokens")),
+      Sequence(T("error"), Optional(NT("pp-tokens"))),
+      Since("c23", Sequence(T("warning"), Optional(NT("pp-tokens")))),
+      Sequence(T("pragma"), Optional(NT("pp-tokens"))),
+      Comment("empty directive")
+    ),
+    NT("new-line")
+  )
+);
+
+rules.set("text-line", () =>
+  Diagram(Optional(NT("pp-tokens")), NT("new-line"))
+);
+
+rules.set("non-directive", () =>
+  Diagram(NT("pp-tokens"), NT("new-line"))
+);
+
+rules.set("lparen", () =>
+  Diagram(Comment("a ( character not immediately preceded by white space"))
+);
+
+rules.set("replacement-list", () =>
+  Diagram(Optional(NT("pp-tokens")))
+);
+
+rules.set("pp-tokens", () =>
+  Diagram(OneOrMore(NT("preprocessing-token")))
+);
+
+rules.set("new-line", () =>
+  Diagram(Comment("the new-line character"))
+);
+
+rules.set("identifier-list", () =>
+  Diagram(
+    NT("identifier"),
+    ZeroOrMore(Sequence(T(","), NT("identifier")))
+  )
+);
+
+rules.set("pp-parameter", () =>
+  Since("c23", Diagram(NT("pp-parameter-name"), Optional(NT("pp-parameter-clause"))))
+);
+
+rules.set("pp-parameter-name", () =>
+  Since("c23",
+    Diagram(
+      Choice(0,
+        NT("pp-standard-parameter"),
+        NT("pp-prefixed-parameter")
+      )
+    )
+  )
+);
+
+rules.set("pp-standard-parameter", () =>
+  Since("c23", Diagram(NT("identifier")))
+);
+
+rules.set("pp-prefixed-parameter", () =>
+  Since("c23", Diagram(NT("identifier"), T("::"), NT("identifier")))
+);
+
+rules.set("pp-parameter-clause", () =>
+  Since("c23", Diagram(T("("), Optional(NT("pp-balanced-token-sequence")), T(")")))
+);
+
+rules.set("pp-balanced-token-sequence", () =>
+  Since("c23", Diagram(OneOrMore(NT("pp-balanced-token"))))
+);
+
+rules.set("pp-balanced-token", () =>
+  Since("c23",
+    Diagram(
+      Choice(0,
+        Sequence(T("("), Optional(NT("pp-balanced-token-sequence")), T(")")),
+        Sequence(T("["), Optional(NT("pp-balanced-token-sequence")), T("]")),
+        Sequence(T("{"), Optional(NT("pp-balanced-token-sequence")), T("}")),
+        Comment("any pp-token other than a parenthesis, a bracket or a brace")
+      )
+    )
+  )
+);
+
+rules.set("embed-parameter-sequence", () =>
+  Since("c23", Diagram(OneOrMore(NT("pp-parameter"))))
+);
+
+rules.set("defined-macro-expression", () =>
+  Diagram(
+    T("defined"),
+    Choice(0,
+      NT("identifier"),
+      Sequence(T("("), NT("identifier"), T(")"))
+    )
+  )
+);
+
+rules.set("h-preprocessing-token", () =>
+  Since("c23", Diagram(Comment("any preprocessing-token other than >")))
+);
+
+rules.set("h-pp-tokens", () =>
+  Since("c23", Diagram(OneOrMore(NT("h-preprocessing-token"))))
+);
+
+rules.set("header-name-tokens", () =>
+  Since("c23",
+    Diagram(
+      Choice(0,
+        NT("string-literal"),
+        Sequence(T("<"), NT("h-pp-tokens"), T(">"))
+      )
+    )
+  )
+);
+
+rules.set("has-include-expression", () =>
+  Since("c23",
+    Diagram(
+      T("__has_include"),
+      T("("),
+      Choice(0, NT("header-name"), NT("header-name-tokens")),
+      T(")")
+    )
+  )
+);
+
+rules.set("has-embed-expression", () =>
+  Since("c23",
+    Diagram(
+      T("__has_embed"),
+      T("("),
+      Choice(0,
+        Sequence(NT("header-name"), Optional(NT("embed-parameter-sequence"))),
+        Sequence(NT("header-name-tokens"), Optional(NT("pp-balanced-token-sequence")))
+      ),
+      T(")")
+    )
+  )
+);
+
+rules.set("has-c-attribute-expression", () =>
+  Since("c23", Diagram(T("__has_c_attribute"), T("("), NT("pp-tokens"), T(")")))
+);
+
+rules.set("va-opt-replacement", () =>
+  Since("c23", Diagram(T("__VA_OPT__"), T("("), Optional(NT("pp-tokens")), T(")")))
+);
+
+rules.set("standard-pragma", () =>
+  Diagram(
+    T("#"),
+    T("pragma"),
+    T("STDC"),
+    Choice(0,
+      Sequence(T("FP_CONTRACT"), NT("on-off-switch")),
+      Sequence(T("FENV_ACCESS"), NT("on-off-switch")),
+      Since("c23", Sequence(T("FENV_DEC_ROUND"), NT("dec-direction"))),
+      Since("c23", Sequence(T("FENV_ROUND"), NT("direction"))),
+      Sequence(T("CX_LIMITED_RANGE"), NT("on-off-switch"))
+    ),
+    NT("new-line")
+  )
+);
+
+rules.set("on-off-switch", () =>
+  Diagram(Choice(0, T("ON"), T("OFF"), T("DEFAULT")))
+);
+
+rules.set("direction", () =>
+  Since("c23",
+    Diagram(
+      Choice(0,
+        T("FE_DOWNWARD"),
+        T("FE_TONEAREST"),
+        T("FE_TONEARESTFROMZERO"),
+        T("FE_TOWARDZERO"),
+        T("FE_UPWARD"),
+        T("FE_DYNAMIC")
+      )
+    )
+  )
+);
+
+rules.set("dec-direction", () =>
+  Since("c23",
+    Diagram(
+      Choice(0,
+        T("FE_DEC_DOWNWARD"),
+        T("FE_DEC_TONEAREST"),
+        T("FE_DEC_TONEARESTFROMZERO"),
+        T("FE_DEC_TOWARDZERO"),
+        T("FE_DEC_UPWARD"),
+        T("FE_DEC_DYNAMIC")
+      )
+    )
+  )
+);
+
+
+// --- Section definitions --------------------------------------------------------
+
+const SECTIONS: GrammarPackSection[] = [
+  {
+    id: "lexical",
+    title: "A.1 Lexical Elements",
+    rules: [
+      "token",
+      "preprocessing-token",
+      "identifier",
+      "identifier-start",
+      "identifier-continue",
+      "nondigit",
+      "digit",
+      "universal-character-name",
+      "hex-quad",
+      "punctuator",
+      "header-name",
+      "h-char-sequence",
+      "h-char",
+      "q-char-sequence",
+      "q-char",
+      "pp-number",
+    ],
+  },
+  {
+    id: "keywords",
+    title: "A.1.2 Keywords",
+    rules: ["keyword"],
+  },
+  {
+    id: "constants",
+    title: "A.1.5 Constants",
+    rules: [
+      "constant",
+      "integer-constant",
+      "decimal-constant",
+      "octal-constant",
+      "hexadecimal-constant",
+      "binary-constant",
+      "hexadecimal-prefix",
+      "binary-prefix",
+      "nonzero-digit",
+      "octal-digit",
+      "hexadecimal-digit-sequence",
+      "hexadecimal-digit",
+      "binary-digit",
+      "integer-suffix",
+      "bit-precise-int-suffix",
+      "unsigned-suffix",
+      "long-suffix",
+      "long-long-suffix",
+      "floating-constant",
+      "decimal-floating-constant",
+      "hexadecimal-floating-constant",
+      "fractional-constant",
+      "exponent-part",
+      "sign",
+      "digit-sequence",
+      "hexadecimal-fractional-constant",
+      "binary-exponent-part",
+      "floating-suffix",
+      "enumeration-constant",
+      "character-constant",
+      "encoding-prefix",
+      "c-char-sequence",
+      "c-char",
+      "escape-sequence",
+      "simple-escape-sequence",
+      "octal-escape-sequence",
+      "hexadecimal-escape-sequence",
+      "predefined-constant",
+    ],
+  },
+  {
+    id: "string-literals",
+    title: "A.1.6 String Literals",
+    rules: ["string-literal", "s-char-sequence", "s-char"],
+  },
+  {
+    id: "expressions",
+    title: "A.2.1 Expressions",
+    rules: [
+      "primary-expression",
+      "generic-selection",
+      "generic-assoc-list",
+      "generic-association",
+      "postfix-expression",
+      "argument-expression-list",
+      "compound-literal",
+      "storage-class-specifiers",
+      "unary-expression",
+      "unary-operator",
+      "cast-expression",
+      "multiplicative-expression",
+      "additive-expression",
+      "shift-expression",
+      "relational-expression",
+      "equality-expression",
+      "AND-expression",
+      "exclusive-OR-expression",
+      "inclusive-OR-expression",
+      "logical-AND-expression",
+      "logical-OR-expression",
+      "conditional-expression",
+      "assignment-expression",
+      "assignment-operator",
+      "expression",
+      "constant-expression",
+    ],
+  },
+  {
+    id: "declarations",
+    title: "A.2.2 Declarations",
+    rules: [
+      "declaration",
+      "declaration-specifiers",
+      "declaration-specifier",
+      "init-declarator-list",
+      "init-declarator",
+      "attribute-declaration",
+      "storage-class-specifier",
+      "type-specifier",
+      "struct-or-union-specifier",
+      "struct-or-union",
+      "member-declaration-list",
+      "member-declaration",
+      "specifier-qualifier-list",
+      "type-specifier-qualifier",
+      "member-declarator-list",
+      "member-declarator",
+      "enum-specifier",
+      "enumerator-list",
+      "enumerator",
+      "enum-type-specifier",
+      "atomic-type-specifier",
+      "typeof-specifier",
+      "typeof-specifier-argument",
+      "type-qualifier",
+      "function-specifier",
+      "alignment-specifier",
+      "declarator",
+      "direct-declarator",
+      "array-declarator",
+      "function-declarator",
+      "pointer",
+      "type-qualifier-list",
+      "parameter-type-list",
+      "parameter-list",
+      "parameter-declaration",
+      "type-name",
+      "abstract-declarator",
+      "direct-abstract-declarator",
+      "array-abstract-declarator",
+      "function-abstract-declarator",
+      "typedef-name",
+      "braced-initializer",
+      "initializer",
+      "initializer-list",
+      "designation",
+      "designator-list",
+      "designator",
+      "static_assert-declaration",
+      "attribute-specifier-sequence",
+      "attribute-specifier",
+      "attribute-list",
+      "attribute",
+      "attribute-token",
+      "standard-attribute",
+      "attribute-prefixed-token",
+      "attribute-prefix",
+      "attribute-argument-clause",
+      "balanced-token-sequence",
+      "balanced-token",
+    ],
+  },
+  {
+    id: "statements",
+    title: "A.2.3 Statements",
+    rules: [
+      "statement",
+      "unlabeled-statement",
+      "primary-block",
+      "secondary-block",
+      "label",
+      "labeled-statement",
+      "compound-statement",
+      "block-item-list",
+      "block-item",
+      "expression-statement",
+      "selection-statement",
+      "iteration-statement",
+      "jump-statement",
+    ],
+  },
+  {
+    id: "external-definitions",
+    title: "A.2.4 External Definitions",
+    rules: [
+      "translation-unit",
+      "external-declaration",
+      "function-definition",
+      "declaration-list",
+      "function-body",
+    ],
+  },
+  {
+    id: "preprocessing",
+    title: "A.3 Preprocessing Directives",
+    rules: [
+      "preprocessing-file",
+      "group",
+      "group-part",
+      "if-section",
+      "if-group",
+      "elif-groups",
+      "elif-group",
+      "else-group",
+      "endif-line",
+      "control-line",
+      "text-line",
+      "non-directive",
+      "lparen",
+      "replacement-list",
+      "pp-tokens",
+      "new-line",
+      "identifier-list",
+      "pp-parameter",
+      "pp-parameter-name",
+      "pp-standard-parameter",
+      "pp-prefixed-parameter",
+      "pp-parameter-clause",
+      "pp-balanced-token-sequence",
+      "pp-balanced-token",
+      "embed-parameter-sequence",
+      "defined-macro-expression",
+      "h-preprocessing-token",
+      "h-pp-tokens",
+      "header-name-tokens",
+      "has-include-expression",
+      "has-embed-expression",
+      "has-c-attribute-expression",
+      "va-opt-replacement",
+      "standard-pragma",
+      "on-off-switch",
+      "direction",
+      "dec-direction",
+    ],
+  },
+];
+
+// --- Exports ----------------------------------------------------------------
+
+/**
+ * The C grammar pack: C99 through C23, with generated EBNF.
+ */
+export const C_GRAMMAR: GrammarPack = defineGrammarPack({
+  id: "c",
+  name: "C",
+  description:
+    "Rendered from a diagram-friendly transcription of the ISO C Annex A syntax summary (left recursion removed where needed).",
+  versions: STANDARDS,
+  versionLabels: STANDARD_LABELS,
+  defaultVersion: "c23",
+  rules,
+  sections: SECTIONS,
+  startRules: ["translation-unit", "preprocessing-file"],
+  lexicalSections: ["lexical", "keywords", "constants", "string-literals"],
+});
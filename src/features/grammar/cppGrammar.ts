@@ -1,53 +1,61 @@
 /**
- * C++23 Grammar Definitions
+ * C++ Grammar Definitions (C++11 – C++26)
  * 
- * ES module that defines the C++ grammar as railroad diagrams.
- * Based on the C++ Standard Grammar Summary (Annex A).
+ * ES module that defines the C++ grammar as grammar expression trees,
+ * rendered as railroad diagrams. Based on the C++ Standard Grammar Summary (Annex A).
  * Reference: https://eel.is/c++draft/gram
  * 
  * Many rules are rendered in diagram-friendly equivalent form 
  * (e.g., left recursion -> repetition).
+ *
+ * The factories describe the C++23 grammar plus the rules and alternatives
+ * other standards add or drop, tagged with Since/Until (see cppStandards.ts).
+ * Tags follow language changes, not editorial reshuffles of Annex A, and name
+ * the WG21 papers that made the change (see cppPapers.ts).
+ *
+ * The rules, the section index, the hand-written EBNF and the draft clause
+ * links make up the C++ grammar pack (`CPP_GRAMMAR`).
  */
 
-import * as RR from "@prantlf/railroad-diagrams/lib/index.mjs";
+import {
+  Diagram,
+  Versioned,
+  Sourced,
+  Sequence,
+  Choice,
+  Optional,
+  OneOrMore,
+  ZeroOrMore,
+  Terminal,
+  NonTerminal,
+  Stack,
+  Comment,
+  type GrammarExpr,
+} from "../../shared/grammar/grammarExpr";
+import { defineGrammarPack, type GrammarPack, type GrammarPackSection } from "../../shared/grammar/grammarPack";
+import { DEFAULT_STANDARD, EBNF_STANDARD, STANDARDS, STANDARD_LABELS, type StandardId } from "./cppStandards";
+import { PAPERS, paperUrl, type PaperId } from "./cppPapers";
+import { EBNF_DEFINITIONS, EBNF_RULE_TERMINALS } from "./ebnfDefinitions";
+import { SECTION_STABLE_NAMES, getRuleClause } from "./ruleClauses";
 
 // Convenience wrappers ------------------------------------------------------
-//
-// The @prantlf/railroad-diagrams package has shipped in builds where the exported
-// primitives are factory functions and builds where they are ES class constructors.
-// Calling a class constructor without `new` throws:
-//   "Class constructor X cannot be invoked without 'new'"
-//
-// `callOrNew` lets us treat everything as a callable, regardless of how it is exported.
-function callOrNew(Ctor: any, ...args: any[]) {
-  try {
-    return Ctor(...args);
-  } catch (e) {
-    if (e instanceof TypeError && /without 'new'/.test((e as Error).message)) {
-      return new Ctor(...args);
-    }
-    throw e;
-  }
-}
-
-// Wrapped primitives (use these throughout the file)
-const Diagram    = (...a: any[]) => callOrNew(RR.Diagram, ...a);
-const Sequence   = (...a: any[]) => callOrNew(RR.Sequence, ...a);
-const Choice     = (...a: any[]) => callOrNew(RR.Choice, ...a);
-const Optional   = (...a: any[]) => callOrNew(RR.Optional, ...a);
-const OneOrMore  = (...a: any[]) => callOrNew(RR.OneOrMore, ...a);
-const ZeroOrMore = (...a: any[]) => callOrNew(RR.ZeroOrMore, ...a);
-const Terminal   = (...a: any[]) => callOrNew(RR.Terminal, ...a);
-const NonTerminal = (...a: any[]) => callOrNew(RR.NonTerminal, ...a);
-const Stack      = (...a: any[]) => callOrNew(RR.Stack, ...a);
-const Comment    = (...a: any[]) => callOrNew(RR.Comment, ...a);
 
 const T  = (s: string) => Terminal(s);
 const NT = (s: string) => NonTerminal(s);
 
+/** Rule or alternative added in the given standard, by the given papers. */
+const Since = (std: StandardId, expr: GrammarExpr, ...papers: PaperId[]) =>
+  Versioned(Sourced(expr, ...papers), { since: std });
+/** Rule or alternative removed in the given standard, by the given papers. */
+const Until = (std: StandardId, expr: GrammarExpr, ...papers: PaperId[]) =>
+  Versioned(Sourced(expr, ...papers), { until: std });
+
 // --- Grammar rules (diagram factories) ----------------------------------------
+//
+// Each factory returns the rule body as a grammar expression tree; railroad
+// diagrams are rendered from that tree on demand.
 
-const rules = new Map<string, () => any>();
+const rules = new Map<string, () => GrammarExpr>();
 
 // ===== A.2 Keywords [gram.key] =====
 
@@ -93,15 +101,15 @@ rules.set("template-name", () =>
 // ===== A.3 Lexical conventions [gram.lex] =====
 
 rules.set("n-char", () =>
-  Diagram(Comment("any member of the translation character set except } or new-line"))
+  Since("c++23", Diagram(Comment("any member of the translation character set except } or new-line")), "P2071R2")
 );
 
 rules.set("n-char-sequence", () =>
-  Diagram(OneOrMore(NT("n-char")))
+  Since("c++23", Diagram(OneOrMore(NT("n-char"))), "P2071R2")
 );
 
 rules.set("named-universal-character", () =>
-  Diagram(Sequence(T("\\N{"), NT("n-char-sequence"), T("}")))
+  Since("c++23", Diagram(Sequence(T("\\N{"), NT("n-char-sequence"), T("}"))), "P2071R2")
 );
 
 rules.set("hex-quad", () =>
@@ -124,8 +132,8 @@ rules.set("universal-character-name", () =>
     Choice(0,
       Sequence(T("\\u"), NT("hex-quad")),
       Sequence(T("\\U"), NT("hex-quad"), NT("hex-quad")),
-      Sequence(T("\\u{"), NT("simple-hexadecimal-digit-sequence"), T("}")),
-      NT("named-universal-character")
+      Since("c++23", Sequence(T("\\u{"), NT("simple-hexadecimal-digit-sequence"), T("}")), "P2290R3"),
+      Since("c++23", NT("named-universal-character"), "P2071R2")
     )
   )
 );
@@ -134,9 +142,9 @@ rules.set("preprocessing-token", () =>
   Diagram(
     Choice(0,
       NT("header-name"),
-      NT("import-keyword"),
-      NT("module-keyword"),
-      NT("export-keyword"),
+      Since("c++20", NT("import-keyword"), "P1857R3"),
+      Since("c++20", NT("module-keyword"), "P1857R3"),
+      Since("c++20", NT("export-keyword"), "P1857R3"),
       NT("identifier"),
       NT("pp-number"),
       NT("character-literal"),
@@ -194,9 +202,9 @@ rules.set("pp-number", () =>
     ZeroOrMore(
       Choice(0,
         NT("identifier-continue"),
-        Sequence(T("'"), NT("digit")),
-        Sequence(T("'"), NT("nondigit")),
-        Sequence(Choice(0, T("e"), T("E"), T("p"), T("P")), NT("sign")),
+        Since("c++14", Sequence(T("'"), NT("digit")), "N3781"),
+        Since("c++14", Sequence(T("'"), NT("nondigit")), "N3781"),
+        Sequence(Choice(0, T("e"), T("E"), Since("c++17", T("p"), "P0245R1"), Since("c++17", T("P"), "P0245R1")), NT("sign")),
         T(".")
       )
     )
@@ -249,9 +257,9 @@ rules.set("keyword", () =>
   Diagram(
     Choice(0,
       Comment("any identifier listed in Table 5"),
-      NT("import-keyword"),
-      NT("module-keyword"),
-      NT("export-keyword")
+      Since("c++20", NT("import-keyword"), "P1857R3"),
+      Since("c++20", NT("module-keyword"), "P1857R3"),
+      Since("c++20", NT("export-keyword"), "P1857R3")
     )
   )
 );
@@ -273,13 +281,15 @@ rules.set("preprocessing-operator", () =>
 
 rules.set("operator-or-punctuator", () =>
   Diagram(
-    Stack(
+    Choice(0,
       Choice(0, T("{"), T("}"), T("["), T("]"), T("("), T(")"), T("<:"), T(":>"), T("<%"), T("%>")),
       Choice(0, T(";"), T(":"), T("..."), T("?"), T("::"), T("."), T(".*"), T("->"), T("->*"), T("~")),
       Choice(0, T("!"), T("+"), T("-"), T("*"), T("/"), T("%"), T("^"), T("&"), T("|")),
       Choice(0, T("="), T("+="), T("-="), T("*="), T("/="), T("%="), T("^="), T("&="), T("|=")),
-      Choice(0, T("=="), T("!="), T("<"), T(">"), T("<="), T(">="), T("<=>"), T("&&"), T("||")),
-      Choice(0, T("<<"), T(">>"), T("<<="), T(">>="), T("++"), T("--"), T(","))
+      Choice(0, T("=="), T("!="), T("<"), T(">"), T("<="), T(">="), Since("c++20", T("<=>"), "P0515R3"), T("&&"), T("||")),
+      Choice(0, T("<<"), T(">>"), T("<<="), T(">>="), T("++"), T("--"), T(",")),
+      Choice(0, T("and"), T("or"), T("xor"), T("not"), T("bitand"), T("bitor"), T("compl")),
+      Choice(0, T("and_eq"), T("or_eq"), T("xor_eq"), T("not_eq"))
     )
   )
 );
@@ -303,7 +313,7 @@ rules.set("literal", () =>
 rules.set("integer-literal", () =>
   Diagram(
     Choice(0,
-      NT("binary-literal"),
+      Since("c++14", NT("binary-literal"), "N3472"),
       NT("octal-literal"),
       NT("decimal-literal"),
       NT("hexadecimal-literal")
@@ -313,24 +323,27 @@ rules.set("integer-literal", () =>
 );
 
 rules.set("binary-literal", () =>
-  Diagram(
-    Choice(0, T("0b"), T("0B")),
-    NT("binary-digit"),
-    ZeroOrMore(Sequence(Optional(T("'")), NT("binary-digit")))
+  Since("c++14",
+    Diagram(
+      Choice(0, T("0b"), T("0B")),
+      NT("binary-digit"),
+      ZeroOrMore(Sequence(Since("c++14", Optional(T("'")), "N3781"), NT("binary-digit")))
+    ),
+    "N3472"
   )
 );
 
 rules.set("octal-literal", () =>
   Diagram(
     T("0"),
-    ZeroOrMore(Sequence(Optional(T("'")), NT("octal-digit")))
+    ZeroOrMore(Sequence(Since("c++14", Optional(T("'")), "N3781"), NT("octal-digit")))
   )
 );
 
 rules.set("decimal-literal", () =>
   Diagram(
     NT("nonzero-digit"),
-    ZeroOrMore(Sequence(Optional(T("'")), NT("digit")))
+    ZeroOrMore(Sequence(Since("c++14", Optional(T("'")), "N3781"), NT("digit")))
   )
 );
 
@@ -342,7 +355,7 @@ rules.set("hexadecimal-literal", () =>
 );
 
 rules.set("binary-digit", () =>
-  Diagram(Choice(0, T("0"), T("1")))
+  Since("c++14", Diagram(Choice(0, T("0"), T("1"))), "N3472")
 );
 
 rules.set("octal-digit", () =>
@@ -360,7 +373,7 @@ rules.set("hexadecimal-prefix", () =>
 rules.set("hexadecimal-digit-sequence", () =>
   Diagram(
     NT("hexadecimal-digit"),
-    ZeroOrMore(Sequence(Optional(T("'")), NT("hexadecimal-digit")))
+    ZeroOrMore(Sequence(Since("c++14", Optional(T("'")), "N3781"), NT("hexadecimal-digit")))
   )
 );
 
@@ -371,10 +384,10 @@ rules.set("hexadecimal-digit", () =>
 rules.set("integer-suffix", () =>
   Diagram(
     Choice(0,
-      Sequence(NT("unsigned-suffix"), Optional(Choice(0, NT("long-suffix"), NT("long-long-suffix"), NT("size-suffix")))),
+      Sequence(NT("unsigned-suffix"), Optional(Choice(0, NT("long-suffix"), NT("long-long-suffix"), Since("c++23", NT("size-suffix"), "P0330R8")))),
       Sequence(NT("long-suffix"), Optional(NT("unsigned-suffix"))),
       Sequence(NT("long-long-suffix"), Optional(NT("unsigned-suffix"))),
-      Sequence(NT("size-suffix"), Optional(NT("unsigned-suffix")))
+      Since("c++23", Sequence(NT("size-suffix"), Optional(NT("unsigned-suffix"))), "P0330R8")
     )
   )
 );
@@ -392,7 +405,7 @@ rules.set("long-long-suffix", () =>
 );
 
 rules.set("size-suffix", () =>
-  Diagram(Choice(0, T("z"), T("Z")))
+  Since("c++23", Diagram(Choice(0, T("z"), T("Z"))), "P0330R8")
 );
 
 rules.set("character-literal", () =>
@@ -459,14 +472,14 @@ rules.set("numeric-escape-sequence", () =>
 );
 
 rules.set("simple-octal-digit-sequence", () =>
-  Diagram(OneOrMore(NT("octal-digit")))
+  Since("c++23", Diagram(OneOrMore(NT("octal-digit"))), "P2290R3")
 );
 
 rules.set("octal-escape-sequence", () =>
   Diagram(
     Choice(0,
       Sequence(T("\\"), NT("octal-digit"), Optional(NT("octal-digit")), Optional(NT("octal-digit"))),
-      Sequence(T("\\o{"), NT("simple-octal-digit-sequence"), T("}"))
+      Since("c++23", Sequence(T("\\o{"), NT("simple-octal-digit-sequence"), T("}")), "P2290R3")
     )
   )
 );
@@ -475,7 +488,7 @@ rules.set("hexadecimal-escape-sequence", () =>
   Diagram(
     Choice(0,
       Sequence(T("\\x"), NT("simple-hexadecimal-digit-sequence")),
-      Sequence(T("\\x{"), NT("simple-hexadecimal-digit-sequence"), T("}"))
+      Since("c++23", Sequence(T("\\x{"), NT("simple-hexadecimal-digit-sequence"), T("}")), "P2290R3")
     )
   )
 );
@@ -495,7 +508,7 @@ rules.set("floating-point-literal", () =>
   Diagram(
     Choice(0,
       NT("decimal-floating-point-literal"),
-      NT("hexadecimal-floating-point-literal")
+      Since("c++17", NT("hexadecimal-floating-point-literal"), "P0245R1")
     )
   )
 );
@@ -511,14 +524,17 @@ rules.set("decimal-floating-point-literal", () =>
 );
 
 rules.set("hexadecimal-floating-point-literal", () =>
-  Diagram(
-    NT("hexadecimal-prefix"),
-    Choice(0,
-      NT("hexadecimal-fractional-constant"),
-      NT("hexadecimal-digit-sequence")
+  Since("c++17",
+    Diagram(
+      NT("hexadecimal-prefix"),
+      Choice(0,
+        NT("hexadecimal-fractional-constant"),
+        NT("hexadecimal-digit-sequence")
+      ),
+      NT("binary-exponent-part"),
+      Optional(NT("floating-point-suffix"))
     ),
-    NT("binary-exponent-part"),
-    Optional(NT("floating-point-suffix"))
+    "P0245R1"
   )
 );
 
@@ -532,11 +548,14 @@ rules.set("fractional-constant", () =>
 );
 
 rules.set("hexadecimal-fractional-constant", () =>
-  Diagram(
-    Choice(0,
-      Sequence(Optional(NT("hexadecimal-digit-sequence")), T("."), NT("hexadecimal-digit-sequence")),
-      Sequence(NT("hexadecimal-digit-sequence"), T("."))
-    )
+  Since("c++17",
+    Diagram(
+      Choice(0,
+        Sequence(Optional(NT("hexadecimal-digit-sequence")), T("."), NT("hexadecimal-digit-sequence")),
+        Sequence(NT("hexadecimal-digit-sequence"), T("."))
+      )
+    ),
+    "P0245R1"
   )
 );
 
@@ -549,10 +568,13 @@ rules.set("exponent-part", () =>
 );
 
 rules.set("binary-exponent-part", () =>
-  Diagram(
-    Choice(0, T("p"), T("P")),
-    Optional(NT("sign")),
-    NT("digit-sequence")
+  Since("c++17",
+    Diagram(
+      Choice(0, T("p"), T("P")),
+      Optional(NT("sign")),
+      NT("digit-sequence")
+    ),
+    "P0245R1"
   )
 );
 
@@ -563,15 +585,15 @@ rules.set("sign", () =>
 rules.set("digit-sequence", () =>
   Diagram(
     NT("digit"),
-    ZeroOrMore(Sequence(Optional(T("'")), NT("digit")))
+    ZeroOrMore(Sequence(Since("c++14", Optional(T("'")), "N3781"), NT("digit")))
   )
 );
 
 rules.set("floating-point-suffix", () =>
   Diagram(
     Choice(0,
-      T("f"), T("l"), T("f16"), T("f32"), T("f64"), T("f128"), T("bf16"),
-      T("F"), T("L"), T("F16"), T("F32"), T("F64"), T("F128"), T("BF16")
+      T("f"), T("l"), ...["f16", "f32", "f64", "f128", "bf16"].map((s) => Since("c++23", T(s), "P1467R9")),
+      T("F"), T("L"), ...["F16", "F32", "F64", "F128", "BF16"].map((s) => Since("c++23", T(s), "P1467R9"))
     )
   )
 );
@@ -657,7 +679,7 @@ rules.set("user-defined-integer-literal", () =>
       NT("decimal-literal"),
       NT("octal-literal"),
       NT("hexadecimal-literal"),
-      NT("binary-literal")
+      Since("c++14", NT("binary-literal"), "N3472")
     ),
     NT("ud-suffix")
   )
@@ -668,8 +690,8 @@ rules.set("user-defined-floating-point-literal", () =>
     Choice(0,
       Sequence(NT("fractional-constant"), Optional(NT("exponent-part"))),
       Sequence(NT("digit-sequence"), NT("exponent-part")),
-      Sequence(NT("hexadecimal-prefix"), NT("hexadecimal-fractional-constant"), NT("binary-exponent-part")),
-      Sequence(NT("hexadecimal-prefix"), NT("hexadecimal-digit-sequence"), NT("binary-exponent-part"))
+      Since("c++17", Sequence(NT("hexadecimal-prefix"), NT("hexadecimal-fractional-constant"), NT("binary-exponent-part")), "P0245R1"),
+      Since("c++17", Sequence(NT("hexadecimal-prefix"), NT("hexadecimal-digit-sequence"), NT("binary-exponent-part")), "P0245R1")
     ),
     NT("ud-suffix")
   )
@@ -693,11 +715,14 @@ rules.set("translation-unit", () =>
   Diagram(
     Choice(0,
       Optional(NT("declaration-seq")),
-      Sequence(
-        Optional(NT("global-module-fragment")),
-        NT("module-declaration"),
-        Optional(NT("declaration-seq")),
-        Optional(NT("private-module-fragment"))
+      Since("c++20",
+        Sequence(
+          Optional(NT("global-module-fragment")),
+          NT("module-declaration"),
+          Optional(NT("declaration-seq")),
+          Optional(NT("private-module-fragment"))
+        ),
+        "P1103R3"
       )
     )
   )
@@ -713,8 +738,10 @@ rules.set("primary-expression", () =>
       Sequence(T("("), NT("expression"), T(")")),
       NT("id-expression"),
       NT("lambda-expression"),
-      NT("fold-expression"),
-      NT("requires-expression")
+      Since("c++17", NT("fold-expression"), "N4295"),
+      Since("c++20", NT("requires-expression"), "P0734R0"),
+      // pack-index-expression
+      Since("c++26", Sequence(NT("id-expression"), T("..."), T("["), NT("constant-expression"), T("]")), "P2662R3")
     )
   )
 );
@@ -770,16 +797,23 @@ rules.set("nested-name-specifier", () =>
 rules.set("lambda-expression", () =>
   Diagram(
     NT("lambda-introducer"),
-    Optional(
-      Sequence(
-        T("<"),
-        NT("template-parameter-list"),
-        T(">"),
-        Optional(NT("requires-clause"))
-      )
+    Since("c++20",
+      Optional(
+        Sequence(
+          T("<"),
+          NT("template-parameter-list"),
+          T(">"),
+          Optional(NT("requires-clause"))
+        )
+      ),
+      "P0428R2"
+    ),
+    Since("c++23", Optional(NT("attribute-specifier-seq")), "P2173R1"),
+    // Before C++23 the parenthesized form was the only one, and optional
+    Choice(0,
+      Since("c++23", NT("lambda-declarator"), "P1102R2"),
+      Until("c++23", Optional(NT("lambda-declarator")), "P1102R2")
     ),
-    Optional(NT("attribute-specifier-seq")),
-    NT("lambda-declarator"),
     NT("compound-statement")
   )
 );
@@ -795,12 +829,24 @@ rules.set("lambda-introducer", () =>
 rules.set("lambda-declarator", () =>
   Diagram(
     Choice(0,
-      Sequence(
-        Optional(NT("lambda-specifier-seq")),
-        Optional(NT("noexcept-specifier")),
-        Optional(NT("attribute-specifier-seq")),
-        Optional(NT("trailing-return-type"))
+      Since("c++23",
+        Sequence(
+          NT("lambda-specifier-seq"),
+          Optional(NT("noexcept-specifier")),
+          Optional(NT("attribute-specifier-seq")),
+          Optional(NT("trailing-return-type"))
+        ),
+        "P1102R2"
+      ),
+      Since("c++23",
+        Sequence(
+          NT("noexcept-specifier"),
+          Optional(NT("attribute-specifier-seq")),
+          Optional(NT("trailing-return-type"))
+        ),
+        "P1102R2"
       ),
+      Since("c++23", Optional(NT("trailing-return-type")), "P1102R2"),
       Sequence(
         T("("),
         NT("parameter-declaration-clause"),
@@ -809,7 +855,7 @@ rules.set("lambda-declarator", () =>
         Optional(NT("noexcept-specifier")),
         Optional(NT("attribute-specifier-seq")),
         Optional(NT("trailing-return-type")),
-        Optional(NT("requires-clause"))
+        Since("c++20", Optional(NT("requires-clause")), "P0734R0")
       )
     )
   )
@@ -818,10 +864,10 @@ rules.set("lambda-declarator", () =>
 rules.set("lambda-specifier", () =>
   Diagram(
     Choice(0,
-      T("consteval"),
-      T("constexpr"),
+      Since("c++20", T("consteval"), "P1073R3"),
+      Since("c++17", T("constexpr"), "P0170R1"),
       T("mutable"),
-      T("static")
+      Since("c++23", T("static"), "P1169R4")
     )
   )
 );
@@ -855,7 +901,7 @@ rules.set("capture", () =>
   Diagram(
     Choice(0,
       NT("simple-capture"),
-      NT("init-capture")
+      Since("c++14", NT("init-capture"), "N3648")
     )
   )
 );
@@ -866,118 +912,146 @@ rules.set("simple-capture", () =>
       Sequence(NT("identifier"), Optional(T("..."))),
       Sequence(T("&"), NT("identifier"), Optional(T("..."))),
       T("this"),
-      Sequence(T("*"), T("this"))
+      Since("c++17", Sequence(T("*"), T("this")), "P0018R3")
     )
   )
 );
 
 rules.set("init-capture", () =>
-  Diagram(
-    Optional(T("...")),
-    Optional(T("&")),
-    NT("identifier"),
-    NT("initializer")
+  Since("c++14",
+    Diagram(
+      Optional(T("&")),
+      Since("c++20", Optional(T("...")), "P0780R2"),
+      NT("identifier"),
+      NT("initializer")
+    ),
+    "N3648"
   )
 );
 
 rules.set("fold-expression", () =>
-  Diagram(
-    T("("),
-    Choice(0,
-      Sequence(NT("cast-expression"), NT("fold-operator"), T("...")),
-      Sequence(T("..."), NT("fold-operator"), NT("cast-expression")),
-      Sequence(NT("cast-expression"), NT("fold-operator"), T("..."), NT("fold-operator"), NT("cast-expression"))
+  Since("c++17",
+    Diagram(
+      T("("),
+      Choice(0,
+        Sequence(NT("cast-expression"), NT("fold-operator"), T("...")),
+        Sequence(T("..."), NT("fold-operator"), NT("cast-expression")),
+        Sequence(NT("cast-expression"), NT("fold-operator"), T("..."), NT("fold-operator"), NT("cast-expression"))
+      ),
+      T(")")
     ),
-    T(")")
+    "N4295"
   )
 );
 
 rules.set("fold-operator", () =>
-  Diagram(
-    Choice(0,
-      T("+"), T("-"), T("*"), T("/"), T("%"), T("^"), T("&"), T("|"),
-      T("<<"), T(">>"), T("+="), T("-="), T("*="), T("/="), T("%="),
-      T("^="), T("&="), T("|="), T("<<="), T(">>="), T("="),
-      T("=="), T("!="), T("<"), T(">"), T("<="), T(">="),
-      T("&&"), T("||"), T(","), T(".*"), T("->*")
-    )
+  Since("c++17",
+    Diagram(
+      Choice(0,
+        T("+"), T("-"), T("*"), T("/"), T("%"), T("^"), T("&"), T("|"),
+        T("<<"), T(">>"), T("+="), T("-="), T("*="), T("/="), T("%="),
+        T("^="), T("&="), T("|="), T("<<="), T(">>="), T("="),
+        T("=="), T("!="), T("<"), T(">"), T("<="), T(">="),
+        T("&&"), T("||"), T(","), T(".*"), T("->*")
+      )
+    ),
+    "N4295"
   )
 );
 
 rules.set("requires-expression", () =>
-  Diagram(
-    T("requires"),
-    Optional(NT("requirement-parameter-list")),
-    NT("requirement-body")
+  Since("c++20",
+    Diagram(
+      T("requires"),
+      Optional(NT("requirement-parameter-list")),
+      NT("requirement-body")
+    ),
+    "P0734R0"
   )
 );
 
 rules.set("requirement-parameter-list", () =>
-  Diagram(
-    T("("),
-    NT("parameter-declaration-clause"),
-    T(")")
+  Since("c++20",
+    Diagram(
+      T("("),
+      NT("parameter-declaration-clause"),
+      T(")")
+    ),
+    "P0734R0"
   )
 );
 
 rules.set("requirement-body", () =>
-  Diagram(
-    T("{"),
-    NT("requirement-seq"),
-    T("}")
+  Since("c++20",
+    Diagram(
+      T("{"),
+      NT("requirement-seq"),
+      T("}")
+    ),
+    "P0734R0"
   )
 );
 
 rules.set("requirement-seq", () =>
-  Diagram(OneOrMore(NT("requirement")))
+  Since("c++20", Diagram(OneOrMore(NT("requirement"))), "P0734R0")
 );
 
 rules.set("requirement", () =>
-  Diagram(
-    Choice(0,
-      NT("simple-requirement"),
-      NT("type-requirement"),
-      NT("compound-requirement"),
-      NT("nested-requirement")
-    )
+  Since("c++20",
+    Diagram(
+      Choice(0,
+        NT("simple-requirement"),
+        NT("type-requirement"),
+        NT("compound-requirement"),
+        NT("nested-requirement")
+      )
+    ),
+    "P0734R0"
   )
 );
 
 rules.set("simple-requirement", () =>
-  Diagram(NT("expression"), T(";"))
+  Since("c++20", Diagram(NT("expression"), T(";")), "P0734R0")
 );
 
 rules.set("type-requirement", () =>
-  Diagram(
-    T("typename"),
-    Optional(NT("nested-name-specifier")),
-    NT("type-name"),
-    T(";")
+  Since("c++20",
+    Diagram(
+      T("typename"),
+      Optional(NT("nested-name-specifier")),
+      NT("type-name"),
+      T(";")
+    ),
+    "P0734R0"
   )
 );
 
 rules.set("compound-requirement", () =>
-  Diagram(
-    T("{"),
-    NT("expression"),
-    T("}"),
-    Optional(T("noexcept")),
-    Optional(NT("return-type-requirement")),
-    T(";")
+  Since("c++20",
+    Diagram(
+      T("{"),
+      NT("expression"),
+      T("}"),
+      Optional(T("noexcept")),
+      Optional(NT("return-type-requirement")),
+      T(";")
+    ),
+    "P0734R0"
   )
 );
 
 rules.set("return-type-requirement", () =>
-  Diagram(T("->"), NT("type-constraint"))
+  Since("c++20", Diagram(T("->"), NT("type-constraint")))
 );
 
 rules.set("nested-requirement", () =>
-  Diagram(T("requires"), NT("constraint-expression"), T(";"))
+  Since("c++20", Diagram(T("requires"), NT("constraint-expression"), T(";")), "P0734R0")
 );
 
 rules.set("postfix-expression", () => {
   const postfixSuffix = Choice(0,
-    Sequence(T("["), Optional(NT("expression-list")), T("]")),
+    Since("c++23", Sequence(T("["), Optional(NT("expression-list")), T("]")), "P2128R6"),
+    Until("c++23", Sequence(T("["), NT("expr-or-braced-init-list"), T("]"))),
     Sequence(T("("), Optional(NT("expression-list")), T(")")),
     Sequence(T("."), Optional(T("template")), NT("id-expression")),
     Sequence(T("->"), Optional(T("template")), NT("id-expression")),
@@ -1013,7 +1087,7 @@ rules.set("unary-expression", () =>
       Sequence(NT("unary-operator"), NT("cast-expression")),
       Sequence(T("++"), NT("cast-expression")),
       Sequence(T("--"), NT("cast-expression")),
-      NT("await-expression"),
+      Since("c++20", NT("await-expression"), "P0912R5"),
       Sequence(T("sizeof"), NT("unary-expression")),
       Sequence(T("sizeof"), T("("), NT("type-id"), T(")")),
       Sequence(T("sizeof"), T("..."), T("("), NT("identifier"), T(")")),
@@ -1030,7 +1104,7 @@ rules.set("unary-operator", () =>
 );
 
 rules.set("await-expression", () =>
-  Diagram(T("co_await"), NT("cast-expression"))
+  Since("c++20", Diagram(T("co_await"), NT("cast-expression")), "P0912R5")
 );
 
 rules.set("noexcept-expression", () =>
@@ -1124,8 +1198,12 @@ function chain(base: string, ops: string[]) {
 rules.set("multiplicative-expression", () => Diagram(chain("pm-expression", ["*", "/", "%"])));
 rules.set("additive-expression", () => Diagram(chain("multiplicative-expression", ["+", "-"])));
 rules.set("shift-expression", () => Diagram(chain("additive-expression", ["<<", ">>"])));
-rules.set("compare-expression", () => Diagram(chain("shift-expression", ["<=>"])));
-rules.set("relational-expression", () => Diagram(chain("compare-expression", ["<", ">", "<=", ">="])));
+rules.set("compare-expression", () => Since("c++20", Diagram(chain("shift-expression", ["<=>"])), "P0515R3"));
+rules.set("relational-expression", () => {
+  // C++20 slotted compare-expression in between relational and shift
+  const operand = Choice(0, Since("c++20", NT("compare-expression"), "P0515R3"), Until("c++20", NT("shift-expression")));
+  return Diagram(operand, ZeroOrMore(Sequence(Choice(0, ...["<", ">", "<=", ">="].map(T)), operand)));
+});
 rules.set("equality-expression", () => Diagram(chain("relational-expression", ["==", "!="])));
 rules.set("and-expression", () => Diagram(chain("equality-expression", ["&"])));
 rules.set("exclusive-or-expression", () => Diagram(chain("and-expression", ["^"])));
@@ -1141,12 +1219,15 @@ rules.set("conditional-expression", () =>
 );
 
 rules.set("yield-expression", () =>
-  Diagram(
-    T("co_yield"),
-    Choice(0,
-      NT("assignment-expression"),
-      NT("braced-init-list")
-    )
+  Since("c++20",
+    Diagram(
+      T("co_yield"),
+      Choice(0,
+        NT("assignment-expression"),
+        NT("braced-init-list")
+      )
+    ),
+    "P0912R5"
   )
 );
 
@@ -1158,7 +1239,7 @@ rules.set("assignment-expression", () =>
   Diagram(
     Choice(0,
       NT("conditional-expression"),
-      NT("yield-expression"),
+      Since("c++20", NT("yield-expression"), "P0912R5"),
       NT("throw-expression"),
       Sequence(NT("logical-or-expression"), NT("assignment-operator"), NT("initializer-clause"))
     )
@@ -1207,7 +1288,7 @@ rules.set("init-statement", () =>
     Choice(0,
       NT("expression-statement"),
       NT("simple-declaration"),
-      NT("alias-declaration")
+      Since("c++23", NT("alias-declaration"), "P2360R0")
     )
   )
 );
@@ -1249,7 +1330,7 @@ rules.set("compound-statement", () =>
   Diagram(
     T("{"),
     Optional(NT("statement-seq")),
-    Optional(NT("label-seq")),
+    Since("c++23", Optional(NT("label-seq")), "P2324R2"),
     T("}")
   )
 );
@@ -1259,7 +1340,7 @@ rules.set("statement-seq", () =>
 );
 
 rules.set("label-seq", () =>
-  Diagram(OneOrMore(NT("label")))
+  Since("c++23", Diagram(OneOrMore(NT("label"))), "P2324R2")
 );
 
 rules.set("selection-statement", () =>
@@ -1267,25 +1348,28 @@ rules.set("selection-statement", () =>
     Choice(0,
       Sequence(
         T("if"),
-        Optional(T("constexpr")),
+        Since("c++17", Optional(T("constexpr")), "P0292R2"),
         T("("),
-        Optional(NT("init-statement")),
+        Since("c++17", Optional(NT("init-statement")), "P0305R1"),
         NT("condition"),
         T(")"),
         NT("statement"),
         Optional(Sequence(T("else"), NT("statement")))
       ),
-      Sequence(
-        T("if"),
-        Optional(T("!")),
-        T("consteval"),
-        NT("compound-statement"),
-        Optional(Sequence(T("else"), NT("statement")))
+      Since("c++23",
+        Sequence(
+          T("if"),
+          Optional(T("!")),
+          T("consteval"),
+          NT("compound-statement"),
+          Optional(Sequence(T("else"), NT("statement")))
+        ),
+        "P1938R3"
       ),
       Sequence(
         T("switch"),
         T("("),
-        Optional(NT("init-statement")),
+        Since("c++17", Optional(NT("init-statement")), "P0305R1"),
         NT("condition"),
         T(")"),
         NT("statement")
@@ -1312,7 +1396,7 @@ rules.set("iteration-statement", () =>
       Sequence(
         T("for"),
         T("("),
-        Optional(NT("init-statement")),
+        Since("c++20", Optional(NT("init-statement")), "P0614R1"),
         NT("for-range-declaration"),
         T(":"),
         NT("for-range-initializer"),
@@ -1329,7 +1413,7 @@ rules.set("for-range-declaration", () =>
     NT("decl-specifier-seq"),
     Choice(0,
       NT("declarator"),
-      Sequence(Optional(NT("ref-qualifier")), T("["), NT("identifier-list"), T("]"))
+      Since("c++17", Sequence(Optional(NT("ref-qualifier")), T("["), NT("identifier-list"), T("]")), "P0217R3")
     )
   )
 );
@@ -1344,14 +1428,14 @@ rules.set("jump-statement", () =>
       Sequence(T("break"), T(";")),
       Sequence(T("continue"), T(";")),
       Sequence(T("return"), Optional(NT("expr-or-braced-init-list")), T(";")),
-      NT("coroutine-return-statement"),
+      Since("c++20", NT("coroutine-return-statement"), "P0912R5"),
       Sequence(T("goto"), NT("identifier"), T(";"))
     )
   )
 );
 
 rules.set("coroutine-return-statement", () =>
-  Diagram(T("co_return"), Optional(NT("expr-or-braced-init-list")), T(";"))
+  Since("c++20", Diagram(T("co_return"), Optional(NT("expr-or-braced-init-list")), T(";")), "P0912R5")
 );
 
 rules.set("declaration-statement", () =>
@@ -1380,12 +1464,12 @@ rules.set("name-declaration", () =>
       NT("nodeclspec-function-declaration"),
       NT("function-definition"),
       NT("template-declaration"),
-      NT("deduction-guide"),
+      Since("c++17", NT("deduction-guide"), "P0091R3"),
       NT("linkage-specification"),
       NT("namespace-definition"),
       NT("empty-declaration"),
       NT("attribute-declaration"),
-      NT("module-import-declaration")
+      Since("c++20", NT("module-import-declaration"), "P1103R3")
     )
   )
 );
@@ -1395,7 +1479,7 @@ rules.set("special-declaration", () =>
     Choice(0,
       NT("explicit-instantiation"),
       NT("explicit-specialization"),
-      NT("export-declaration")
+      Since("c++20", NT("export-declaration"), "P1103R3")
     )
   )
 );
@@ -1407,7 +1491,7 @@ rules.set("block-declaration", () =>
       NT("asm-declaration"),
       NT("namespace-alias-definition"),
       NT("using-declaration"),
-      NT("using-enum-declaration"),
+      Since("c++20", NT("using-enum-declaration"), "P1099R5"),
       NT("using-directive"),
       NT("static_assert-declaration"),
       NT("alias-declaration"),
@@ -1440,15 +1524,18 @@ rules.set("simple-declaration", () =>
     Choice(0,
       Sequence(NT("decl-specifier-seq"), Optional(NT("init-declarator-list")), T(";")),
       Sequence(NT("attribute-specifier-seq"), NT("decl-specifier-seq"), NT("init-declarator-list"), T(";")),
-      Sequence(
-        Optional(NT("attribute-specifier-seq")),
-        NT("decl-specifier-seq"),
-        Optional(NT("ref-qualifier")),
-        T("["),
-        NT("identifier-list"),
-        T("]"),
-        NT("initializer"),
-        T(";")
+      Since("c++17",
+        Sequence(
+          Optional(NT("attribute-specifier-seq")),
+          NT("decl-specifier-seq"),
+          Optional(NT("ref-qualifier")),
+          T("["),
+          NT("identifier-list"),
+          T("]"),
+          NT("initializer"),
+          T(";")
+        ),
+        "P0217R3"
       )
     )
   )
@@ -1459,7 +1546,10 @@ rules.set("static_assert-declaration", () =>
     T("static_assert"),
     T("("),
     NT("constant-expression"),
-    Optional(Sequence(T(","), NT("string-literal"))),
+    Choice(0,
+      Since("c++17", Optional(Sequence(T(","), NT("string-literal"))), "N3928"),
+      Until("c++17", Sequence(T(","), NT("string-literal")))
+    ),
     T(")"),
     T(";")
   )
@@ -1482,8 +1572,8 @@ rules.set("decl-specifier", () =>
       T("friend"),
       T("typedef"),
       T("constexpr"),
-      T("consteval"),
-      T("constinit"),
+      Since("c++20", T("consteval"), "P1073R3"),
+      Since("c++20", T("constinit"), "P1143R2"),
       T("inline")
     )
   )
@@ -1502,6 +1592,7 @@ rules.set("decl-specifier-seq", () =>
 rules.set("storage-class-specifier", () =>
   Diagram(
     Choice(0,
+      Until("c++17", T("register"), "P0001R1"),
       T("static"),
       T("thread_local"),
       T("extern"),
@@ -1522,7 +1613,7 @@ rules.set("function-specifier", () =>
 rules.set("explicit-specifier", () =>
   Diagram(
     T("explicit"),
-    Optional(Sequence(T("("), NT("constant-expression"), T(")")))
+    Since("c++20", Optional(Sequence(T("("), NT("constant-expression"), T(")"))), "P0892R2")
   )
 );
 
@@ -1574,8 +1665,10 @@ rules.set("simple-type-specifier", () =>
       Sequence(NT("nested-name-specifier"), T("template"), NT("simple-template-id")),
       NT("decltype-specifier"),
       NT("placeholder-type-specifier"),
-      Sequence(Optional(NT("nested-name-specifier")), NT("template-name")),
-      T("char"), T("char8_t"), T("char16_t"), T("char32_t"), T("wchar_t"),
+      Since("c++17", Sequence(Optional(NT("nested-name-specifier")), NT("template-name")), "P0091R3"),
+      // pack-index-specifier
+      Since("c++26", Sequence(NT("typedef-name"), T("..."), T("["), NT("constant-expression"), T("]")), "P2662R3"),
+      T("char"), Since("c++20", T("char8_t"), "P0482R6"), T("char16_t"), T("char32_t"), T("wchar_t"),
       T("bool"), T("short"), T("int"), T("long"),
       T("signed"), T("unsigned"), T("float"), T("double"), T("void")
     )
@@ -1619,10 +1712,10 @@ rules.set("decltype-specifier", () =>
 
 rules.set("placeholder-type-specifier", () =>
   Diagram(
-    Optional(NT("type-constraint")),
+    Since("c++20", Optional(NT("type-constraint")), "P1141R2"),
     Choice(0,
       T("auto"),
-      Sequence(T("decltype"), T("("), T("auto"), T(")"))
+      Since("c++14", Sequence(T("decltype"), T("("), T("auto"), T(")")), "N3638")
     )
   )
 );
@@ -1639,7 +1732,7 @@ rules.set("init-declarator", () =>
     NT("declarator"),
     Choice(0,
       Optional(NT("initializer")),
-      NT("requires-clause")
+      Since("c++20", NT("requires-clause"), "P0734R0")
     )
   )
 );
@@ -1739,13 +1832,20 @@ rules.set("abstract-declarator", () =>
 rules.set("ptr-abstract-declarator", () =>
   Diagram(
     ZeroOrMore(NT("ptr-operator")),
-    Optional(NT("noptr-abstract-declarator"))
+    Choice(0,
+      NT("noptr-abstract-declarator"),
+      NT("ptr-operator")
+    )
   )
 );
 
 rules.set("noptr-abstract-declarator", () =>
   Diagram(
-    Optional(Sequence(T("("), NT("ptr-abstract-declarator"), T(")"))),
+    Choice(0,
+      Sequence(T("("), NT("ptr-abstract-declarator"), T(")")),
+      NT("parameters-and-qualifiers"),
+      Sequence(T("["), Optional(NT("constant-expression")), T("]"), Optional(NT("attribute-specifier-seq")))
+    ),
     ZeroOrMore(
       Choice(0,
         NT("parameters-and-qualifiers"),
@@ -1793,11 +1893,18 @@ rules.set("parameter-declaration-list", () =>
 rules.set("parameter-declaration", () =>
   Diagram(
     Optional(NT("attribute-specifier-seq")),
-    Optional(T("this")),
-    NT("decl-specifier-seq"),
     Choice(0,
-      Sequence(NT("declarator"), Optional(Sequence(T("="), NT("initializer-clause")))),
-      Sequence(Optional(NT("abstract-declarator")), Optional(Sequence(T("="), NT("initializer-clause"))))
+      Sequence(
+        Since("c++23", Optional(T("this")), "P0847R7"),
+        NT("decl-specifier-seq"),
+        Choice(0, NT("declarator"), Optional(NT("abstract-declarator")))
+      ),
+      Sequence(
+        NT("decl-specifier-seq"),
+        Choice(0, NT("declarator"), Optional(NT("abstract-declarator"))),
+        T("="),
+        NT("initializer-clause")
+      )
     )
   )
 );
@@ -1834,7 +1941,7 @@ rules.set("braced-init-list", () =>
     T("{"),
     Choice(0,
       Sequence(NT("initializer-list"), Optional(T(","))),
-      Sequence(NT("designated-initializer-list"), Optional(T(","))),
+      Since("c++20", Sequence(NT("designated-initializer-list"), Optional(T(","))), "P0329R4"),
       Comment("empty")
     ),
     T("}")
@@ -1850,18 +1957,21 @@ rules.set("initializer-list", () =>
 );
 
 rules.set("designated-initializer-list", () =>
-  Diagram(
-    NT("designated-initializer-clause"),
-    ZeroOrMore(Sequence(T(","), NT("designated-initializer-clause")))
+  Since("c++20",
+    Diagram(
+      NT("designated-initializer-clause"),
+      ZeroOrMore(Sequence(T(","), NT("designated-initializer-clause")))
+    ),
+    "P0329R4"
   )
 );
 
 rules.set("designated-initializer-clause", () =>
-  Diagram(NT("designator"), NT("brace-or-equal-initializer"))
+  Since("c++20", Diagram(NT("designator"), NT("brace-or-equal-initializer")), "P0329R4")
 );
 
 rules.set("designator", () =>
-  Diagram(T("."), NT("identifier"))
+  Since("c++20", Diagram(T("."), NT("identifier")), "P0329R4")
 );
 
 rules.set("expr-or-braced-init-list", () =>
@@ -1880,7 +1990,7 @@ rules.set("function-definition", () =>
     NT("declarator"),
     Choice(0,
       Sequence(Optional(NT("virt-specifier-seq")), NT("function-body")),
-      Sequence(NT("requires-clause"), NT("function-body"))
+      Since("c++20", Sequence(NT("requires-clause"), NT("function-body")), "P0734R0")
     )
   )
 );
@@ -1891,7 +2001,9 @@ rules.set("function-body", () =>
       Sequence(Optional(NT("ctor-initializer")), NT("compound-statement")),
       NT("function-try-block"),
       Sequence(T("="), T("default"), T(";")),
-      Sequence(T("="), T("delete"), T(";"))
+      Sequence(T("="), T("delete"), T(";")),
+      // deleted-function-body with a reason (an unevaluated string)
+      Since("c++26", Sequence(T("="), T("delete"), T("("), NT("string-literal"), T(")"), T(";")), "P2573R2")
     )
   )
 );
@@ -1964,16 +2076,19 @@ rules.set("enumerator", () =>
 );
 
 rules.set("using-enum-declaration", () =>
-  Diagram(T("using"), T("enum"), NT("using-enum-declarator"), T(";"))
+  Since("c++20", Diagram(T("using"), T("enum"), NT("using-enum-declarator"), T(";")), "P1099R5")
 );
 
 rules.set("using-enum-declarator", () =>
-  Diagram(
-    Optional(NT("nested-name-specifier")),
-    Choice(0,
-      NT("identifier"),
-      NT("simple-template-id")
-    )
+  Since("c++20",
+    Diagram(
+      Optional(NT("nested-name-specifier")),
+      Choice(0,
+        NT("identifier"),
+        NT("simple-template-id")
+      )
+    ),
+    "P1099R5"
   )
 );
 
@@ -1982,7 +2097,7 @@ rules.set("namespace-definition", () =>
     Choice(0,
       NT("named-namespace-definition"),
       NT("unnamed-namespace-definition"),
-      NT("nested-namespace-definition")
+      Since("c++17", NT("nested-namespace-definition"), "N4230")
     )
   )
 );
@@ -2011,22 +2126,28 @@ rules.set("unnamed-namespace-definition", () =>
 );
 
 rules.set("nested-namespace-definition", () =>
-  Diagram(
-    T("namespace"),
-    NT("enclosing-namespace-specifier"),
-    T("::"),
-    Optional(T("inline")),
-    NT("identifier"),
-    T("{"),
-    NT("namespace-body"),
-    T("}")
+  Since("c++17",
+    Diagram(
+      T("namespace"),
+      NT("enclosing-namespace-specifier"),
+      T("::"),
+      Since("c++20", Optional(T("inline")), "P1094R2"),
+      NT("identifier"),
+      T("{"),
+      NT("namespace-body"),
+      T("}")
+    ),
+    "N4230"
   )
 );
 
 rules.set("enclosing-namespace-specifier", () =>
-  Diagram(
-    NT("identifier"),
-    ZeroOrMore(Sequence(T("::"), Optional(T("inline")), NT("identifier")))
+  Since("c++17",
+    Diagram(
+      NT("identifier"),
+      ZeroOrMore(Sequence(T("::"), Since("c++20", Optional(T("inline")), "P1094R2"), NT("identifier")))
+    ),
+    "N4230"
   )
 );
 
@@ -2066,8 +2187,8 @@ rules.set("using-declaration", () =>
 rules.set("using-declarator-list", () =>
   Diagram(
     NT("using-declarator"),
-    Optional(T("...")),
-    ZeroOrMore(Sequence(T(","), NT("using-declarator"), Optional(T("..."))))
+    Since("c++17", Optional(T("...")), "P0195R2"),
+    Since("c++17", ZeroOrMore(Sequence(T(","), NT("using-declarator"), Optional(T("...")))), "P0195R2")
   )
 );
 
@@ -2111,7 +2232,7 @@ rules.set("attribute-specifier", () =>
       Sequence(
         T("["),
         T("["),
-        Optional(NT("attribute-using-prefix")),
+        Since("c++17", Optional(NT("attribute-using-prefix")), "P0028R4"),
         NT("attribute-list"),
         T("]"),
         T("]")
@@ -2132,12 +2253,15 @@ rules.set("alignment-specifier", () =>
 );
 
 rules.set("attribute-using-prefix", () =>
-  Diagram(T("using"), NT("attribute-namespace"), T(":"))
+  Since("c++17", Diagram(T("using"), NT("attribute-namespace"), T(":")), "P0028R4")
 );
 
 rules.set("attribute-list", () =>
   Diagram(
-    Optional(NT("attribute")),
+    Choice(0,
+      Optional(NT("attribute")),
+      Sequence(NT("attribute"), T("..."))
+    ),
     ZeroOrMore(
       Sequence(
         T(","),
@@ -2193,61 +2317,73 @@ rules.set("balanced-token", () =>
 // ===== A.8 Modules [gram.module] =====
 
 rules.set("module-declaration", () =>
-  Diagram(
-    Optional(T("export")),
-    T("module"),
-    NT("module-name"),
-    Optional(NT("module-partition")),
-    Optional(NT("attribute-specifier-seq")),
-    T(";")
+  Since("c++20",
+    Diagram(
+      Optional(NT("export-keyword")),
+      NT("module-keyword"),
+      NT("module-name"),
+      Optional(NT("module-partition")),
+      Optional(NT("attribute-specifier-seq")),
+      T(";")
+    ),
+    "P1103R3"
   )
 );
 
 rules.set("module-name", () =>
-  Diagram(Optional(NT("module-name-qualifier")), NT("identifier"))
+  Since("c++20", Diagram(Optional(NT("module-name-qualifier")), NT("identifier")), "P1103R3")
 );
 
 rules.set("module-partition", () =>
-  Diagram(T(":"), Optional(NT("module-name-qualifier")), NT("identifier"))
+  Since("c++20", Diagram(T(":"), Optional(NT("module-name-qualifier")), NT("identifier")), "P1103R3")
 );
 
 rules.set("module-name-qualifier", () =>
-  Diagram(
-    NT("identifier"),
-    T("."),
-    ZeroOrMore(Sequence(NT("identifier"), T(".")))
+  Since("c++20",
+    Diagram(
+      NT("identifier"),
+      T("."),
+      ZeroOrMore(Sequence(NT("identifier"), T(".")))
+    ),
+    "P1103R3"
   )
 );
 
 rules.set("export-declaration", () =>
-  Diagram(
-    Choice(0,
-      Sequence(T("export"), NT("name-declaration")),
-      Sequence(T("export"), T("{"), Optional(NT("declaration-seq")), T("}")),
-      Sequence(T("export"), NT("module-import-declaration"))
-    )
+  Since("c++20",
+    Diagram(
+      Choice(0,
+        Sequence(T("export"), NT("name-declaration")),
+        Sequence(T("export"), T("{"), Optional(NT("declaration-seq")), T("}")),
+        Sequence(NT("export-keyword"), NT("module-import-declaration"))
+      )
+    ),
+    "P1103R3"
   )
 );
 
 rules.set("module-import-declaration", () =>
-  Diagram(
-    T("import"),
-    Choice(0,
-      NT("module-name"),
-      NT("module-partition"),
-      NT("header-name")
+  Since("c++20",
+    Diagram(
+      NT("import-keyword"),
+      Choice(0,
+        NT("module-name"),
+        NT("module-partition"),
+        NT("header-name")
+      ),
+      Optional(NT("attribute-specifier-seq")),
+      T(";")
     ),
-    Optional(NT("attribute-specifier-seq")),
-    T(";")
+    "P1103R3"
   )
 );
 
 rules.set("global-module-fragment", () =>
-  Diagram(T("module"), T(";"), Optional(NT("declaration-seq")))
+  Since("c++20", Diagram(NT("module-keyword"), T(";"), Optional(NT("declaration-seq"))), "P1103R3")
 );
 
 rules.set("private-module-fragment", () =>
-  Diagram(T("module"), T(":"), T("private"), T(";"), Optional(NT("declaration-seq")))
+  Since("c++20", Diagram(NT("module-keyword"), T(":"), T("private"), T(";"), Optional(NT("declaration-seq"))), "P1103R3")
 );
 
 // ===== A.9 Classes [gram.class] =====
@@ -2309,11 +2445,11 @@ rules.set("member-declaration", () =>
       ),
       NT("function-definition"),
       NT("using-declaration"),
-      NT("using-enum-declaration"),
+      Since("c++20", NT("using-enum-declaration"), "P1099R5"),
       NT("static_assert-declaration"),
       NT("template-declaration"),
       NT("explicit-specialization"),
-      NT("deduction-guide"),
+      Since("c++17", NT("deduction-guide"), "P0091R3"),
       NT("alias-declaration"),
       NT("opaque-enum-declaration"),
       NT("empty-declaration")
@@ -2335,7 +2471,7 @@ rules.set("member-declarator", () =>
         NT("declarator"),
         Choice(0,
           Sequence(Optional(NT("virt-specifier-seq")), Optional(NT("pure-specifier"))),
-          NT("requires-clause"),
+          Since("c++20", NT("requires-clause"), "P0734R0"),
           Optional(NT("brace-or-equal-initializer"))
         )
       ),
@@ -2344,7 +2480,7 @@ rules.set("member-declarator", () =>
         Optional(NT("attribute-specifier-seq")),
         T(":"),
         NT("constant-expression"),
-        Optional(NT("brace-or-equal-initializer"))
+        Since("c++20", Optional(NT("brace-or-equal-initializer")), "P0683R1")
       )
     )
   )
@@ -2451,11 +2587,11 @@ rules.set("operator-function-id", () =>
 rules.set("operator", () =>
   Diagram(
     Choice(0,
-      T("new"), T("delete"), T("new[]"), T("delete[]"), T("co_await"),
+      T("new"), T("delete"), T("new[]"), T("delete[]"), Since("c++20", T("co_await"), "P0912R5"),
       T("()"), T("[]"), T("->"), T("->*"),
       T("~"), T("!"), T("+"), T("-"), T("*"), T("/"), T("%"), T("^"), T("&"),
       T("|"), T("="), T("+="), T("-="), T("*="), T("/="), T("%="), T("^="), T("&="),
-      T("|="), T("=="), T("!="), T("<"), T(">"), T("<="), T(">="), T("<=>"),
+      T("|="), T("=="), T("!="), T("<"), T(">"), T("<="), T(">="), Since("c++20", T("<=>"), "P0515R3"),
       T("&&"), T("||"), T("<<"), T(">>"), T("<<="), T(">>="), T("++"), T("--"), T(",")
     )
   )
@@ -2466,7 +2602,7 @@ rules.set("literal-operator-id", () =>
     T("operator"),
     Choice(0,
       Sequence(NT("string-literal"), NT("identifier")),
-      NT("user-defined-string-literal")
+      Since("c++14", NT("user-defined-string-literal"))
     )
   )
 );
@@ -2478,7 +2614,7 @@ rules.set("template-declaration", () =>
     NT("template-head"),
     Choice(0,
       NT("declaration"),
-      NT("concept-definition")
+      Since("c++20", NT("concept-definition"), "P0734R0")
     )
   )
 );
@@ -2489,7 +2625,7 @@ rules.set("template-head", () =>
     T("<"),
     NT("template-parameter-list"),
     T(">"),
-    Optional(NT("requires-clause"))
+    Since("c++20", Optional(NT("requires-clause")), "P0734R0")
   )
 );
 
@@ -2501,20 +2637,26 @@ rules.set("template-parameter-list", () =>
 );
 
 rules.set("requires-clause", () =>
-  Diagram(T("requires"), NT("constraint-logical-or-expression"))
+  Since("c++20", Diagram(T("requires"), NT("constraint-logical-or-expression")), "P0734R0")
 );
 
 rules.set("constraint-logical-or-expression", () =>
-  Diagram(
-    NT("constraint-logical-and-expression"),
-    ZeroOrMore(Sequence(T("||"), NT("constraint-logical-and-expression")))
+  Since("c++20",
+    Diagram(
+      NT("constraint-logical-and-expression"),
+      ZeroOrMore(Sequence(T("||"), NT("constraint-logical-and-expression")))
+    ),
+    "P0734R0"
   )
 );
 
 rules.set("constraint-logical-and-expression", () =>
-  Diagram(
-    NT("primary-expression"),
-    ZeroOrMore(Sequence(T("&&"), NT("primary-expression")))
+  Since("c++20",
+    Diagram(
+      NT("primary-expression"),
+      ZeroOrMore(Sequence(T("&&"), NT("primary-expression")))
+    ),
+    "P0734R0"
   )
 );
 
@@ -2532,8 +2674,8 @@ rules.set("type-parameter", () =>
     Choice(0,
       Sequence(NT("type-parameter-key"), Optional(T("...")), Optional(NT("identifier"))),
       Sequence(NT("type-parameter-key"), Optional(NT("identifier")), T("="), NT("type-id")),
-      Sequence(NT("type-constraint"), Optional(T("...")), Optional(NT("identifier"))),
-      Sequence(NT("type-constraint"), Optional(NT("identifier")), T("="), NT("type-id")),
+      Since("c++20", Sequence(NT("type-constraint"), Optional(T("...")), Optional(NT("identifier"))), "P1141R2"),
+      Since("c++20", Sequence(NT("type-constraint"), Optional(NT("identifier")), T("="), NT("type-id")), "P1141R2"),
       Sequence(NT("template-head"), NT("type-parameter-key"), Optional(T("...")), Optional(NT("identifier"))),
       Sequence(NT("template-head"), NT("type-parameter-key"), Optional(NT("identifier")), T("="), NT("id-expression"))
     )
@@ -2545,10 +2687,13 @@ rules.set("type-parameter-key", () =>
 );
 
 rules.set("type-constraint", () =>
-  Diagram(
-    Optional(NT("nested-name-specifier")),
-    NT("concept-name"),
-    Optional(Sequence(T("<"), Optional(NT("template-argument-list")), T(">")))
+  Since("c++20",
+    Diagram(
+      Optional(NT("nested-name-specifier")),
+      NT("concept-name"),
+      Optional(Sequence(T("<"), Optional(NT("template-argument-list")), T(">")))
+    ),
+    "P1141R2"
   )
 );
 
@@ -2590,35 +2735,41 @@ rules.set("template-argument", () =>
 );
 
 rules.set("constraint-expression", () =>
-  Diagram(NT("logical-or-expression"))
+  Since("c++20", Diagram(NT("logical-or-expression")), "P0734R0")
 );
 
 rules.set("deduction-guide", () =>
-  Diagram(
-    Optional(NT("explicit-specifier")),
-    NT("template-name"),
-    T("("),
-    NT("parameter-declaration-clause"),
-    T(")"),
-    T("->"),
-    NT("simple-template-id"),
-    T(";")
+  Since("c++17",
+    Diagram(
+      Optional(NT("explicit-specifier")),
+      NT("template-name"),
+      T("("),
+      NT("parameter-declaration-clause"),
+      T(")"),
+      T("->"),
+      NT("simple-template-id"),
+      T(";")
+    ),
+    "P0091R3"
   )
 );
 
 rules.set("concept-definition", () =>
-  Diagram(
-    T("concept"),
-    NT("concept-name"),
-    Optional(NT("attribute-specifier-seq")),
-    T("="),
-    NT("constraint-expression"),
-    T(";")
+  Since("c++20",
+    Diagram(
+      T("concept"),
+      NT("concept-name"),
+      Optional(NT("attribute-specifier-seq")),
+      T("="),
+      NT("constraint-expression"),
+      T(";")
+    ),
+    "P0734R0"
   )
 );
 
 rules.set("concept-name", () =>
-  Diagram(NT("identifier"))
+  Since("c++20", Diagram(NT("identifier")), "P0734R0")
 );
 
 rules.set("typename-specifier", () =>
@@ -2684,8 +2835,22 @@ rules.set("exception-declaration", () =>
 
 rules.set("noexcept-specifier", () =>
   Diagram(
-    T("noexcept"),
-    Optional(Sequence(T("("), NT("constant-expression"), T(")")))
+    Choice(0,
+      Sequence(T("noexcept"), Optional(Sequence(T("("), NT("constant-expression"), T(")")))),
+      Until("c++17", Sequence(T("throw"), T("("), Optional(NT("type-id-list")), T(")")), "P0003R5"),
+      Since("c++17", Until("c++20", Sequence(T("throw"), T("("), T(")")), "P0619R4"), "P0003R5")
+    )
+  )
+);
+
+rules.set("type-id-list", () =>
+  Until("c++17",
+    Diagram(
+      NT("type-id"),
+      Optional(T("...")),
+      ZeroOrMore(Sequence(T(","), NT("type-id"), Optional(T("..."))))
+    ),
+    "P0003R5"
   )
 );
 
@@ -2695,26 +2860,29 @@ rules.set("preprocessing-file", () =>
   Diagram(
     Choice(0,
       Optional(NT("group")),
-      NT("module-file")
+      Since("c++20", NT("module-file"), "P1857R3")
     )
   )
 );
 
 rules.set("module-file", () =>
-  Diagram(
-    Optional(NT("pp-global-module-fragment")),
-    NT("pp-module"),
-    Optional(NT("group")),
-    Optional(NT("pp-private-module-fragment"))
+  Since("c++20",
+    Diagram(
+      Optional(NT("pp-global-module-fragment")),
+      NT("pp-module"),
+      Optional(NT("group")),
+      Optional(NT("pp-private-module-fragment"))
+    ),
+    "P1857R3"
   )
 );
 
 rules.set("pp-global-module-fragment", () =>
-  Diagram(T("module"), T(";"), NT("new-line"), Optional(NT("group")))
+  Since("c++20", Diagram(T("module"), T(";"), NT("new-line"), Optional(NT("group"))), "P1857R3")
 );
 
 rules.set("pp-private-module-fragment", () =>
-  Diagram(T("module"), T(":"), T("private"), T(";"), NT("new-line"), Optional(NT("group")))
+  Since("c++20", Diagram(T("module"), T(":"), T("private"), T(";"), NT("new-line"), Optional(NT("group"))), "P1857R3")
 );
 
 rules.set("group", () =>
@@ -2736,7 +2904,7 @@ rules.set("control-line", () =>
   Diagram(
     Choice(0,
       Sequence(T("#"), T("include"), NT("pp-tokens"), NT("new-line")),
-      NT("pp-import"),
+      Since("c++20", NT("pp-import"), "P1857R3"),
       Sequence(T("#"), T("define"), NT("identifier"), NT("replacement-list"), NT("new-line")),
       Sequence(T("#"), T("define"), NT("identifier"), NT("lparen"), Optional(NT("identifier-list")), T(")"), NT("replacement-list"), NT("new-line")),
       Sequence(T("#"), T("define"), NT("identifier"), NT("lparen"), T("..."), T(")"), NT("replacement-list"), NT("new-line")),
@@ -2744,7 +2912,8 @@ rules.set("control-line", () =>
       Sequence(T("#"), T("undef"), NT("identifier"), NT("new-line")),
       Sequence(T("#"), T("line"), NT("pp-tokens"), NT("new-line")),
       Sequence(T("#"), T("error"), Optional(NT("pp-tokens")), NT("new-line")),
-      Sequence(T("#"), T("warning"), Optional(NT("pp-tokens")), NT("new-line")),
+      Since("c++23", Sequence(T("#"), T("warning"), Optional(NT("pp-tokens")), NT("new-line")), "P2437R1"),
+      Since("c++26", Sequence(T("#"), T("embed"), NT("pp-tokens"), NT("new-line")), "P1967R14"),
       Sequence(T("#"), T("pragma"), Optional(NT("pp-tokens")), NT("new-line")),
       Sequence(T("#"), NT("new-line"))
     )
@@ -2782,8 +2951,8 @@ rules.set("elif-group", () =>
     T("#"),
     Choice(0,
       Sequence(T("elif"), NT("constant-expression")),
-      Sequence(T("elifdef"), NT("identifier")),
-      Sequence(T("elifndef"), NT("identifier"))
+      Since("c++23", Sequence(T("elifdef"), NT("identifier")), "P2334R1"),
+      Since("c++23", Sequence(T("elifndef"), NT("identifier")), "P2334R1")
     ),
     NT("new-line"),
     Optional(NT("group"))
@@ -2840,71 +3009,90 @@ rules.set("defined-macro-expression", () =>
 );
 
 rules.set("h-preprocessing-token", () =>
-  Diagram(Comment("any preprocessing-token other than >"))
+  Since("c++17", Diagram(Comment("any preprocessing-token other than >")), "P0061R1")
 );
 
 rules.set("h-pp-tokens", () =>
-  Diagram(OneOrMore(NT("h-preprocessing-token")))
+  Since("c++17", Diagram(OneOrMore(NT("h-preprocessing-token"))), "P0061R1")
 );
 
 rules.set("header-name-tokens", () =>
-  Diagram(
-    Choice(0,
-      NT("string-literal"),
-      Sequence(T("<"), NT("h-pp-tokens"), T(">"))
-    )
+  Since("c++17",
+    Diagram(
+      Choice(0,
+        NT("string-literal"),
+        Sequence(T("<"), NT("h-pp-tokens"), T(">"))
+      )
+    ),
+    "P0061R1"
   )
 );
 
 rules.set("has-include-expression", () =>
-  Diagram(
-    T("__has_include"),
-    T("("),
-    Choice(0,
-      NT("header-name"),
-      NT("header-name-tokens")
+  Since("c++17",
+    Diagram(
+      T("__has_include"),
+      T("("),
+      Choice(0,
+        NT("header-name"),
+        NT("header-name-tokens")
+      ),
+      T(")")
     ),
-    T(")")
+    "P0061R1"
   )
 );
 
 rules.set("has-attribute-expression", () =>
-  Diagram(T("__has_cpp_attribute"), T("("), NT("pp-tokens"), T(")"))
+  Since("c++20", Diagram(T("__has_cpp_attribute"), T("("), NT("pp-tokens"), T(")")), "P0941R2")
 );
 
 rules.set("pp-module", () =>
-  Diagram(
-    Optional(T("export")),
-    T("module"),
-    Optional(NT("pp-tokens")),
-    T(";"),
-    NT("new-line")
+  Since("c++20",
+    Diagram(
+      Optional(T("export")),
+      T("module"),
+      Optional(NT("pp-tokens")),
+      T(";"),
+      NT("new-line")
+    ),
+    "P1857R3"
   )
 );
 
 rules.set("pp-import", () =>
-  Diagram(
-    Optional(T("export")),
-    T("import"),
-    Choice(0,
-      NT("header-name"),
-      NT("header-name-tokens"),
-      NT("pp-tokens")
+  Since("c++20",
+    Diagram(
+      Optional(T("export")),
+      T("import"),
+      Choice(0,
+        Sequence(
+          Choice(0, NT("header-name"), NT("header-name-tokens")),
+          Optional(NT("pp-tokens"))
+        ),
+        NT("pp-tokens")
+      ),
+      T(";"),
+      NT("new-line")
     ),
-    Optional(NT("pp-tokens")),
-    T(";"),
-    NT("new-line")
+    "P1857R3"
   )
 );
 
 rules.set("va-opt-replacement", () =>
-  Diagram(T("__VA_OPT__"), T("("), Optional(NT("pp-tokens")), T(")"))
+  Since("c++20", Diagram(T("__VA_OPT__"), T("("), Optional(NT("pp-tokens")), T(")")), "P0306R4")
 );
 
+rules.set("import-keyword", () => Since("c++20", Diagram(T("import")), "P1857R3"));
+
+rules.set("module-keyword", () => Since("c++20", Diagram(T("module")), "P1857R3"));
+
+rules.set("export-keyword", () => Since("c++20", Diagram(T("export")), "P1857R3"));
+
 
 // --- Section definitions --------------------------------------------------------
 
-export const SECTION_ORDER = [
+const SECTION_ORDER = [
   "keywords",
   "lexical",
   "literals",
@@ -2922,7 +3110,7 @@ export const SECTION_ORDER = [
 
 export type SectionId = (typeof SECTION_ORDER)[number];
 
-export const SECTION_TITLES: Record<SectionId, string> = {
+const SECTION_TITLES: Record<SectionId, string> = {
   keywords: "A.2 Keywords",
   lexical: "A.3 Lexical Conventions",
   literals: "A.3 Literals",
@@ -2938,7 +3126,27 @@ export const SECTION_TITLES: Record<SectionId, string> = {
   preprocessing: "A.13 Preprocessing Directives",
 };
 
-export const SECTION_RULES: Record<SectionId, string[]> = {
+/**
+ * Annex A numbering up to C++17, before modules got their own clause and the
+ * keyword clause moved behind the scope/intro clauses.
+ */
+const LEGACY_SECTION_TITLES: Record<SectionId, string> = {
+  keywords: "A.1 Keywords",
+  lexical: "A.2 Lexical Conventions",
+  literals: "A.2 Literals",
+  basics: "A.3 Basic Concepts",
+  expressions: "A.4 Expressions",
+  statements: "A.5 Statements",
+  declarations: "A.6–A.7 Declarations",
+  modules: "Modules",
+  classes: "A.8–A.10 Classes",
+  overloading: "A.11 Overloading",
+  templates: "A.12 Templates",
+  exceptions: "A.13 Exception Handling",
+  preprocessing: "A.14 Preprocessing Directives",
+};
+
+const SECTION_RULES: Record<SectionId, string[]> = {
   keywords: [
     "typedef-name",
     "namespace-name",
@@ -3284,6 +3492,7 @@ export const SECTION_RULES: Record<SectionId, string[]> = {
     "handler",
     "exception-declaration",
     "noexcept-specifier",
+    "type-id-list",
   ],
   preprocessing: [
     "preprocessing-file",
@@ -3315,9 +3524,17 @@ export const SECTION_RULES: Record<SectionId, string[]> = {
     "pp-module",
     "pp-import",
     "va-opt-replacement",
+    "import-keyword",
+    "module-keyword",
+    "export-keyword",
   ],
 };
 
+/**
+ * Start symbols: the grammar of a source file after and before preprocessing.
+ */
+const START_RULES = ["translation-unit", "preprocessing-file"] as const;
+
 // --- Exports ----------------------------------------------------------------
 
 /**
@@ -3325,18 +3542,46 @@ export const SECTION_RULES: Record<SectionId, string[]> = {
  */
 export type RuleName = string;
 
-/**
- * Creates a railroad diagram for a given rule name.
- * Returns undefined if the rule is not found.
- */
-export function createRuleDiagram(name: string): any {
-  const factory = rules.get(name);
-  return factory ? factory() : undefined;
-}
+const SECTIONS: GrammarPackSection[] = SECTION_ORDER.map((id) => ({
+  id,
+  title: SECTION_TITLES[id],
+  rules: SECTION_RULES[id],
+}));
 
 /**
- * Get all rule names for grammar coverage checking.
+ * The C++ grammar pack: C++11 through the C++26 draft, with the hand-written
+ * C++23 EBNF, WG21 papers and links to the working draft.
  */
-export function getRuleNames(): string[] {
-  return Array.from(rules.keys());
-}
+export const CPP_GRAMMAR: GrammarPack = defineGrammarPack({
+  id: "cpp",
+  name: "C++",
+  description:
+    "Rendered from a diagram-friendly transcription of Annex A–style grammar rules (left recursion removed where needed).",
+  versions: STANDARDS,
+  versionLabels: STANDARD_LABELS,
+  defaultVersion: DEFAULT_STANDARD,
+  rules,
+  sections: SECTIONS,
+  // Annex A was renumbered in C++20
+  sectionTitle: (section, version) =>
+    STANDARDS.indexOf(version as StandardId) < STANDARDS.indexOf("c++20")
+      ? LEGACY_SECTION_TITLES[section as SectionId]
+      : undefined,
+  startRules: START_RULES,
+  lexicalSections: ["lexical", "literals"],
+  ebnf: { definitions: EBNF_DEFINITIONS, version: EBNF_STANDARD, ruleTerminals: EBNF_RULE_TERMINALS },
+  sources: { label: "WG21 paper", entries: PAPERS, url: (id) => paperUrl(id as PaperId) },
+  ruleLinks(name) {
+    const section = CPP_GRAMMAR.getRuleSection(name) as SectionId | undefined;
+    const clause = section && getRuleClause(name, section);
+    if (!clause) return [];
+    return [
+      { label: `[${clause.stableName}]`, url: clause.url, title: "Definition in the working draft" },
+      {
+        label: `${SECTION_TITLES[section]} [${SECTION_STABLE_NAMES[section]}]`,
+        url: clause.sectionUrl,
+        title: "Grammar summary in the working draft",
+      },
+    ];
+  },
+});
@@ -0,0 +1,99 @@
+/**
+ * WG21 papers behind the C++ grammar changes.
+ *
+ * The Since/Until tags in cppGrammar.ts name the papers that added, changed or
+ * removed a rule or alternative; this table gives each paper's title and the
+ * standard it shipped in. They are the sources of the C++ grammar pack, so a
+ * paper only shows up for standards that include it.
+ *
+ * Reference: https://wg21.link/
+ */
+
+import type { GrammarSourceInfo } from "../../shared/grammar/grammarPack";
+import type { StandardId } from "./cppStandards";
+
+export interface PaperInfo extends GrammarSourceInfo {
+  /** Standard the paper was adopted into. */
+  version: StandardId;
+}
+
+/**
+ * Papers cited in cppGrammar.ts, keyed by paper number (final revision), in
+ * adoption order.
+ */
+export const PAPERS = {
+  // ===== C++14 =====
+  N3472: { title: "Binary Literals in the C++ Core Language", version: "c++14" },
+  N3638: { title: "Return type deduction for normal functions", version: "c++14" },
+  N3648: { title: "Wording Changes for Generalized Lambda-capture", version: "c++14" },
+  N3781: { title: "Single-Quotation-Mark as a Digit Separator", version: "c++14" },
+
+  // ===== C++17 =====
+  N3928: { title: "Extending static_assert, v2", version: "c++17" },
+  N4230: { title: "Nested namespace definition", version: "c++17" },
+  N4295: { title: "Folding expressions", version: "c++17" },
+  P0001R1: { title: "Remove Deprecated Use of the register Keyword", version: "c++17" },
+  P0003R5: { title: "Removing Deprecated Exception Specifications from C++17", version: "c++17" },
+  P0018R3: { title: "Lambda Capture of *this by Value as [=,*this]", version: "c++17" },
+  P0028R4: { title: "Using attribute namespaces without repetition", version: "c++17" },
+  P0061R1: { title: "__has_include for C++17", version: "c++17" },
+  P0091R3: { title: "Template argument deduction for class templates", version: "c++17" },
+  P0170R1: { title: "Wording for Constexpr Lambda", version: "c++17" },
+  P0195R2: { title: "Pack expansions in using-declarations", version: "c++17" },
+  P0217R3: { title: "Proposed wording for structured bindings", version: "c++17" },
+  P0245R1: { title: "Hexadecimal floating literals for C++", version: "c++17" },
+  P0292R2: { title: "constexpr if: A slightly different syntax", version: "c++17" },
+  P0305R1: { title: "Selection statements with initializer", version: "c++17" },
+
+  // ===== C++20 =====
+  P0306R4: { title: "Comma omission and comma deletion", version: "c++20" },
+  P0329R4: { title: "Designated Initialization Wording", version: "c++20" },
+  P0428R2: { title: "Familiar template syntax for generic lambdas", version: "c++20" },
+  P0482R6: { title: "char8_t: A type for UTF-8 characters and strings", version: "c++20" },
+  P0515R3: { title: "Consistent comparison", version: "c++20" },
+  P0614R1: { title: "Range-based for statements with initializer", version: "c++20" },
+  P0619R4: { title: "Reviewing Deprecated Facilities of C++17 for C++20", version: "c++20" },
+  P0683R1: { title: "Default member initializers for bit-fields", version: "c++20" },
+  P0734R0: { title: "Wording Paper, C++ extensions for Concepts", version: "c++20" },
+  P0780R2: { title: "Allow pack expansion in lambda init-capture", version: "c++20" },
+  P0892R2: { title: "explicit(bool)", version: "c++20" },
+  P0912R5: { title: "Merge Coroutines TS into C++20 working draft", version: "c++20" },
+  P0941R2: { title: "Integrating feature-test macros into the C++ WD", version: "c++20" },
+  P1073R3: { title: "Immediate functions", version: "c++20" },
+  P1094R2: { title: "Nested Inline Namespaces", version: "c++20" },
+  P1099R5: { title: "Using Enum", version: "c++20" },
+  P1103R3: { title: "Merging Modules", version: "c++20" },
+  P1141R2: { title: "Yet another approach for constrained declarations", version: "c++20" },
+  P1143R2: { title: "Adding the constinit keyword", version: "c++20" },
+  P1857R3: { title: "Modules Dependency Discovery", version: "c++20" },
+
+  // ===== C++23 =====
+  P0330R8: { title: "Literal Suffix for (signed) size_t", version: "c++23" },
+  P0847R7: { title: "Deducing this", version: "c++23" },
+  P1102R2: { title: "Down with ()!", version: "c++23" },
+  P1169R4: { title: "static operator()", version: "c++23" },
+  P1467R9: { title: "Extended floating-point types and standard names", version: "c++23" },
+  P1938R3: { title: "if consteval", version: "c++23" },
+  P2071R2: { title: "Named universal character escapes", version: "c++23" },
+  P2128R6: { title: "Multidimensional subscript operator", version: "c++23" },
+  P2173R1: { title: "Attributes on Lambda-Expressions", version: "c++23" },
+  P2290R3: { title: "Delimited escape sequences", version: "c++23" },
+  P2324R2: { title: "Labels at the end of compound statements (C compatibility)", version: "c++23" },
+  P2334R1: { title: "Add support for preprocessing directives elifdef and elifndef", version: "c++23" },
+  P2360R0: { title: "Extend init-statement to allow alias-declaration", version: "c++23" },
+  P2437R1: { title: "Support for #warning", version: "c++23" },
+
+  // ===== C++26 =====
+  P1967R14: { title: "#embed - a simple, scannable preprocessor-based resource acquisition method", version: "c++26" },
+  P2573R2: { title: "= delete(\"should have a reason\");", version: "c++26" },
+  P2662R3: { title: "Pack Indexing", version: "c++26" },
+} as const satisfies Record<string, PaperInfo>;
+
+export type PaperId = keyof typeof PAPERS;
+
+/**
+ * Link to a paper on wg21.link.
+ */
+export function paperUrl(id: PaperId): string {
+  return `https://wg21.link/${id}`;
+}
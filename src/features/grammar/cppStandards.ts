@@ -0,0 +1,29 @@
+/**
+ * C++ standard versions covered by the grammar.
+ *
+ * Rules and alternatives in cppGrammar.ts are tagged with the standard that
+ * introduced them (`Since`) or the first one without them (`Until`); the
+ * other modules project the grammar onto one of these versions.
+ */
+
+export const STANDARDS = ["c++11", "c++14", "c++17", "c++20", "c++23", "c++26"] as const;
+
+export type StandardId = (typeof STANDARDS)[number];
+
+export const STANDARD_LABELS: Record<StandardId, string> = {
+  "c++11": "C++11",
+  "c++14": "C++14",
+  "c++17": "C++17",
+  "c++20": "C++20",
+  "c++23": "C++23",
+  // Only #embed, = delete("reason") and pack indexing so far; contracts,
+  // variadic friends, structured binding packs and static_assert messages
+  // are not in the grammar yet
+  "c++26": "C++26 (partial draft)",
+};
+
+/** Standard shown when none is selected. */
+export const DEFAULT_STANDARD: StandardId = "c++23";
+
+/** Standard the hand-written EBNF definitions in ebnfDefinitions.ts describe. */
+export const EBNF_STANDARD: StandardId = "c++23";
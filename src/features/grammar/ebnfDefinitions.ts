@@ -3,6 +3,9 @@
  * 
  * These definitions are displayed below each railroad diagram to provide
  * the textual grammar specification alongside the visual representation.
+ * Other standards reuse them where a rule reads the same as in C++23 and
+ * fall back to EBNF generated from the diagram factory elsewhere (see
+ * `GrammarPack.getEbnfDefinition`).
  * 
  * Based on the C++ Standard Grammar Summary (Annex A).
  * Reference: https://eel.is/c++draft/gram
@@ -285,7 +288,7 @@ export const EBNF_DEFINITIONS: Record<RuleName, string> = {
 
   "conditional-escape-sequence-char": `conditional-escape-sequence-char:
     any member of the basic character set that is not an octal-digit,
-    a simple-escape-sequence-char, or the characters N, o, u, U, or x`,
+        a simple-escape-sequence-char, or the characters N, o, u, U, or x`,
 
   "floating-point-literal": `floating-point-literal:
     decimal-floating-point-literal
@@ -350,7 +353,7 @@ export const EBNF_DEFINITIONS: Record<RuleName, string> = {
 
   "r-char": `r-char:
     any member of the translation character set, except ) followed by
-    the initial d-char-sequence followed by "`,
+        the initial d-char-sequence followed by "`,
 
   "d-char-sequence": `d-char-sequence:
     d-char
@@ -358,7 +361,7 @@ export const EBNF_DEFINITIONS: Record<RuleName, string> = {
 
   "d-char": `d-char:
     any member of the basic character set except:
-    space, (, ), \\, horizontal tab, vertical tab, form feed, and new-line`,
+        space, (, ), \\, horizontal tab, vertical tab, form feed, and new-line`,
 
   "boolean-literal": `boolean-literal:
     false
@@ -1438,6 +1441,10 @@ export const EBNF_DEFINITIONS: Record<RuleName, string> = {
     noexcept ( constant-expression )
     noexcept`,
 
+  "type-id-list": `type-id-list:
+    type-id ..._opt
+    type-id-list , type-id ..._opt`,
+
   // ===== A.13 Preprocessing directives [gram.cpp] =====
 
   "preprocessing-file": `preprocessing-file:
@@ -1555,19 +1562,25 @@ export const EBNF_DEFINITIONS: Record<RuleName, string> = {
 
   "va-opt-replacement": `va-opt-replacement:
     __VA_OPT__ ( pp-tokens_opt )`,
-};
 
-/**
- * Gets the EBNF definition for a given rule name.
- * Returns undefined if not found.
- */
-export function getEbnfDefinition(name: RuleName): string | undefined {
-  return EBNF_DEFINITIONS[name];
-}
+  "import-keyword": `import-keyword:
+    import`,
+
+  "module-keyword": `module-keyword:
+    module`,
+
+  "export-keyword": `export-keyword:
+    export`,
+};
 
 /**
- * Get all EBNF rule names for grammar coverage checking.
+ * Spellings Annex A sets in the keyword font where plain text would read
+ * something else: the `operator` keyword next to the `operator` rule, and the
+ * `( )` and `[ ]` operators, which are one entry each in the `one of` list.
  */
-export function getEbnfRuleNames(): string[] {
-  return Object.keys(EBNF_DEFINITIONS);
-}
+export const EBNF_RULE_TERMINALS: Partial<Record<RuleName, readonly string[]>> = {
+  "conversion-function-id": ["operator"],
+  "operator-function-id": ["operator"],
+  "literal-operator-id": ["operator"],
+  "operator": ["( )", "[ ]"],
+};
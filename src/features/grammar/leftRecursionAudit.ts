@@ -0,0 +1,62 @@
+/**
+ * Left recursion audit: the Annex A EBNF is full of left recursion
+ * (`R: a | R b`), which the diagram factories are meant to draw iteratively
+ * (`chain`, `ZeroOrMore`, `OneOrMore`). This checks that they do, for the
+ * version a pack's hand-written EBNF describes.
+ */
+
+import type { GrammarPack } from "../../shared/grammar/grammarPack";
+import { findLeftRecursion, hasRepetition, type LeftRecursionCycle } from "../../shared/grammar/leftRecursion";
+
+export type LeftRecursionStatus =
+  /** The diagram is not left recursive and uses repetition. */
+  | "iterative"
+  /** The diagram is still left recursive. */
+  | "left-recursive"
+  /** The diagram is not left recursive but has no repetition either. */
+  | "no-repetition";
+
+export interface LeftRecursionAuditEntry {
+  rule: string;
+  /** Left recursive on its own in the EBNF (`R: R …`), not only via other rules. */
+  direct: boolean;
+  /** The EBNF cycle the rule belongs to. */
+  cycle: string[];
+  status: LeftRecursionStatus;
+}
+
+export interface LeftRecursionAudit {
+  /** One entry per left-recursive EBNF rule, in cycle order. */
+  entries: LeftRecursionAuditEntry[];
+  /** Left recursion cycles remaining in the diagram grammar (should be none). */
+  diagramCycles: LeftRecursionCycle[];
+}
+
+/**
+ * Finds left recursion in a pack's parsed EBNF definitions and checks how each
+ * affected rule is drawn. Packs without hand-written EBNF are audited against
+ * their default version, where only the diagram cycles can show up.
+ */
+export function auditLeftRecursion(pack: GrammarPack): LeftRecursionAudit {
+  const version = pack.ebnf?.version ?? pack.defaultVersion;
+  const names = pack.getRuleNames(version);
+  const ebnfCycles = pack.ebnf
+    ? findLeftRecursion(names, (name) => pack.parseEbnfDefinition(name, version)?.rules[0]?.expr)
+    : [];
+  const diagramCycles = findLeftRecursion(names, (name) => pack.getRuleExpr(name, version));
+  const stillRecursive = new Set(diagramCycles.flatMap((c) => c.rules));
+
+  const entries = ebnfCycles.flatMap((cycle) =>
+    cycle.rules.map((rule): LeftRecursionAuditEntry => {
+      const expr = pack.getRuleExpr(rule, version);
+      const status: LeftRecursionStatus = stillRecursive.has(rule)
+        ? "left-recursive"
+        : expr && hasRepetition(expr)
+          ? "iterative"
+          : "no-repetition";
+      return { rule, direct: cycle.direct.includes(rule), cycle: cycle.rules, status };
+    })
+  );
+
+  return { entries, diagramCycles };
+}
@@ -0,0 +1,45 @@
+/**
+ * Registered grammar packs.
+ *
+ * The app, the hover previews and the check scripts pick grammars from this
+ * list; adding a language means defining its pack (see grammarPack.ts) and
+ * registering it here.
+ */
+
+import type { GrammarPack } from "../../shared/grammar/grammarPack";
+import { exprToDiagram } from "../../shared/railroad/exprToDiagram";
+import { C_GRAMMAR } from "./cGrammar";
+import { CPP_GRAMMAR } from "./cppGrammar";
+
+export const GRAMMAR_PACKS: readonly GrammarPack[] = [CPP_GRAMMAR, C_GRAMMAR];
+
+/** Pack shown when none is selected. */
+export const DEFAULT_PACK: GrammarPack = CPP_GRAMMAR;
+
+/**
+ * Looks up a registered pack by id.
+ */
+export function getGrammarPack(id: string): GrammarPack | undefined {
+  return GRAMMAR_PACKS.find((pack) => pack.id === id);
+}
+
+/**
+ * Creates a railroad diagram for a rule of a pack as it reads in one version.
+ * Nonterminal boxes link to `#rule-<name>` when that rule exists there; the
+ * occurrences at `expanded` paths are drawn as their rule's body instead (see
+ * `NonterminalExpansion`). Returns undefined if the rule is not found.
+ */
+export function createRuleDiagram(
+  pack: GrammarPack,
+  name: string,
+  version = pack.defaultVersion,
+  expanded?: ReadonlySet<string>
+): any {
+  const expr = pack.getRuleExpr(name, version);
+  return expr
+    ? exprToDiagram(expr, {
+        nonterminalHref: (n) => (pack.getRuleExpr(n, version) ? `#rule-${n}` : undefined),
+        expansion: expanded && { root: name, paths: expanded, resolve: (n) => pack.getRuleExpr(n, version) },
+      })
+    : undefined;
+}
@@ -0,0 +1,58 @@
+/**
+ * Nullable, FIRST and FOLLOW sets and LL(1) conflicts for a grammar pack,
+ * computed per version from the pack's rule factories on first use.
+ */
+
+import { analyzeGrammar, type GrammarAnalysis } from "../../shared/grammar/firstFollow";
+import type { GrammarPack } from "../../shared/grammar/grammarPack";
+import { findLl1Conflicts, type Ll1Conflict } from "../../shared/grammar/ll1";
+
+export interface RuleAnalysis {
+  nullable: boolean;
+  /** Sorted terminal keys; lexical rules referenced from phrase-level rules appear as `<name>`. */
+  first: string[];
+  /** Sorted terminal keys; start symbols include `END_OF_INPUT`. */
+  follow: string[];
+}
+
+// Keyed by `<pack>/<version>`
+const analyses = new Map<string, GrammarAnalysis>();
+
+/**
+ * Analysis for a whole pack in one version.
+ */
+export function getGrammarAnalysis(pack: GrammarPack, version = pack.defaultVersion): GrammarAnalysis {
+  const key = `${pack.id}/${version}`;
+  let analysis = analyses.get(key);
+  if (!analysis) {
+    analysis = analyzeGrammar(pack.getRuleNames(version), (name) => pack.getRuleExpr(name, version), {
+      startRules: pack.startRules,
+      // The lexical grammar: seen as tokens (<identifier>, <string-literal>, …) from phrase-level rules
+      lexicalRules: (pack.lexicalSections ?? []).flatMap((s) => pack.getSectionRules(s, version)),
+    });
+    analyses.set(key, analysis);
+  }
+  return analysis;
+}
+
+const sorted = (set: Set<string> | undefined) => [...(set ?? [])].sort((a, b) => a.localeCompare(b));
+
+/**
+ * Nullable, FIRST and FOLLOW for one rule.
+ */
+export function getRuleAnalysis(pack: GrammarPack, name: string, version = pack.defaultVersion): RuleAnalysis {
+  const a = getGrammarAnalysis(pack, version);
+  return {
+    nullable: a.nullable.has(name),
+    first: sorted(a.first.get(name)),
+    follow: sorted(a.follow.get(name)),
+  };
+}
+
+/**
+ * LL(1) conflicts in one rule: where one token of lookahead cannot pick a branch.
+ */
+export function getRuleConflicts(pack: GrammarPack, name: string, version = pack.defaultVersion): Ll1Conflict[] {
+  const expr = pack.getRuleExpr(name, version);
+  return expr ? findLl1Conflicts(name, expr, getGrammarAnalysis(pack, version)) : [];
+}
@@ -0,0 +1,457 @@
+/**
+ * Where each grammar rule is defined in the C++ working draft.
+ *
+ * Annex A only repeats the grammar; every production is normatively defined in
+ * a clause identified by its stable name (e.g. `[expr.prim.lambda.general]`).
+ * Stable names follow the current draft, which is what eel.is serves; older
+ * standards sometimes used a shorter name for the same clause.
+ *
+ * Reference: https://eel.is/c++draft/gram
+ */
+
+import type { RuleName, SectionId } from "./cppGrammar";
+
+/** Base URL of the working draft; each stable name is a page below it. */
+export const DRAFT_URL = "https://eel.is/c++draft/";
+
+/**
+ * Stable name of each section's Annex A subclause. Lexical conventions and
+ * literals share `[gram.lex]`.
+ */
+export const SECTION_STABLE_NAMES: Record<SectionId, string> = {
+  keywords: "gram.key",
+  lexical: "gram.lex",
+  literals: "gram.lex",
+  basics: "gram.basic",
+  expressions: "gram.expr",
+  statements: "gram.stmt",
+  declarations: "gram.dcl",
+  modules: "gram.module",
+  classes: "gram.class",
+  overloading: "gram.over",
+  templates: "gram.temp",
+  exceptions: "gram.except",
+  preprocessing: "gram.cpp",
+};
+
+export interface RuleClause {
+  /** Stable name of the clause defining the rule, without brackets. */
+  stableName: string;
+  /** Link to the rule's definition in the draft. */
+  url: string;
+  /** Annex A section repeating the rule. */
+  section: SectionId;
+  /** Stable name of that Annex A section, e.g. `gram.expr`. */
+  sectionStableName: string;
+  /** Link to the Annex A section in the draft. */
+  sectionUrl: string;
+}
+
+/**
+ * Stable name of the clause defining each rule, keyed by rule name.
+ */
+export const RULE_CLAUSES: Record<RuleName, string> = {
+  // ===== A.2 Keywords [gram.key] =====
+  "typedef-name": "dcl.typedef",
+  "namespace-name": "namespace.def.general",
+  "namespace-alias": "namespace.alias",
+  "class-name": "class.pre",
+  "enum-name": "dcl.enum",
+  "template-name": "temp.names",
+
+  // ===== A.3 Lexical conventions [gram.lex] =====
+  "n-char": "lex.universal.char",
+  "n-char-sequence": "lex.universal.char",
+  "named-universal-character": "lex.universal.char",
+  "hex-quad": "lex.universal.char",
+  "simple-hexadecimal-digit-sequence": "lex.universal.char",
+  "universal-character-name": "lex.universal.char",
+  "preprocessing-token": "lex.pptoken",
+  "token": "lex.token",
+  "header-name": "lex.header",
+  "h-char-sequence": "lex.header",
+  "h-char": "lex.header",
+  "q-char-sequence": "lex.header",
+  "q-char": "lex.header",
+  "pp-number": "lex.ppnumber",
+  "identifier": "lex.name",
+  "identifier-start": "lex.name",
+  "identifier-continue": "lex.name",
+  "nondigit": "lex.name",
+  "digit": "lex.name",
+  "keyword": "lex.key",
+  "preprocessing-op-or-punc": "lex.operators",
+  "preprocessing-operator": "lex.operators",
+  "operator-or-punctuator": "lex.operators",
+
+  // ===== A.3 Literals =====
+  "literal": "lex.literal.kinds",
+  "integer-literal": "lex.icon",
+  "binary-literal": "lex.icon",
+  "octal-literal": "lex.icon",
+  "decimal-literal": "lex.icon",
+  "hexadecimal-literal": "lex.icon",
+  "binary-digit": "lex.icon",
+  "octal-digit": "lex.icon",
+  "nonzero-digit": "lex.icon",
+  "hexadecimal-prefix": "lex.icon",
+  "hexadecimal-digit-sequence": "lex.icon",
+  "hexadecimal-digit": "lex.icon",
+  "integer-suffix": "lex.icon",
+  "unsigned-suffix": "lex.icon",
+  "long-suffix": "lex.icon",
+  "long-long-suffix": "lex.icon",
+  "size-suffix": "lex.icon",
+  "character-literal": "lex.ccon",
+  "encoding-prefix": "lex.ccon",
+  "c-char-sequence": "lex.ccon",
+  "c-char": "lex.ccon",
+  "basic-c-char": "lex.ccon",
+  "escape-sequence": "lex.ccon",
+  "simple-escape-sequence": "lex.ccon",
+  "simple-escape-sequence-char": "lex.ccon",
+  "numeric-escape-sequence": "lex.ccon",
+  "simple-octal-digit-sequence": "lex.ccon",
+  "octal-escape-sequence": "lex.ccon",
+  "hexadecimal-escape-sequence": "lex.ccon",
+  "conditional-escape-sequence": "lex.ccon",
+  "conditional-escape-sequence-char": "lex.ccon",
+  "floating-point-literal": "lex.fcon",
+  "decimal-floating-point-literal": "lex.fcon",
+  "hexadecimal-floating-point-literal": "lex.fcon",
+  "fractional-constant": "lex.fcon",
+  "hexadecimal-fractional-constant": "lex.fcon",
+  "exponent-part": "lex.fcon",
+  "binary-exponent-part": "lex.fcon",
+  "sign": "lex.fcon",
+  "digit-sequence": "lex.fcon",
+  "floating-point-suffix": "lex.fcon",
+  "string-literal": "lex.string",
+  "s-char-sequence": "lex.string",
+  "s-char": "lex.string",
+  "basic-s-char": "lex.string",
+  "raw-string": "lex.string",
+  "r-char-sequence": "lex.string",
+  "r-char": "lex.string",
+  "d-char-sequence": "lex.string",
+  "d-char": "lex.string",
+  "boolean-literal": "lex.bool",
+  "pointer-literal": "lex.nullptr",
+  "user-defined-literal": "lex.ext",
+  "user-defined-integer-literal": "lex.ext",
+  "user-defined-floating-point-literal": "lex.ext",
+  "user-defined-string-literal": "lex.ext",
+  "user-defined-character-literal": "lex.ext",
+  "ud-suffix": "lex.ext",
+
+  // ===== A.4 Basics [gram.basic] =====
+  "translation-unit": "basic.link",
+
+  // ===== A.5 Expressions [gram.expr] =====
+  "primary-expression": "expr.prim",
+  "id-expression": "expr.prim.id.general",
+  "unqualified-id": "expr.prim.id.unqual",
+  "qualified-id": "expr.prim.id.qual",
+  "nested-name-specifier": "expr.prim.id.qual",
+  "lambda-expression": "expr.prim.lambda.general",
+  "lambda-introducer": "expr.prim.lambda.general",
+  "lambda-declarator": "expr.prim.lambda.general",
+  "lambda-specifier": "expr.prim.lambda.general",
+  "lambda-specifier-seq": "expr.prim.lambda.general",
+  "lambda-capture": "expr.prim.lambda.capture",
+  "capture-default": "expr.prim.lambda.capture",
+  "capture-list": "expr.prim.lambda.capture",
+  "capture": "expr.prim.lambda.capture",
+  "simple-capture": "expr.prim.lambda.capture",
+  "init-capture": "expr.prim.lambda.capture",
+  "fold-expression": "expr.prim.fold",
+  "fold-operator": "expr.prim.fold",
+  "requires-expression": "expr.prim.req.general",
+  "requirement-parameter-list": "expr.prim.req.general",
+  "requirement-body": "expr.prim.req.general",
+  "requirement-seq": "expr.prim.req.general",
+  "requirement": "expr.prim.req.general",
+  "simple-requirement": "expr.prim.req.simple",
+  "type-requirement": "expr.prim.req.type",
+  "compound-requirement": "expr.prim.req.compound",
+  "return-type-requirement": "expr.prim.req.compound",
+  "nested-requirement": "expr.prim.req.nested",
+  "postfix-expression": "expr.post.general",
+  "expression-list": "expr.post.general",
+  "unary-expression": "expr.unary.general",
+  "unary-operator": "expr.unary.general",
+  "await-expression": "expr.await",
+  "noexcept-expression": "expr.unary.noexcept",
+  "new-expression": "expr.new",
+  "new-placement": "expr.new",
+  "new-type-id": "expr.new",
+  "new-declarator": "expr.new",
+  "noptr-new-declarator": "expr.new",
+  "new-initializer": "expr.new",
+  "delete-expression": "expr.delete",
+  "cast-expression": "expr.cast",
+  "pm-expression": "expr.mptr.oper",
+  "multiplicative-expression": "expr.mul",
+  "additive-expression": "expr.add",
+  "shift-expression": "expr.shift",
+  "compare-expression": "expr.spaceship",
+  "relational-expression": "expr.rel",
+  "equality-expression": "expr.eq",
+  "and-expression": "expr.bit.and",
+  "exclusive-or-expression": "expr.xor",
+  "inclusive-or-expression": "expr.or",
+  "logical-and-expression": "expr.log.and",
+  "logical-or-expression": "expr.log.or",
+  "conditional-expression": "expr.cond",
+  "yield-expression": "expr.yield",
+  "throw-expression": "expr.throw",
+  "assignment-expression": "expr.assign",
+  "assignment-operator": "expr.assign",
+  "expression": "expr.comma",
+  "constant-expression": "expr.const",
+
+  // ===== A.6 Statements [gram.stmt] =====
+  "statement": "stmt.pre",
+  "init-statement": "stmt.pre",
+  "condition": "stmt.pre",
+  "label": "stmt.label",
+  "labeled-statement": "stmt.label",
+  "expression-statement": "stmt.expr",
+  "compound-statement": "stmt.block",
+  "statement-seq": "stmt.block",
+  "label-seq": "stmt.block",
+  "selection-statement": "stmt.select.general",
+  "iteration-statement": "stmt.iter.general",
+  "for-range-declaration": "stmt.iter.general",
+  "for-range-initializer": "stmt.iter.general",
+  "jump-statement": "stmt.jump.general",
+  "coroutine-return-statement": "stmt.return.coroutine",
+  "declaration-statement": "stmt.dcl",
+
+  // ===== A.7 Declarations [gram.dcl] =====
+  "declaration-seq": "dcl.pre",
+  "declaration": "dcl.pre",
+  "name-declaration": "dcl.pre",
+  "special-declaration": "dcl.pre",
+  "block-declaration": "dcl.pre",
+  "nodeclspec-function-declaration": "dcl.pre",
+  "alias-declaration": "dcl.pre",
+  "simple-declaration": "dcl.pre",
+  "static_assert-declaration": "dcl.pre",
+  "empty-declaration": "dcl.pre",
+  "attribute-declaration": "dcl.pre",
+  "decl-specifier": "dcl.spec.general",
+  "decl-specifier-seq": "dcl.spec.general",
+  "storage-class-specifier": "dcl.stc",
+  "function-specifier": "dcl.fct.spec",
+  "explicit-specifier": "dcl.fct.spec",
+  "type-specifier": "dcl.type.general",
+  "type-specifier-seq": "dcl.type.general",
+  "defining-type-specifier": "dcl.type.general",
+  "defining-type-specifier-seq": "dcl.type.general",
+  "simple-type-specifier": "dcl.type.simple",
+  "type-name": "dcl.type.simple",
+  "elaborated-type-specifier": "dcl.type.elab",
+  "decltype-specifier": "dcl.type.decltype",
+  "placeholder-type-specifier": "dcl.spec.auto.general",
+  "init-declarator-list": "dcl.decl.general",
+  "init-declarator": "dcl.decl.general",
+  "declarator": "dcl.decl.general",
+  "ptr-declarator": "dcl.decl.general",
+  "noptr-declarator": "dcl.decl.general",
+  "parameters-and-qualifiers": "dcl.decl.general",
+  "trailing-return-type": "dcl.decl.general",
+  "ptr-operator": "dcl.decl.general",
+  "cv-qualifier-seq": "dcl.decl.general",
+  "cv-qualifier": "dcl.decl.general",
+  "ref-qualifier": "dcl.decl.general",
+  "declarator-id": "dcl.decl.general",
+  "type-id": "dcl.name",
+  "defining-type-id": "dcl.name",
+  "abstract-declarator": "dcl.name",
+  "ptr-abstract-declarator": "dcl.name",
+  "noptr-abstract-declarator": "dcl.name",
+  "abstract-pack-declarator": "dcl.name",
+  "noptr-abstract-pack-declarator": "dcl.name",
+  "parameter-declaration-clause": "dcl.fct",
+  "parameter-declaration-list": "dcl.fct",
+  "parameter-declaration": "dcl.fct",
+  "initializer": "dcl.init.general",
+  "brace-or-equal-initializer": "dcl.init.general",
+  "initializer-clause": "dcl.init.general",
+  "braced-init-list": "dcl.init.general",
+  "initializer-list": "dcl.init.general",
+  "designated-initializer-list": "dcl.init.general",
+  "designated-initializer-clause": "dcl.init.general",
+  "designator": "dcl.init.general",
+  "expr-or-braced-init-list": "dcl.init.general",
+  "function-definition": "dcl.fct.def.general",
+  "function-body": "dcl.fct.def.general",
+  "enum-specifier": "dcl.enum",
+  "enum-head": "dcl.enum",
+  "enum-head-name": "dcl.enum",
+  "opaque-enum-declaration": "dcl.enum",
+  "enum-key": "dcl.enum",
+  "enum-base": "dcl.enum",
+  "enumerator-list": "dcl.enum",
+  "enumerator-definition": "dcl.enum",
+  "enumerator": "dcl.enum",
+  "using-enum-declaration": "enum.udecl",
+  "using-enum-declarator": "enum.udecl",
+  "namespace-definition": "namespace.def.general",
+  "named-namespace-definition": "namespace.def.general",
+  "unnamed-namespace-definition": "namespace.def.general",
+  "nested-namespace-definition": "namespace.def.general",
+  "enclosing-namespace-specifier": "namespace.def.general",
+  "namespace-body": "namespace.def.general",
+  "namespace-alias-definition": "namespace.alias",
+  "qualified-namespace-specifier": "namespace.alias",
+  "using-directive": "namespace.udir",
+  "using-declaration": "namespace.udecl",
+  "using-declarator-list": "namespace.udecl",
+  "using-declarator": "namespace.udecl",
+  "asm-declaration": "dcl.asm",
+  "linkage-specification": "dcl.link",
+  "attribute-specifier-seq": "dcl.attr.grammar",
+  "attribute-specifier": "dcl.attr.grammar",
+  "alignment-specifier": "dcl.attr.grammar",
+  "attribute-using-prefix": "dcl.attr.grammar",
+  "attribute-list": "dcl.attr.grammar",
+  "attribute": "dcl.attr.grammar",
+  "attribute-token": "dcl.attr.grammar",
+  "attribute-scoped-token": "dcl.attr.grammar",
+  "attribute-namespace": "dcl.attr.grammar",
+  "attribute-argument-clause": "dcl.attr.grammar",
+  "balanced-token-seq": "dcl.attr.grammar",
+  "balanced-token": "dcl.attr.grammar",
+
+  // ===== A.8 Modules [gram.module] =====
+  "module-declaration": "module.unit",
+  "module-name": "module.unit",
+  "module-partition": "module.unit",
+  "module-name-qualifier": "module.unit",
+  "export-declaration": "module.interface",
+  "module-import-declaration": "module.import",
+  "global-module-fragment": "module.global.frag",
+  "private-module-fragment": "module.private.frag",
+
+  // ===== A.9 Classes [gram.class] =====
+  "class-specifier": "class.pre",
+  "class-head": "class.pre",
+  "class-head-name": "class.pre",
+  "class-virt-specifier": "class.pre",
+  "class-key": "class.pre",
+  "member-specification": "class.mem.general",
+  "member-declaration": "class.mem.general",
+  "member-declarator-list": "class.mem.general",
+  "member-declarator": "class.mem.general",
+  "virt-specifier-seq": "class.mem.general",
+  "virt-specifier": "class.mem.general",
+  "pure-specifier": "class.mem.general",
+  "conversion-function-id": "class.conv.fct",
+  "conversion-type-id": "class.conv.fct",
+  "conversion-declarator": "class.conv.fct",
+  "base-clause": "class.derived.general",
+  "base-specifier-list": "class.derived.general",
+  "base-specifier": "class.derived.general",
+  "class-or-decltype": "class.derived.general",
+  "access-specifier": "class.derived.general",
+  "ctor-initializer": "class.base.init",
+  "mem-initializer-list": "class.base.init",
+  "mem-initializer": "class.base.init",
+  "mem-initializer-id": "class.base.init",
+
+  // ===== A.10 Overloading [gram.over] =====
+  "operator-function-id": "over.oper.general",
+  "operator": "over.oper.general",
+  "literal-operator-id": "over.literal",
+
+  // ===== A.11 Templates [gram.temp] =====
+  "template-declaration": "temp.pre",
+  "template-head": "temp.pre",
+  "template-parameter-list": "temp.pre",
+  "requires-clause": "temp.pre",
+  "constraint-logical-or-expression": "temp.pre",
+  "constraint-logical-and-expression": "temp.pre",
+  "template-parameter": "temp.param",
+  "type-parameter": "temp.param",
+  "type-parameter-key": "temp.param",
+  "type-constraint": "temp.param",
+  "simple-template-id": "temp.names",
+  "template-id": "temp.names",
+  "template-argument-list": "temp.names",
+  "template-argument": "temp.names",
+  "constraint-expression": "temp.constr.decl",
+  "deduction-guide": "temp.deduct.guide",
+  "concept-definition": "temp.concept",
+  "concept-name": "temp.concept",
+  "typename-specifier": "temp.res.general",
+  "explicit-instantiation": "temp.explicit",
+  "explicit-specialization": "temp.expl.spec",
+
+  // ===== A.12 Exception handling [gram.except] =====
+  "try-block": "except.pre",
+  "function-try-block": "except.pre",
+  "handler-seq": "except.pre",
+  "handler": "except.pre",
+  "exception-declaration": "except.pre",
+  "noexcept-specifier": "except.spec",
+  "type-id-list": "except.spec",
+
+  // ===== A.13 Preprocessing directives [gram.cpp] =====
+  "preprocessing-file": "cpp.pre",
+  "module-file": "cpp.pre",
+  "pp-global-module-fragment": "cpp.pre",
+  "pp-private-module-fragment": "cpp.pre",
+  "group": "cpp.pre",
+  "group-part": "cpp.pre",
+  "control-line": "cpp.pre",
+  "if-section": "cpp.pre",
+  "if-group": "cpp.pre",
+  "elif-groups": "cpp.pre",
+  "elif-group": "cpp.pre",
+  "else-group": "cpp.pre",
+  "endif-line": "cpp.pre",
+  "text-line": "cpp.pre",
+  "conditionally-supported-directive": "cpp.pre",
+  "lparen": "cpp.pre",
+  "identifier-list": "cpp.pre",
+  "replacement-list": "cpp.pre",
+  "pp-tokens": "cpp.pre",
+  "new-line": "cpp.pre",
+  "defined-macro-expression": "cpp.cond",
+  "h-preprocessing-token": "cpp.cond",
+  "h-pp-tokens": "cpp.cond",
+  "header-name-tokens": "cpp.cond",
+  "has-include-expression": "cpp.cond",
+  "has-attribute-expression": "cpp.cond",
+  "pp-module": "cpp.module",
+  "pp-import": "cpp.import",
+  "va-opt-replacement": "cpp.subst",
+  "import-keyword": "cpp.import",
+  "module-keyword": "cpp.module",
+  "export-keyword": "cpp.module",
+};
+
+/**
+ * Link to a clause of the draft, optionally to a nonterminal's definition in it.
+ */
+export function draftUrl(stableName: string, nonterminal?: string): string {
+  return `${DRAFT_URL}${stableName}${nonterminal ? `#nt:${nonterminal}` : ""}`;
+}
+
+/**
+ * Gets where a rule is defined in the draft, given the Annex A section that
+ * repeats it. Returns undefined for rules with no clause.
+ */
+export function getRuleClause(name: RuleName, section: SectionId): RuleClause | undefined {
+  const stableName = RULE_CLAUSES[name];
+  if (!stableName) return undefined;
+  return {
+    stableName,
+    url: draftUrl(stableName, name),
+    section,
+    sectionStableName: SECTION_STABLE_NAMES[section],
+    sectionUrl: draftUrl(SECTION_STABLE_NAMES[section]),
+  };
+}
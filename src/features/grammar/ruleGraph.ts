@@ -0,0 +1,112 @@
+/**
+ * Rule dependency queries for a grammar pack.
+ *
+ * Answers "which rules does X use?" and "who uses X?" from the pack's rule
+ * factories. Each pack version's graph is built once on first use.
+ */
+
+import {
+  buildDependencyGraph,
+  isCyclicComponent,
+  reachableFrom,
+  stronglyConnectedComponents,
+  transitiveClosure,
+  type DependencyGraph,
+} from "../../shared/grammar/dependencyGraph";
+import type { GrammarPack } from "../../shared/grammar/grammarPack";
+
+// Caches keyed by `<pack>/<version>`
+const graphs = new Map<string, DependencyGraph>();
+const components = new Map<string, string[][]>();
+const reachable = new Map<string, Set<string>>();
+
+const cacheKey = (pack: GrammarPack, version: string) => `${pack.id}/${version}`;
+
+/**
+ * The full nonterminal dependency graph of a pack in one version.
+ */
+export function getRuleGraph(pack: GrammarPack, version = pack.defaultVersion): DependencyGraph {
+  const key = cacheKey(pack, version);
+  let graph = graphs.get(key);
+  if (!graph) {
+    graph = buildDependencyGraph(pack.getRuleNames(version), (name) => pack.getRuleExpr(name, version));
+    graphs.set(key, graph);
+  }
+  return graph;
+}
+
+/**
+ * Nonterminals referenced directly by a rule's body.
+ */
+export function getReferences(pack: GrammarPack, name: string, version = pack.defaultVersion): string[] {
+  return getRuleGraph(pack, version).references.get(name) ?? [];
+}
+
+/**
+ * Rules whose body references the given nonterminal directly.
+ */
+export function getReferencedBy(pack: GrammarPack, name: string, version = pack.defaultVersion): string[] {
+  return getRuleGraph(pack, version).referencedBy.get(name) ?? [];
+}
+
+/**
+ * Every rule reachable from `name` (its transitive references).
+ */
+export function getTransitiveReferences(pack: GrammarPack, name: string, version = pack.defaultVersion): string[] {
+  return transitiveClosure(getRuleGraph(pack, version).references, name);
+}
+
+/**
+ * Every rule that reaches `name` (its transitive users).
+ */
+export function getTransitiveReferencedBy(pack: GrammarPack, name: string, version = pack.defaultVersion): string[] {
+  return transitiveClosure(getRuleGraph(pack, version).referencedBy, name);
+}
+
+/**
+ * Whether a rule can be reached from one of the pack's start symbols.
+ */
+export function isReachable(pack: GrammarPack, name: string, version = pack.defaultVersion): boolean {
+  const key = cacheKey(pack, version);
+  let reached = reachable.get(key);
+  if (!reached) {
+    reached = reachableFrom(getRuleGraph(pack, version), pack.startRules);
+    reachable.set(key, reached);
+  }
+  return reached.has(name);
+}
+
+/**
+ * Defined rules that no start symbol reaches, in definition order.
+ */
+export function getUnreachableRules(pack: GrammarPack, version = pack.defaultVersion): string[] {
+  return getRuleGraph(pack, version).nodes.filter((name) => !isReachable(pack, name, version));
+}
+
+/**
+ * Strongly connected components of the graph, dependencies first.
+ */
+export function getStronglyConnectedComponents(pack: GrammarPack, version = pack.defaultVersion): string[][] {
+  const key = cacheKey(pack, version);
+  let sccs = components.get(key);
+  if (!sccs) {
+    sccs = stronglyConnectedComponents(getRuleGraph(pack, version));
+    components.set(key, sccs);
+  }
+  return sccs;
+}
+
+/**
+ * Components that form recursion cycles (mutually or self-recursive rules).
+ */
+export function getRecursiveComponents(pack: GrammarPack, version = pack.defaultVersion): string[][] {
+  const g = getRuleGraph(pack, version);
+  return getStronglyConnectedComponents(pack, version).filter((c) => isCyclicComponent(g, c));
+}
+
+/**
+ * The strongly connected component containing a rule.
+ */
+export function getComponentOf(pack: GrammarPack, name: string, version = pack.defaultVersion): string[] | undefined {
+  return getStronglyConnectedComponents(pack, version).find((c) => c.includes(name));
+}
@@ -0,0 +1,63 @@
+/**
+ * Full-text rule search for a grammar pack.
+ *
+ * Matches a query against what a rule says rather than what it is called: its
+ * EBNF body, the terminals of its diagram and the nonterminals it references.
+ * Each pack version's index is built once on first use.
+ */
+
+import { walkExpr } from "../../shared/grammar/grammarExpr";
+import type { GrammarPack } from "../../shared/grammar/grammarPack";
+import { getReferences } from "./ruleGraph";
+
+/** Lowercased searchable text of one rule. */
+interface RuleText {
+  ebnf: string;
+  terminals: string[];
+  references: string[];
+}
+
+// Cache keyed by `<pack>/<version>`
+const indexes = new Map<string, Map<string, RuleText>>();
+
+function getIndex(pack: GrammarPack, version: string): Map<string, RuleText> {
+  const key = `${pack.id}/${version}`;
+  let index = indexes.get(key);
+  if (!index) {
+    index = new Map();
+    for (const name of pack.getRuleNames(version)) {
+      const terminals: string[] = [];
+      walkExpr(pack.getRuleExpr(name, version)!, (node) => {
+        if (node.kind === "terminal") terminals.push(node.text.toLowerCase());
+      });
+      index.set(name, {
+        ebnf: getEbnfBody(pack.getEbnfDefinition(name, version) ?? "").toLowerCase(),
+        terminals,
+        references: getReferences(pack, name, version).map((r) => r.toLowerCase()),
+      });
+    }
+    indexes.set(key, index);
+  }
+  return index;
+}
+
+/**
+ * An EBNF definition without its `name:` header line, so a rule does not
+ * match on its own name.
+ */
+function getEbnfBody(definition: string): string {
+  const newline = definition.indexOf("\n");
+  return newline < 0 ? "" : definition.slice(newline + 1);
+}
+
+/**
+ * Whether a rule's EBNF body, terminals or referenced nonterminals contain
+ * `query` (case-insensitive). An empty query matches every rule.
+ */
+export function matchesRuleText(pack: GrammarPack, name: string, query: string, version = pack.defaultVersion): boolean {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  const text = getIndex(pack, version).get(name);
+  if (!text) return false;
+  return text.ebnf.includes(q) || text.terminals.some((t) => t.includes(q)) || text.references.some((r) => r.includes(q));
+}
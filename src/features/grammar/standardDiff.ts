@@ -0,0 +1,64 @@
+/**
+ * Differences in a grammar pack between two of its versions, per section,
+ * computed from the Since/Until tags on the rule factories.
+ */
+
+import type { GrammarPack } from "../../shared/grammar/grammarPack";
+import { diffVersions, isMissingIn, type VersionChange } from "../../shared/grammar/versionDiff";
+import { exprToDiagram } from "../../shared/railroad/exprToDiagram";
+
+/** Class on diagram parts that only the newer standard has. */
+export const DIFF_ADDED_CLASS = "diff-added";
+/** Class on diagram parts that only the older standard has. */
+export const DIFF_REMOVED_CLASS = "diff-removed";
+
+export interface SectionDiff {
+  section: string;
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+/**
+ * Orders two versions oldest first.
+ */
+export function orderStandards(pack: GrammarPack, a: string, b: string): [string, string] {
+  return pack.versions.indexOf(a) <= pack.versions.indexOf(b) ? [a, b] : [b, a];
+}
+
+/**
+ * How a rule differs from `from` to `to`.
+ */
+export function getRuleChange(pack: GrammarPack, name: string, from: string, to: string): VersionChange {
+  const expr = pack.getVersionedRuleExpr(name);
+  return expr ? diffVersions(expr, from, to, pack.versions).change : "unchanged";
+}
+
+/**
+ * Added, removed and changed rules from `from` to `to`, for every section with
+ * at least one difference.
+ */
+export function diffStandards(pack: GrammarPack, from: string, to: string): SectionDiff[] {
+  return pack.sections.map(({ id, rules }) => {
+    const diff: SectionDiff = { section: id, added: [], removed: [], changed: [] };
+    for (const name of rules) {
+      const change = getRuleChange(pack, name, from, to);
+      if (change !== "unchanged") diff[change].push(name);
+    }
+    return diff;
+  }).filter((d) => d.added.length + d.removed.length + d.changed.length > 0);
+}
+
+/**
+ * Diagram of a rule in `standard`, with the parts missing from `other`
+ * highlighted: as removed when `standard` is the older one, else as added.
+ */
+export function createDiffDiagram(pack: GrammarPack, name: string, standard: string, other: string): any {
+  const expr = pack.getRuleExpr(name, standard);
+  if (!expr) return undefined;
+  const marker = pack.versions.indexOf(standard) < pack.versions.indexOf(other) ? DIFF_REMOVED_CLASS : DIFF_ADDED_CLASS;
+  return exprToDiagram(expr, {
+    nonterminalHref: (n) => (pack.getRuleExpr(n, standard) ? `#rule-${n}` : undefined),
+    exprClass: (node) => (isMissingIn(node, other, pack.versions) ? marker : undefined),
+  });
+}
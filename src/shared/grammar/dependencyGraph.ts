@@ -0,0 +1,129 @@
+/**
+ * Nonterminal dependency graph.
+ *
+ * Nodes are rule names; an edge `A → B` means the body of `A` references the
+ * nonterminal `B`. References to undefined rules are kept as edges so callers
+ * can still see them (see validation.ts for reporting them).
+ */
+
+import type { GrammarExpr } from "./grammarExpr";
+import { referencedNames } from "./validation";
+
+export interface DependencyGraph {
+  /** Defined rule names, in definition order. */
+  nodes: string[];
+  /** Outgoing edges: rules referenced by each rule, in first-use order. */
+  references: Map<string, string[]>;
+  /** Incoming edges: rules whose body references each name, in definition order. */
+  referencedBy: Map<string, string[]>;
+}
+
+/**
+ * Builds the dependency graph for a set of rules.
+ */
+export function buildDependencyGraph(
+  ruleNames: readonly string[],
+  getRuleExpr: (name: string) => GrammarExpr | undefined
+): DependencyGraph {
+  const references = new Map<string, string[]>();
+  const referencedBy = new Map<string, string[]>();
+
+  for (const name of ruleNames) {
+    const expr = getRuleExpr(name);
+    const targets = expr ? referencedNames(expr) : [];
+    references.set(name, targets);
+    for (const target of targets) {
+      const users = referencedBy.get(target) ?? [];
+      users.push(name);
+      referencedBy.set(target, users);
+    }
+  }
+
+  return { nodes: [...ruleNames], references, referencedBy };
+}
+
+/**
+ * Every name reachable from `start` by following `edges` one or more times.
+ * `start` itself is included only when it lies on a cycle.
+ */
+export function transitiveClosure(edges: Map<string, string[]>, start: string): string[] {
+  const seen = new Set<string>();
+  const queue = [...(edges.get(start) ?? [])];
+  while (queue.length > 0) {
+    const next = queue.shift()!;
+    if (seen.has(next)) continue;
+    seen.add(next);
+    queue.push(...(edges.get(next) ?? []));
+  }
+  return [...seen];
+}
+
+/**
+ * Every name reachable from any of `starts`, including the starts themselves.
+ */
+export function reachableFrom(graph: DependencyGraph, starts: readonly string[]): Set<string> {
+  const reached = new Set(starts);
+  for (const start of starts) {
+    for (const name of transitiveClosure(graph.references, start)) reached.add(name);
+  }
+  return reached;
+}
+
+/**
+ * Strongly connected components (Tarjan). Components are returned in reverse
+ * topological order: a component only depends on components listed before it.
+ * Names within a component keep definition order.
+ */
+export function stronglyConnectedComponents(graph: DependencyGraph): string[][] {
+  const order = new Map(graph.nodes.map((name, i) => [name, i]));
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  let counter = 0;
+
+  const visit = (name: string) => {
+    index.set(name, counter);
+    lowLink.set(name, counter);
+    counter++;
+    stack.push(name);
+    onStack.add(name);
+
+    for (const target of graph.references.get(name) ?? []) {
+      if (!order.has(target)) continue;
+      if (!index.has(target)) {
+        visit(target);
+        lowLink.set(name, Math.min(lowLink.get(name)!, lowLink.get(target)!));
+      } else if (onStack.has(target)) {
+        lowLink.set(name, Math.min(lowLink.get(name)!, index.get(target)!));
+      }
+    }
+
+    if (lowLink.get(name) === index.get(name)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== name);
+      components.push(component.sort((a, b) => order.get(a)! - order.get(b)!));
+    }
+  };
+
+  for (const name of graph.nodes) {
+    if (!index.has(name)) visit(name);
+  }
+  return components;
+}
+
+/**
+ * True when the component is a cycle: several rules, or one rule that
+ * references itself.
+ */
+export function isCyclicComponent(graph: DependencyGraph, component: readonly string[]): boolean {
+  if (component.length > 1) return true;
+  const [name] = component;
+  return (graph.references.get(name) ?? []).includes(name);
+}
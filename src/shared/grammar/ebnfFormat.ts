@@ -0,0 +1,275 @@
+/**
+ * EBNF text generation from grammar expression trees.
+ *
+ * Two forms are supported:
+ *
+ * - `standard`: Annex A style. One alternative per line, `_opt` suffixes,
+ *   nested choices and optional groups expanded into separate alternatives,
+ *   and rule-level repetition turned back into left (or right) recursion.
+ *   Prose is written `? prose ?` so it reads back as prose.
+ * - `diagram`: a direct transcription of the diagram structure using the
+ *   extended notation `( a | b )`, `( … )_opt`, `( … )*`, `( … )+` and
+ *   `? prose ?`. Terminals that collide with this notation are quoted.
+ *
+ * The standard form stays in Annex A notation: a rule it cannot express (e.g.
+ * repetition in the middle of a sequence) has no standard form, and
+ * `formatRuleEbnf` returns undefined rather than mixing in the extended one.
+ */
+
+import { NONTERMINAL_SHAPE } from "./ebnfParser";
+import type { GrammarExpr } from "./grammarExpr";
+import { NonTerminal, Sequence } from "./grammarExpr";
+
+export type EbnfForm = "standard" | "diagram";
+
+const INDENT = "    ";
+
+/** Alternatives expanding to more variants than this have no standard form. */
+const MAX_VARIANTS = 32;
+
+/** Approximate line width used when wrapping `one of` lists. */
+const ONE_OF_WIDTH = 60;
+
+// --- Shared helpers --------------------------------------------------------------
+
+function isAtom(expr: GrammarExpr): boolean {
+  return expr.kind === "terminal" || expr.kind === "nonterminal";
+}
+
+/** Splits a rule body into its top-level alternatives (nested choices are flattened). */
+function topAlternatives(expr: GrammarExpr): GrammarExpr[] {
+  if (expr.kind === "choice") return expr.items.flatMap(topAlternatives);
+  return [expr];
+}
+
+/** Joins items back into one expression without wrapping a single item. */
+function sequenceOf(items: GrammarExpr[]): GrammarExpr {
+  return items.length === 1 ? items[0] : Sequence(...items);
+}
+
+/** Flattens nested sequences and stacks into a single item list. */
+function sequenceItems(expr: GrammarExpr): GrammarExpr[] {
+  if (expr.kind === "sequence" || expr.kind === "stack") return expr.items.flatMap(sequenceItems);
+  return [expr];
+}
+
+// --- Extended (diagram) notation ---------------------------------------------------
+
+const EXTENDED_META = new Set(["(", ")", "|", "?"]);
+
+const NO_RULES: ReadonlySet<string> = new Set();
+
+/**
+ * Whether a terminal would read back as something else in either notation: a
+ * nonterminal (it names a rule or looks like one, e.g. `operator` or `a-z`), an
+ * optional symbol, a quoted terminal or several symbols.
+ */
+function isAmbiguousTerminal(text: string, rules: ReadonlySet<string>): boolean {
+  const looksQuoted = text.length >= 3 && (text[0] === "'" || text[0] === '"') && text[0] === text[text.length - 1];
+  return rules.has(text) || NONTERMINAL_SHAPE.test(text) || text.endsWith("_opt") || looksQuoted || /\s/.test(text);
+}
+
+function quote(text: string): string {
+  return text.includes("'") ? `"${text}"` : `'${text}'`;
+}
+
+/**
+ * Quotes a terminal when it would otherwise be read as extended notation or as
+ * one of `rules`.
+ */
+export function quoteTerminal(text: string, rules: ReadonlySet<string> = NO_RULES): string {
+  const needsQuotes = EXTENDED_META.has(text) || text.startsWith(")") || isAmbiguousTerminal(text, rules);
+  return needsQuotes ? quote(text) : text;
+}
+
+function formatExtended(expr: GrammarExpr, rules: ReadonlySet<string>): string {
+  switch (expr.kind) {
+    case "terminal":
+      return quoteTerminal(expr.text, rules);
+    case "nonterminal":
+      return expr.name;
+    case "comment":
+      return `? ${expr.text} ?`;
+    case "sequence":
+    case "stack":
+      return sequenceItems(expr).map((item) => formatExtended(item, rules)).join(" ");
+    case "choice":
+      return `( ${formatGroupBody(expr, rules)} )`;
+    case "optional":
+      return isAtom(expr.item)
+        ? `${formatExtended(expr.item, rules)}_opt`
+        : `( ${formatGroupBody(expr.item, rules)} )_opt`;
+    case "zero-or-more":
+      return `( ${formatGroupBody(expr.item, rules)} )*`;
+    case "one-or-more":
+      return `( ${formatGroupBody(expr.item, rules)} )+`;
+  }
+}
+
+function formatGroupBody(expr: GrammarExpr, rules: ReadonlySet<string>): string {
+  if (expr.kind === "choice") return topAlternatives(expr).map((a) => formatExtended(a, rules)).join(" | ");
+  return formatExtended(expr, rules);
+}
+
+/**
+ * Formats a single expression in the extended (diagram) notation, e.g. for
+ * quoting a branch in a report.
+ */
+export function formatExpr(expr: GrammarExpr): string {
+  return formatExtended(expr, NO_RULES);
+}
+
+// --- Standard (Annex A) notation ---------------------------------------------------
+
+function isRepetition(expr: GrammarExpr): expr is Extract<GrammarExpr, { kind: "zero-or-more" | "one-or-more" }> {
+  return expr.kind === "zero-or-more" || expr.kind === "one-or-more";
+}
+
+/**
+ * Rewrites rule-level repetition back into recursion, the way Annex A writes
+ * it. Every alternative must end (or else start) with the same repeated Z:
+ *
+ *   R: P Z* | Q Z+   →  R: P | Q Z | R Z
+ *   R: Z* S | Z+ T   →  R: S | Z T | Z R
+ *
+ * The alternatives are returned unchanged when there is no such Z or when
+ * dropping `Z*` would leave an empty alternative.
+ */
+function recursify(name: string, alternatives: GrammarExpr[]): GrammarExpr[] {
+  return recursifyAt(name, alternatives, "end") ?? recursifyAt(name, alternatives, "start") ?? alternatives;
+}
+
+function recursifyAt(name: string, alternatives: GrammarExpr[], side: "start" | "end"): GrammarExpr[] | undefined {
+  let repeated: GrammarExpr | undefined;
+  const bases: GrammarExpr[] = [];
+
+  for (const alternative of alternatives) {
+    const items = sequenceItems(alternative);
+    const edge = side === "end" ? items[items.length - 1] : items[0];
+    if (!isRepetition(edge)) return undefined;
+    if (repeated && JSON.stringify(edge.item) !== JSON.stringify(repeated)) return undefined;
+    repeated = edge.item;
+
+    const rest = side === "end" ? items.slice(0, -1) : items.slice(1);
+    const base = edge.kind === "zero-or-more" ? rest : side === "end" ? [...rest, edge.item] : [edge.item, ...rest];
+    if (base.length === 0) return undefined;
+    bases.push(...topAlternatives(sequenceOf(base)));
+  }
+
+  if (!repeated) return undefined;
+  const self = NonTerminal(name);
+  return [...bases, side === "end" ? Sequence(self, repeated) : Sequence(repeated, self)];
+}
+
+/**
+ * Expands an expression into Annex A token sequences, or returns undefined when
+ * the expansion is not expressible (nested repetition) or grows too large.
+ */
+function expandStandard(expr: GrammarExpr, rules: ReadonlySet<string>): string[][] | undefined {
+  switch (expr.kind) {
+    case "terminal":
+      return [[isAmbiguousTerminal(expr.text, rules) ? quote(expr.text) : expr.text]];
+    case "nonterminal":
+      return [[expr.name]];
+    case "comment":
+      return [[`? ${expr.text} ?`]];
+    case "sequence":
+    case "stack": {
+      let variants: string[][] = [[]];
+      for (const item of expr.items) {
+        const expanded = expandStandard(item, rules);
+        if (!expanded) return undefined;
+        const next: string[][] = [];
+        for (const head of variants) {
+          for (const tail of expanded) next.push([...head, ...tail]);
+        }
+        if (next.length > MAX_VARIANTS) return undefined;
+        variants = next;
+      }
+      return variants;
+    }
+    case "choice": {
+      const variants: string[][] = [];
+      for (const item of expr.items) {
+        const expanded = expandStandard(item, rules);
+        if (!expanded) return undefined;
+        variants.push(...expanded);
+      }
+      return variants.length > MAX_VARIANTS ? undefined : variants;
+    }
+    case "optional": {
+      if (isAtom(expr.item)) return [[`${expandStandard(expr.item, rules)![0][0]}_opt`]];
+      const expanded = expandStandard(expr.item, rules);
+      if (!expanded) return undefined;
+      return [[], ...expanded];
+    }
+    case "zero-or-more":
+    case "one-or-more":
+      return undefined;
+  }
+}
+
+/**
+ * Annex A lines for a rule, or undefined when an alternative cannot be written
+ * without the extended notation or would be empty.
+ */
+function standardLines(name: string, expr: GrammarExpr, rules: ReadonlySet<string>): string[] | undefined {
+  const lines: string[] = [];
+  for (const alternative of recursify(name, topAlternatives(expr))) {
+    const variants = expandStandard(alternative, rules);
+    if (!variants || variants.some((v) => v.length === 0)) return undefined;
+    for (const variant of variants) lines.push(variant.join(" "));
+  }
+  return lines.filter((line, i) => lines.indexOf(line) === i);
+}
+
+function isOneOfList(expr: GrammarExpr): boolean {
+  const alternatives = topAlternatives(expr);
+  return alternatives.length >= 3 && alternatives.every((a) => a.kind === "terminal" && !/\s/.test(a.text));
+}
+
+function wrapOneOf(tokens: string[]): string[] {
+  const lines: string[] = [];
+  let current = "";
+  for (const token of tokens) {
+    if (current && current.length + 1 + token.length > ONE_OF_WIDTH) {
+      lines.push(current);
+      current = token;
+    } else {
+      current = current ? `${current} ${token}` : token;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+// --- Public API ----------------------------------------------------------------------
+
+/**
+ * Formats one rule as EBNF text: a `name:` header followed by indented alternatives.
+ * Terminals spelled like one of `ruleNames`, or shaped like a nonterminal, are
+ * quoted so they read back as terminals. Returns undefined when the rule has no
+ * standard form (the diagram form always exists).
+ */
+export function formatRuleEbnf(
+  name: string,
+  expr: GrammarExpr,
+  form: EbnfForm = "standard",
+  ruleNames: Iterable<string> = []
+): string | undefined {
+  const rules = new Set(ruleNames);
+  let header = `${name}:`;
+  let lines: string[] | undefined;
+
+  if (form === "diagram") {
+    lines = topAlternatives(expr).map((a) => formatExtended(a, rules));
+  } else if (isOneOfList(expr)) {
+    header = `${name}: one of`;
+    lines = wrapOneOf(topAlternatives(expr).map((a) => (a.kind === "terminal" ? a.text : "")));
+  } else {
+    lines = standardLines(name, expr, rules);
+  }
+
+  if (!lines) return undefined;
+  return [header, ...lines.map((line) => INDENT + line)].join("\n");
+}
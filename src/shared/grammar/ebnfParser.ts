@@ -0,0 +1,457 @@
+/**
+ * Parser for the Annex A EBNF notation used by the grammar summary.
+ *
+ *   rule-name:
+ *       alternative one
+ *       alternative two_opt
+ *   other-rule: one of
+ *       a b c
+ *
+ * A rule header starts in column 1; its alternatives are the indented lines
+ * that follow, and a line indented deeper than the first alternative continues
+ * the alternative above it. Symbols are whitespace separated. A `_opt` suffix marks a
+ * symbol as optional, symbols naming a rule (or shaped like one, e.g.
+ * `import-keyword`) are nonterminals, and everything else is a terminal.
+ * Terminals may also be quoted ('(' or "'") when they would be ambiguous.
+ * Lines of prose such as "any member of the translation character set" (wrapped
+ * like any other alternative), and prose written as `? … ?`, become comment
+ * placeholders.
+ *
+ * The `extended` notation additionally understands the grouping syntax emitted
+ * by `formatRuleEbnf(…, "diagram")`: `( a | b )`, `( … )_opt`, `( … )*` and
+ * `( … )+`.
+ */
+
+import type { GrammarExpr } from "./grammarExpr";
+import { Choice, Comment, NonTerminal, OneOrMore, Optional, Sequence, Terminal, ZeroOrMore } from "./grammarExpr";
+
+export type EbnfNotation = "annex-a" | "extended";
+
+export interface EbnfParseOptions {
+  notation?: EbnfNotation;
+  /** Rule names defined elsewhere that should be treated as nonterminals. */
+  knownRules?: Iterable<string>;
+  /**
+   * Per rule, spellings read as one terminal at the start of an Annex A
+   * alternative or `one of` entry: what Annex A tells apart only by typeface,
+   * such as a keyword spelled like a rule (C++ `operator`) or an operator
+   * written with a space (`( )`). Spaces are dropped from the terminal.
+   */
+  ruleTerminals?: Readonly<Partial<Record<string, readonly string[]>>>;
+}
+
+export interface EbnfDiagnostic {
+  severity: "error" | "warning";
+  message: string;
+  /** 1-based line within the parsed source. */
+  line: number;
+  /** 1-based column within the parsed source. */
+  column: number;
+}
+
+export type EbnfTokenKind = "rule-name" | "keyword" | "nonterminal" | "terminal" | "prose" | "operator";
+
+/** A classified span of the source, for highlighting and navigation. */
+export interface EbnfToken {
+  kind: EbnfTokenKind;
+  text: string;
+  line: number;
+  column: number;
+  /** Set when the symbol carries an `_opt` suffix (included in `text`). */
+  optional?: boolean;
+  /** Terminal text or nonterminal name, without quotes or `_opt`. */
+  value?: string;
+}
+
+export interface ParsedEbnfRule {
+  name: string;
+  oneOf: boolean;
+  /** One expression per alternative line (or per symbol for `one of`). */
+  alternatives: GrammarExpr[];
+  /** The whole rule body: a choice over the alternatives, or the only alternative. */
+  expr: GrammarExpr;
+  line: number;
+  column: number;
+}
+
+export interface ParsedEbnfGrammar {
+  rules: ParsedEbnfRule[];
+  tokens: EbnfToken[];
+  diagnostics: EbnfDiagnostic[];
+}
+
+const HEADER_PATTERN = /^([A-Za-z_][\w-]*)\s*:(.*)$/;
+
+/** Hyphenated lowercase words are Annex A nonterminals even when undefined here. */
+export const NONTERMINAL_SHAPE = /^[a-z][a-z0-9_]*(-[a-z0-9_]+)+$/;
+
+/** First words of the prose placeholders used in Annex A. */
+const PROSE_LEADERS = new Set(["any", "each", "an", "a", "the"]);
+
+const OPT_SUFFIX = "_opt";
+
+const GROUP_CLOSERS = new Set([")", ")_opt", ")*", ")+"]);
+
+interface RawToken {
+  text: string;
+  line: number;
+  column: number;
+}
+
+interface RawLine {
+  text: string;
+  line: number;
+}
+
+function splitTokens(text: string, line: number): RawToken[] {
+  const tokens: RawToken[] = [];
+  const pattern = /\S+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    tokens.push({ text: match[0], line, column: match.index + 1 });
+  }
+  return tokens;
+}
+
+function indentOf(text: string): number {
+  return text.length - text.trimStart().length;
+}
+
+function isQuoted(text: string): boolean {
+  return text.length >= 3 && (text[0] === "'" || text[0] === '"') && text[text.length - 1] === text[0];
+}
+
+/** Index of the `?` closing the prose opened at `tokens[start]`, or -1. */
+function closingProse(tokens: RawToken[], start: number): number {
+  for (let i = start + 1; i < tokens.length; i++) {
+    if (tokens[i].text === "?") return i;
+  }
+  return -1;
+}
+
+function sequenceOf(items: GrammarExpr[]): GrammarExpr {
+  return items.length === 1 ? items[0] : Sequence(...items);
+}
+
+function choiceOf(items: GrammarExpr[]): GrammarExpr {
+  return items.length === 1 ? items[0] : Choice(0, ...items);
+}
+
+class Parser {
+  private readonly notation: EbnfNotation;
+  private readonly ruleNames: Set<string>;
+  private readonly ruleTerminals: Readonly<Partial<Record<string, readonly string[]>>>;
+  readonly tokens: EbnfToken[] = [];
+  readonly diagnostics: EbnfDiagnostic[] = [];
+
+  constructor(options: EbnfParseOptions, definedNames: Iterable<string>) {
+    this.notation = options.notation ?? "annex-a";
+    this.ruleNames = new Set([...(options.knownRules ?? []), ...definedNames]);
+    this.ruleTerminals = options.ruleTerminals ?? {};
+  }
+
+  error(message: string, line: number, column: number): void {
+    this.diagnostics.push({ severity: "error", message, line, column });
+  }
+
+  warn(message: string, line: number, column: number): void {
+    this.diagnostics.push({ severity: "warning", message, line, column });
+  }
+
+  /** Classifies one symbol (terminal or nonterminal, with optional `_opt`). */
+  symbol(token: RawToken): GrammarExpr | undefined {
+    let text = token.text;
+    let optional = false;
+    if (text.length > OPT_SUFFIX.length && text.endsWith(OPT_SUFFIX)) {
+      text = text.slice(0, -OPT_SUFFIX.length);
+      optional = true;
+    } else if (text === OPT_SUFFIX) {
+      this.error("`_opt` must follow a symbol", token.line, token.column);
+      return undefined;
+    }
+
+    let expr: GrammarExpr;
+    if (isQuoted(text)) {
+      expr = Terminal(text.slice(1, -1));
+      this.tokens.push({ ...token, kind: "terminal", optional, value: text.slice(1, -1) });
+    } else if (this.ruleNames.has(text) || NONTERMINAL_SHAPE.test(text)) {
+      if (!this.ruleNames.has(text)) {
+        this.warn(`"${text}" looks like a nonterminal but no rule defines it`, token.line, token.column);
+      }
+      expr = NonTerminal(text);
+      this.tokens.push({ ...token, kind: "nonterminal", optional, value: text });
+    } else {
+      expr = Terminal(text);
+      this.tokens.push({ ...token, kind: "terminal", optional, value: text });
+    }
+    return optional ? Optional(expr) : expr;
+  }
+
+  isProse(tokens: RawToken[]): boolean {
+    if (this.notation !== "annex-a" || tokens.length < 3) return false;
+    const first = tokens[0].text;
+    return PROSE_LEADERS.has(first) && !this.ruleNames.has(first);
+  }
+
+  /** Records the `? prose ?` span `tokens[start..end]` and returns its placeholder. */
+  prose(tokens: RawToken[], start: number, end: number): GrammarExpr {
+    const words = tokens.slice(start + 1, end).map((t) => t.text).join(" ");
+    this.tokens.push({
+      kind: "prose",
+      text: tokens.slice(start, end + 1).map((t) => t.text).join(" "),
+      line: tokens[start].line,
+      column: tokens[start].column,
+      value: words,
+    });
+    return Comment(words);
+  }
+
+  /**
+   * Reads one of `spellings` at `tokens[start]` as a terminal; returns how many
+   * tokens it spans, or 0.
+   */
+  spelledTerminal(tokens: RawToken[], start: number, spellings: readonly string[], into: GrammarExpr[]): number {
+    for (const spelling of spellings) {
+      const parts = spelling.split(/\s+/);
+      if (!parts.every((part, i) => tokens[start + i]?.text === part)) continue;
+      const value = parts.join("");
+      this.tokens.push({ ...tokens[start], kind: "terminal", text: spelling, value });
+      into.push(Terminal(value));
+      return parts.length;
+    }
+    return 0;
+  }
+
+  /**
+   * Parses an alternative line in Annex A notation. A `?` opens `? prose ?`
+   * only when a closing `?` follows; a lone `?` is the conditional operator.
+   */
+  annexAlternative(tokens: RawToken[], spellings: readonly string[]): GrammarExpr | undefined {
+    const items: GrammarExpr[] = [];
+    for (let pos = this.spelledTerminal(tokens, 0, spellings, items); pos < tokens.length; pos++) {
+      const end = tokens[pos].text === "?" ? closingProse(tokens, pos) : -1;
+      if (end > 0) {
+        items.push(this.prose(tokens, pos, end));
+        pos = end;
+        continue;
+      }
+      const expr = this.symbol(tokens[pos]);
+      if (expr) items.push(expr);
+    }
+    return items.length > 0 ? sequenceOf(items) : undefined;
+  }
+
+  /** Parses an alternative line in extended notation (groups, `|`, `? prose ?`). */
+  extendedAlternative(tokens: RawToken[]): GrammarExpr | undefined {
+    let pos = 0;
+
+    const parseGroup = (depth: number, opener?: RawToken): GrammarExpr | undefined => {
+      const branches: GrammarExpr[][] = [[]];
+      while (pos < tokens.length) {
+        const token = tokens[pos];
+        if (token.text === "(") {
+          this.tokens.push({ ...token, kind: "operator" });
+          pos++;
+          const inner = parseGroup(depth + 1, token);
+          if (inner) branches[branches.length - 1].push(inner);
+        } else if (GROUP_CLOSERS.has(token.text)) {
+          if (depth === 0) {
+            this.error(`Unmatched "${token.text}"`, token.line, token.column);
+            pos++;
+            continue;
+          }
+          this.tokens.push({ ...token, kind: "operator", optional: token.text === ")_opt" });
+          pos++;
+          const nonEmpty = branches.filter((b) => b.length > 0);
+          if (nonEmpty.length < branches.length) {
+            this.error("Empty branch in group", token.line, token.column);
+          }
+          if (nonEmpty.length === 0) return undefined;
+          const body = choiceOf(nonEmpty.map(sequenceOf));
+          if (token.text === ")_opt") return Optional(body);
+          if (token.text === ")*") return ZeroOrMore(body);
+          if (token.text === ")+") return OneOrMore(body);
+          return body;
+        } else if (token.text === "|") {
+          this.tokens.push({ ...token, kind: "operator" });
+          branches.push([]);
+          pos++;
+        } else if (token.text === "?") {
+          const end = closingProse(tokens, pos);
+          if (end < 0) {
+            this.error("Unterminated `? prose ?`", token.line, token.column);
+            return undefined;
+          }
+          branches[branches.length - 1].push(this.prose(tokens, pos, end));
+          pos = end + 1;
+        } else {
+          const expr = this.symbol(token);
+          if (expr) branches[branches.length - 1].push(expr);
+          pos++;
+        }
+      }
+      if (opener) {
+        this.error('Unclosed "("', opener.line, opener.column);
+        return undefined;
+      }
+      const nonEmpty = branches.filter((b) => b.length > 0);
+      return nonEmpty.length > 0 ? choiceOf(nonEmpty.map(sequenceOf)) : undefined;
+    };
+
+    return parseGroup(0);
+  }
+
+  rule(header: RawLine, body: RawLine[]): ParsedEbnfRule | undefined {
+    const match = HEADER_PATTERN.exec(header.text)!;
+    const name = match[1];
+    const rest = match[2].trim();
+    const oneOf = rest === "one of";
+
+    this.tokens.push({ kind: "rule-name", text: name, line: header.line, column: 1, value: name });
+    if (oneOf) {
+      const column = header.text.indexOf("one of", name.length) + 1;
+      this.tokens.push({ kind: "keyword", text: "one of", line: header.line, column });
+    } else if (rest) {
+      const column = header.text.indexOf(rest, name.length) + 1;
+      this.error(`Unexpected text after rule header: "${rest}"`, header.line, column);
+    }
+
+    if (body.length === 0) {
+      this.error(`Rule "${name}" has no alternatives`, header.line, 1);
+      return undefined;
+    }
+
+    // A line indented deeper than the first alternative continues the previous one.
+    const baseIndent = indentOf(body[0].text);
+    const logicalLines: RawLine[][] = [];
+    for (const line of body) {
+      if (logicalLines.length > 0 && indentOf(line.text) > baseIndent) {
+        logicalLines[logicalLines.length - 1].push(line);
+      } else {
+        logicalLines.push([line]);
+      }
+    }
+
+    const alternatives: GrammarExpr[] = [];
+    const spellings = (Object.prototype.hasOwnProperty.call(this.ruleTerminals, name) && this.ruleTerminals[name]) || [];
+    for (let i = 0; i < logicalLines.length; i++) {
+      const tokens = logicalLines[i].flatMap((l) => splitTokens(l.text, l.line));
+
+      if (oneOf) {
+        for (let pos = 0; pos < tokens.length; pos++) {
+          const spelled = this.spelledTerminal(tokens, pos, spellings, alternatives);
+          if (spelled > 0) {
+            pos += spelled - 1;
+            continue;
+          }
+          const token = tokens[pos];
+          const value = isQuoted(token.text) ? token.text.slice(1, -1) : token.text;
+          this.tokens.push({ ...token, kind: "terminal", value });
+          alternatives.push(Terminal(value));
+        }
+        continue;
+      }
+
+      // Prose wraps like any alternative: deeper-indented lines continue it
+      if (this.isProse(tokens)) {
+        const proseLines = logicalLines[i];
+        const prose = proseLines.map((l) => l.text.trim()).join(" ");
+        for (const l of proseLines) {
+          this.tokens.push({ kind: "prose", text: l.text.trim(), line: l.line, column: indentOf(l.text) + 1, value: prose });
+        }
+        alternatives.push(Comment(prose));
+        continue;
+      }
+
+      const alternative =
+        this.notation === "extended" ? this.extendedAlternative(tokens) : this.annexAlternative(tokens, spellings);
+      if (alternative) alternatives.push(alternative);
+    }
+
+    return {
+      name,
+      oneOf,
+      alternatives,
+      expr: choiceOf(alternatives),
+      line: header.line,
+      column: 1,
+    };
+  }
+}
+
+/**
+ * Guesses the notation of EBNF text: `extended` when it uses a construct
+ * Annex A never does (`)_opt`, `)*` or `)+`, or `|` inside parentheses),
+ * `annex-a` otherwise. `one of` lists are skipped, since their parentheses and
+ * bars are terminals.
+ */
+export function detectEbnfNotation(source: string): EbnfNotation {
+  let inOneOf = false;
+  for (const text of source.split(/\r?\n/)) {
+    const header = /^\s/.test(text) ? null : HEADER_PATTERN.exec(text);
+    if (header) inOneOf = header[2].trim() === "one of";
+    if (header || inOneOf) continue;
+
+    let depth = 0;
+    for (const token of text.trim().split(/\s+/)) {
+      if (token !== ")" && GROUP_CLOSERS.has(token)) return "extended";
+      if (token === "(") depth++;
+      else if (token === ")") depth = Math.max(0, depth - 1);
+      else if (token === "|" && depth > 0) return "extended";
+    }
+  }
+  return "annex-a";
+}
+
+/**
+ * Parses EBNF text containing one or more rules.
+ * Never throws: problems are reported as diagnostics with line/column positions.
+ */
+export function parseEbnf(source: string, options: EbnfParseOptions = {}): ParsedEbnfGrammar {
+  const lines = source.split(/\r?\n/).map((text, i) => ({ text, line: i + 1 }));
+
+  // First pass: find rule headers so forward references classify as nonterminals.
+  const groups: { header: RawLine; body: RawLine[] }[] = [];
+  const orphanLines: RawLine[] = [];
+  for (const line of lines) {
+    if (!line.text.trim()) continue;
+    const indented = /^\s/.test(line.text);
+    if (!indented && HEADER_PATTERN.test(line.text)) {
+      groups.push({ header: line, body: [] });
+    } else if (indented && groups.length > 0) {
+      groups[groups.length - 1].body.push(line);
+    } else {
+      orphanLines.push(line);
+    }
+  }
+
+  const parser = new Parser(
+    options,
+    groups.map((g) => HEADER_PATTERN.exec(g.header.text)![1])
+  );
+
+  for (const line of orphanLines) {
+    const column = indentOf(line.text) + 1;
+    const message = /^\s/.test(line.text)
+      ? "Alternative appears before any rule header"
+      : 'Expected a rule header ("name:") in column 1';
+    parser.error(message, line.line, column);
+  }
+
+  const rules: ParsedEbnfRule[] = [];
+  const seen = new Set<string>();
+  for (const { header, body } of groups) {
+    const rule = parser.rule(header, body);
+    if (!rule) continue;
+    if (seen.has(rule.name)) {
+      parser.error(`Rule "${rule.name}" is defined more than once`, header.line, 1);
+      continue;
+    }
+    seen.add(rule.name);
+    rules.push(rule);
+  }
+
+  parser.tokens.sort((a, b) => a.line - b.line || a.column - b.column);
+  parser.diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+  return { rules, tokens: parser.tokens, diagnostics: parser.diagnostics };
+}
@@ -0,0 +1,178 @@
+/**
+ * Structural equivalence between two grammar expressions for the same rule,
+ * typically the diagram factory and the parsed Annex A EBNF.
+ *
+ * Both sides are normalized into a set of flat alternatives ("sum of
+ * products") so that presentational rewrites compare equal:
+ *
+ * - `_opt` / `Optional(x)` become two alternatives (with and without `x`)
+ * - nested choices and sequences are distributed
+ * - `OneOrMore(x)` becomes `x ZeroOrMore(x)`
+ * - left recursion `R: a | R b` becomes `a ZeroOrMore(b)` (what `chain` draws)
+ * - right recursion `R: a | b R` becomes `ZeroOrMore(b) a` (or `b ZeroOrMore(b)`
+ *   when `a` and `b` coincide, matching `OneOrMore(b)`)
+ * - `ZeroOrMore(b) b` is written `b ZeroOrMore(b)` wherever it occurs, so
+ *   `R: b c | b R`, `OneOrMore(b) c` and `ZeroOrMore(b) b c` agree
+ * - character-range terminals such as `a-z` expand to their members
+ * - prose placeholders compare equal regardless of wording; a placeholder
+ *   reading "empty" is the empty sequence
+ *
+ * Alternatives are compared as sets, so choice order does not matter.
+ */
+
+import type { GrammarExpr } from "./grammarExpr";
+
+/** One normalized alternative: a list of symbol keys. */
+type Alternative = string[];
+
+export interface RuleComparison {
+  name: string;
+  status: "equal" | "different" | "too-complex";
+  /** Normalized alternatives only the first (diagram) side accepts. */
+  leftOnly: string[];
+  /** Normalized alternatives only the second (EBNF) side accepts. */
+  rightOnly: string[];
+}
+
+/** Normalization gives up beyond this many alternatives per rule. */
+const MAX_ALTERNATIVES = 4096;
+
+const PROSE = "<prose>";
+
+class TooComplex extends Error {}
+
+function terminalKey(text: string): string {
+  return `'${text}'`;
+}
+
+/** Expands `a-z`, `0-9`, `A-F`, … into their members; other terminals are unchanged. */
+function expandRange(text: string): string[] {
+  const match = /^([0-9a-zA-Z])-([0-9a-zA-Z])$/.exec(text);
+  if (!match) return [text];
+  const from = match[1].charCodeAt(0);
+  const to = match[2].charCodeAt(0);
+  const sameClass = (re: RegExp) => re.test(match[1]) && re.test(match[2]);
+  if (from >= to || !(sameClass(/[0-9]/) || sameClass(/[a-z]/) || sameClass(/[A-Z]/))) return [text];
+  const members: string[] = [];
+  for (let c = from; c <= to; c++) members.push(String.fromCharCode(c));
+  return members;
+}
+
+function dedupe(alternatives: Alternative[]): Alternative[] {
+  const seen = new Map<string, Alternative>();
+  for (const alt of alternatives) seen.set(alt.join(" "), alt);
+  return [...seen.keys()].sort().map((k) => seen.get(k)!);
+}
+
+function checkSize(alternatives: Alternative[]): Alternative[] {
+  if (alternatives.length > MAX_ALTERNATIVES) throw new TooComplex();
+  return alternatives;
+}
+
+function repetitionKey(alternatives: Alternative[]): string {
+  return `( ${dedupe(alternatives).map((a) => a.join(" ")).join(" | ")} )*`;
+}
+
+function product(left: Alternative[], right: Alternative[]): Alternative[] {
+  const out: Alternative[] = [];
+  for (const l of left) for (const r of right) out.push([...l, ...r]);
+  return checkSize(out);
+}
+
+function normalize(expr: GrammarExpr): Alternative[] {
+  switch (expr.kind) {
+    case "terminal":
+      return expandRange(expr.text).map((t) => [terminalKey(t)]);
+    case "nonterminal":
+      return [[expr.name]];
+    case "comment":
+      return expr.text.trim() === "empty" ? [[]] : [[PROSE]];
+    case "sequence":
+    case "stack":
+      return expr.items.reduce<Alternative[]>((acc, item) => product(acc, normalize(item)), [[]]);
+    case "choice":
+      return checkSize(dedupe(expr.items.flatMap(normalize)));
+    case "optional":
+      return dedupe([[], ...normalize(expr.item)]);
+    case "zero-or-more":
+      return [[repetitionKey(normalize(expr.item))]];
+    case "one-or-more": {
+      const item = normalize(expr.item);
+      return product(item, [[repetitionKey(item)]]);
+    }
+  }
+}
+
+/**
+ * Rewrites direct left recursion (`R β`) into trailing repetition, or failing
+ * that, direct right recursion (`β R`) into leading repetition.
+ */
+function removeDirectRecursion(name: string, alternatives: Alternative[]): Alternative[] {
+  const left = alternatives.filter((a) => a.length > 1 && a[0] === name);
+  if (left.length > 0) {
+    const bases = alternatives.filter((a) => !(a.length > 1 && a[0] === name));
+    const rep = repetitionKey(left.map((a) => a.slice(1)));
+    return dedupe(bases.map((a) => [...a, rep]));
+  }
+
+  const right = alternatives.filter((a) => a.length > 1 && a[a.length - 1] === name);
+  if (right.length > 0) {
+    const bases = alternatives.filter((a) => !(a.length > 1 && a[a.length - 1] === name));
+    const prefixes = right.map((a) => a.slice(0, -1));
+    const rep = repetitionKey(prefixes);
+    // `R: b | b R` is `b+`; write it the way OneOrMore normalizes (`b b*`).
+    if (repetitionKey(bases) === rep) return dedupe(bases.map((a) => [...a, rep]));
+    return dedupe(bases.map((a) => [rep, ...a]));
+  }
+
+  return alternatives;
+}
+
+/** Moves each `( b )*` after a `b` that follows it: `b* b c` becomes `b b* c`. */
+function repetitionsLast(alternative: Alternative): Alternative {
+  const out = [...alternative];
+  for (let i = 0; i < out.length; i++) {
+    for (let n = 1; i + n < out.length; n++) {
+      const item = out.slice(i + 1, i + 1 + n);
+      if (repetitionKey([item]) !== out[i]) continue;
+      out.splice(i, n + 1, ...item, out[i]);
+      break;
+    }
+  }
+  return out;
+}
+
+/**
+ * Normalizes a rule body into sorted, flat alternatives (see module docs).
+ * Throws if the expansion exceeds the size limit.
+ */
+function normalizeRule(name: string, expr: GrammarExpr): Alternative[] {
+  return dedupe(removeDirectRecursion(name, dedupe(normalize(expr))).map(repetitionsLast));
+}
+
+/**
+ * Compares two expressions for the same rule after normalization.
+ */
+export function compareRuleExprs(name: string, left: GrammarExpr, right: GrammarExpr): RuleComparison {
+  let l: Alternative[];
+  let r: Alternative[];
+  try {
+    l = normalizeRule(name, left);
+    r = normalizeRule(name, right);
+  } catch (e) {
+    if (e instanceof TooComplex) return { name, status: "too-complex", leftOnly: [], rightOnly: [] };
+    throw e;
+  }
+
+  const lKeys = new Set(l.map((a) => a.join(" ")));
+  const rKeys = new Set(r.map((a) => a.join(" ")));
+  const leftOnly = [...lKeys].filter((k) => !rKeys.has(k));
+  const rightOnly = [...rKeys].filter((k) => !lKeys.has(k));
+
+  return {
+    name,
+    status: leftOnly.length === 0 && rightOnly.length === 0 ? "equal" : "different",
+    leftOnly,
+    rightOnly,
+  };
+}
@@ -0,0 +1,210 @@
+/**
+ * Nullable, FIRST and FOLLOW sets computed directly on grammar expression trees.
+ *
+ * The repetition structure is understood as-is (no rewrite to plain BNF):
+ * `Optional` and `ZeroOrMore` are nullable, `OneOrMore` is as nullable as its
+ * item, and a repeated item can be followed by its own FIRST set.
+ *
+ * Set members are terminal keys (see `symbolKey`). `Comment` placeholders are
+ * opaque terminals keyed by their prose, e.g. `? any member of the basic
+ * character set ?`.
+ *
+ * Grammars with a separate lexical level can name their lexical rules: inside
+ * those rules everything is analyzed down to characters, but from any other
+ * rule a reference to one is a single token keyed `<name>` (see `tokenKey`).
+ */
+
+import type { GrammarExpr } from "./grammarExpr";
+
+/** FOLLOW member marking the end of input after a start symbol. */
+export const END_OF_INPUT = "<eof>";
+
+export interface GrammarAnalysis {
+  nullable: Set<string>;
+  first: Map<string, Set<string>>;
+  follow: Map<string, Set<string>>;
+  /**
+   * Rules that read as single tokens in the current context. Empty while
+   * analyzing a lexical rule's own body.
+   */
+  tokens: ReadonlySet<string>;
+}
+
+export interface AnalyzeGrammarOptions {
+  /** Rules whose FOLLOW set contains `END_OF_INPUT`. */
+  startRules?: readonly string[];
+  /** Lexical-level rules, seen as tokens from every other rule. */
+  lexicalRules?: readonly string[];
+}
+
+/**
+ * Set key for a terminal or prose placeholder.
+ */
+export function symbolKey(expr: GrammarExpr & { kind: "terminal" | "comment" }): string {
+  return expr.kind === "terminal" ? expr.text : `? ${expr.text} ?`;
+}
+
+/**
+ * Set key for a reference to a lexical rule seen as a token.
+ */
+export function tokenKey(name: string): string {
+  return `<${name}>`;
+}
+
+function addAll(target: Set<string>, source: Iterable<string>): boolean {
+  const before = target.size;
+  for (const item of source) target.add(item);
+  return target.size !== before;
+}
+
+/**
+ * Whether an expression derives the empty string.
+ */
+export function isNullableExpr(analysis: Pick<GrammarAnalysis, "nullable" | "tokens">, expr: GrammarExpr): boolean {
+  switch (expr.kind) {
+    case "terminal":
+    case "comment":
+      return false;
+    case "nonterminal":
+      return !analysis.tokens.has(expr.name) && analysis.nullable.has(expr.name);
+    case "sequence":
+    case "stack":
+      return expr.items.every((item) => isNullableExpr(analysis, item));
+    case "choice":
+      return expr.items.some((item) => isNullableExpr(analysis, item));
+    case "optional":
+    case "zero-or-more":
+      return true;
+    case "one-or-more":
+      return isNullableExpr(analysis, expr.item);
+  }
+}
+
+/**
+ * Terminals that can begin a string derived from an expression.
+ */
+export function firstOfExpr(
+  analysis: Pick<GrammarAnalysis, "nullable" | "first" | "tokens">,
+  expr: GrammarExpr
+): Set<string> {
+  switch (expr.kind) {
+    case "terminal":
+    case "comment":
+      return new Set([symbolKey(expr)]);
+    case "nonterminal":
+      if (analysis.tokens.has(expr.name)) return new Set([tokenKey(expr.name)]);
+      return new Set(analysis.first.get(expr.name) ?? []);
+    case "sequence":
+    case "stack": {
+      const out = new Set<string>();
+      for (const item of expr.items) {
+        addAll(out, firstOfExpr(analysis, item));
+        if (!isNullableExpr(analysis, item)) break;
+      }
+      return out;
+    }
+    case "choice": {
+      const out = new Set<string>();
+      for (const item of expr.items) addAll(out, firstOfExpr(analysis, item));
+      return out;
+    }
+    case "optional":
+    case "zero-or-more":
+    case "one-or-more":
+      return firstOfExpr(analysis, expr.item);
+  }
+}
+
+/**
+ * Pushes `trailer` (what can follow `expr`) down to every nonterminal inside it.
+ * Returns true if any FOLLOW set grew.
+ */
+function propagateFollow(analysis: GrammarAnalysis, expr: GrammarExpr, trailer: Set<string>): boolean {
+  switch (expr.kind) {
+    case "terminal":
+    case "comment":
+      return false;
+    case "nonterminal": {
+      // Token-level context says nothing about characters following a lexical rule
+      if (analysis.tokens.has(expr.name)) return false;
+      const follow = analysis.follow.get(expr.name);
+      return follow ? addAll(follow, trailer) : false;
+    }
+    case "sequence":
+    case "stack": {
+      let changed = false;
+      let after = trailer;
+      for (let i = expr.items.length - 1; i >= 0; i--) {
+        const item = expr.items[i];
+        changed = propagateFollow(analysis, item, after) || changed;
+        const first = firstOfExpr(analysis, item);
+        after = isNullableExpr(analysis, item) ? new Set([...first, ...after]) : first;
+      }
+      return changed;
+    }
+    case "choice":
+      return expr.items.reduce((changed, item) => propagateFollow(analysis, item, trailer) || changed, false);
+    case "optional":
+      return propagateFollow(analysis, expr.item, trailer);
+    case "zero-or-more":
+    case "one-or-more":
+      return propagateFollow(analysis, expr.item, new Set([...firstOfExpr(analysis, expr.item), ...trailer]));
+  }
+}
+
+/**
+ * The analysis as seen from inside `rule`: lexical rules analyze their own
+ * bodies at character level, everything else sees them as tokens.
+ */
+export function analysisFor(analysis: GrammarAnalysis, rule: string): GrammarAnalysis {
+  return analysis.tokens.has(rule) ? { ...analysis, tokens: new Set() } : analysis;
+}
+
+/**
+ * Computes nullable, FIRST and FOLLOW for every rule by fixed-point iteration.
+ * The returned analysis has the phrase-level view (`tokens` = lexical rules);
+ * use `analysisFor` when walking a lexical rule's body.
+ */
+export function analyzeGrammar(
+  ruleNames: readonly string[],
+  getRuleExpr: (name: string) => GrammarExpr | undefined,
+  options: AnalyzeGrammarOptions = {}
+): GrammarAnalysis {
+  const bodies = new Map<string, GrammarExpr>();
+  for (const name of ruleNames) {
+    const expr = getRuleExpr(name);
+    if (expr) bodies.set(name, expr);
+  }
+
+  const analysis: GrammarAnalysis = {
+    nullable: new Set(),
+    first: new Map([...bodies.keys()].map((name) => [name, new Set<string>()])),
+    follow: new Map([...bodies.keys()].map((name) => [name, new Set<string>()])),
+    tokens: new Set(options.lexicalRules ?? []),
+  };
+  const lexicalView: GrammarAnalysis = { ...analysis, tokens: new Set() };
+  const viewFor = (name: string) => (analysis.tokens.has(name) ? lexicalView : analysis);
+
+  for (let changed = true; changed; ) {
+    changed = false;
+    for (const [name, body] of bodies) {
+      const view = viewFor(name);
+      if (!analysis.nullable.has(name) && isNullableExpr(view, body)) {
+        analysis.nullable.add(name);
+        changed = true;
+      }
+      changed = addAll(analysis.first.get(name)!, firstOfExpr(view, body)) || changed;
+    }
+  }
+
+  for (const start of options.startRules ?? []) analysis.follow.get(start)?.add(END_OF_INPUT);
+
+  for (let changed = true; changed; ) {
+    changed = false;
+    for (const [name, body] of bodies) {
+      changed = propagateFollow(viewFor(name), body, analysis.follow.get(name)!) || changed;
+    }
+  }
+
+  return analysis;
+}
@@ -0,0 +1,191 @@
+/**
+ * Grammar expression tree (IR).
+ *
+ * A plain, JSON-serializable description of a grammar rule body. Rules are
+ * defined in this form and railroad diagrams, EBNF text and analyses are all
+ * derived from it.
+ *
+ * The builder functions mirror the @prantlf/railroad-diagrams primitives so
+ * rule definitions read the same as the diagrams they produce.
+ *
+ * Any node can carry a `since`/`until` version range (see versions.ts); tools
+ * that work on a single version project the tree first and ignore the tags.
+ * Nodes can also name the `sources` (e.g. proposal papers) that introduced or
+ * changed them; no tool treats those as part of the language.
+ */
+
+export type GrammarExpr =
+  | SequenceExpr
+  | ChoiceExpr
+  | OptionalExpr
+  | OneOrMoreExpr
+  | ZeroOrMoreExpr
+  | TerminalExpr
+  | NonTerminalExpr
+  | CommentExpr
+  | StackExpr;
+
+/**
+ * Language versions in which a node exists: from `since` (inclusive) up to
+ * `until` (exclusive). Missing bounds are open.
+ */
+export interface VersionRange {
+  since?: string;
+  until?: string;
+}
+
+/**
+ * Documents that introduced or changed a node, e.g. proposal paper numbers.
+ */
+export interface Sources {
+  sources?: string[];
+}
+
+export interface SequenceExpr extends VersionRange, Sources {
+  kind: "sequence";
+  items: GrammarExpr[];
+}
+
+export interface ChoiceExpr extends VersionRange, Sources {
+  kind: "choice";
+  /** Index of the branch drawn on the main line (railroad `normal`). */
+  normal: number;
+  items: GrammarExpr[];
+}
+
+export interface OptionalExpr extends VersionRange, Sources {
+  kind: "optional";
+  item: GrammarExpr;
+}
+
+export interface OneOrMoreExpr extends VersionRange, Sources {
+  kind: "one-or-more";
+  item: GrammarExpr;
+}
+
+export interface ZeroOrMoreExpr extends VersionRange, Sources {
+  kind: "zero-or-more";
+  item: GrammarExpr;
+}
+
+export interface TerminalExpr extends VersionRange, Sources {
+  kind: "terminal";
+  text: string;
+}
+
+export interface NonTerminalExpr extends VersionRange, Sources {
+  kind: "nonterminal";
+  name: string;
+}
+
+/** Prose placeholder, e.g. "any character except new-line". */
+export interface CommentExpr extends VersionRange, Sources {
+  kind: "comment";
+  text: string;
+}
+
+/** A sequence laid out vertically; same language as `sequence`. */
+export interface StackExpr extends VersionRange, Sources {
+  kind: "stack";
+  items: GrammarExpr[];
+}
+
+export type GrammarExprKind = GrammarExpr["kind"];
+
+// --- Builders ------------------------------------------------------------------
+
+export function Sequence(...items: GrammarExpr[]): SequenceExpr {
+  return { kind: "sequence", items };
+}
+
+export function Choice(normal: number, ...items: GrammarExpr[]): ChoiceExpr {
+  return { kind: "choice", normal, items };
+}
+
+export function Optional(item: GrammarExpr): OptionalExpr {
+  return { kind: "optional", item };
+}
+
+export function OneOrMore(item: GrammarExpr): OneOrMoreExpr {
+  return { kind: "one-or-more", item };
+}
+
+export function ZeroOrMore(item: GrammarExpr): ZeroOrMoreExpr {
+  return { kind: "zero-or-more", item };
+}
+
+export function Terminal(text: string): TerminalExpr {
+  return { kind: "terminal", text };
+}
+
+export function NonTerminal(name: string): NonTerminalExpr {
+  return { kind: "nonterminal", name };
+}
+
+export function Comment(text: string): CommentExpr {
+  return { kind: "comment", text };
+}
+
+export function Stack(...items: GrammarExpr[]): StackExpr {
+  return { kind: "stack", items };
+}
+
+/**
+ * Root of a rule body. A single item is returned as-is; several items form
+ * the top-level sequence, matching how `Diagram(...)` lays them out.
+ */
+export function Diagram(...items: GrammarExpr[]): GrammarExpr {
+  return items.length === 1 ? items[0] : Sequence(...items);
+}
+
+/**
+ * Tags a node with the versions it exists in.
+ */
+export function Versioned<T extends GrammarExpr>(expr: T, range: VersionRange): T {
+  return { ...expr, ...range };
+}
+
+/**
+ * Attributes a node to the documents that introduced or changed it. Without
+ * sources the node is returned as-is.
+ */
+export function Sourced<T extends GrammarExpr>(expr: T, ...sources: string[]): T {
+  return sources.length > 0 ? { ...expr, sources: [...(expr.sources ?? []), ...sources] } : expr;
+}
+
+// --- Traversal -------------------------------------------------------------------
+
+/**
+ * Returns the direct sub-expressions of a node.
+ */
+export function childExprs(expr: GrammarExpr): GrammarExpr[] {
+  switch (expr.kind) {
+    case "sequence":
+    case "choice":
+    case "stack":
+      return expr.items;
+    case "optional":
+    case "one-or-more":
+    case "zero-or-more":
+      return [expr.item];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Visits every node of the tree in pre-order.
+ */
+export function walkExpr(expr: GrammarExpr, visit: (node: GrammarExpr) => void): void {
+  visit(expr);
+  for (const child of childExprs(expr)) walkExpr(child, visit);
+}
+
+/**
+ * Every source cited anywhere in the tree, in first-seen (pre-order) order.
+ */
+export function exprSources(expr: GrammarExpr): string[] {
+  const seen = new Set<string>();
+  walkExpr(expr, (node) => node.sources?.forEach((source) => seen.add(source)));
+  return [...seen];
+}
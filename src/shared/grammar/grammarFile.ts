@@ -0,0 +1,316 @@
+/**
+ * Grammar files loaded at runtime.
+ *
+ * Two formats are accepted:
+ *
+ * - JSON IR: `{ "title"?, "rules": { name: GrammarExpr, … }, "sections"?: [{ "title", "rules": [name, …] }] }`.
+ *   Every node is checked against the grammar expression shapes; unknown
+ *   fields are dropped.
+ * - EBNF text in Annex A notation, or in the `extended` grouping syntax when
+ *   the text uses it (see `detectEbnfNotation`). A line starting with `#` in
+ *   column 1 starts a section titled by the rest of the line.
+ *
+ * Rules no section lists are gathered in a trailing "Other rules" section.
+ * Loading never throws: problems are reported as diagnostics, and a grammar
+ * is returned whenever at least one rule could be read.
+ */
+
+import { formatRuleEbnf, type EbnfForm } from "./ebnfFormat";
+import { detectEbnfNotation, parseEbnf, type EbnfNotation, type EbnfParseOptions } from "./ebnfParser";
+import type { GrammarExpr } from "./grammarExpr";
+
+export type GrammarFileFormat = "json" | "ebnf";
+
+export interface GrammarFileSection {
+  /** Element id of the section, unique within the grammar. */
+  id: string;
+  title: string;
+  rules: string[];
+}
+
+export interface LoadedGrammar {
+  title: string;
+  format: GrammarFileFormat;
+  /** Rule bodies in definition order. */
+  rules: Map<string, GrammarExpr>;
+  /** EBNF text of each rule: as written for EBNF files, generated for JSON. */
+  ebnf: Map<string, string>;
+  /** Notation `ebnf` is written in. */
+  notation: EbnfNotation;
+  /** Spellings read as terminals when parsing `ebnf` (see `EbnfParseOptions.ruleTerminals`). */
+  ruleTerminals?: EbnfParseOptions["ruleTerminals"];
+  sections: GrammarFileSection[];
+}
+
+export interface GrammarFileDiagnostic {
+  message: string;
+  /** 1-based line in EBNF files, when known. */
+  line?: number;
+  /** JSON path of the offending value, e.g. `rules.expr.items[2]`. */
+  path?: string;
+}
+
+export interface GrammarFileOptions {
+  /**
+   * Spellings to read as terminals in EBNF files, usually those of the grammar
+   * the file extends (see `EbnfParseOptions.ruleTerminals`).
+   */
+  ruleTerminals?: EbnfParseOptions["ruleTerminals"];
+}
+
+export interface GrammarFileResult {
+  grammar?: LoadedGrammar;
+  diagnostics: GrammarFileDiagnostic[];
+}
+
+/** Rule names as the EBNF parser reads them; also keeps names safe to use in ids. */
+const RULE_NAME = /^[A-Za-z_][\w-]*$/;
+
+const SECTION_HEADING = /^#\s*(.*)$/;
+
+const OTHER_RULES_TITLE = "Other rules";
+
+/** Deepest JSON expression nesting read; deeper files would overflow the stack. */
+const MAX_EXPR_DEPTH = 200;
+
+/**
+ * Picks the format from the file name, falling back to sniffing the content.
+ */
+export function detectGrammarFormat(source: string, fileName = ""): GrammarFileFormat {
+  if (/\.json$/i.test(fileName)) return "json";
+  if (/\.(ebnf|txt)$/i.test(fileName)) return "ebnf";
+  return source.trimStart().startsWith("{") ? "json" : "ebnf";
+}
+
+/**
+ * Reads a grammar file in either format.
+ */
+export function loadGrammarFile(source: string, fileName = "", options: GrammarFileOptions = {}): GrammarFileResult {
+  const title = fileName.replace(/^.*[\\/]/, "") || "Loaded grammar";
+  return detectGrammarFormat(source, fileName) === "json"
+    ? loadJsonGrammar(source, title)
+    : loadEbnfGrammar(source, title, options.ruleTerminals);
+}
+
+// --- JSON IR ------------------------------------------------------------------
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks one untrusted JSON value against the grammar expression shapes and
+ * rebuilds it from the known fields only.
+ */
+function readExpr(value: unknown, path: string, diagnostics: GrammarFileDiagnostic[], depth = 0): GrammarExpr | undefined {
+  const fail = (message: string) => {
+    diagnostics.push({ message, path });
+    return undefined;
+  };
+  if (depth > MAX_EXPR_DEPTH) return fail(`Expressions nested more than ${MAX_EXPR_DEPTH} levels deep are not supported`);
+  if (!isObject(value)) return fail("Expected a grammar expression object");
+
+  const items = (): GrammarExpr[] | undefined => {
+    if (!Array.isArray(value.items) || value.items.length === 0) return fail(`"${value.kind}" needs a non-empty "items" array`);
+    const read = value.items.map((item, i) => readExpr(item, `${path}.items[${i}]`, diagnostics, depth + 1));
+    return read.every((item): item is GrammarExpr => item !== undefined) ? read : undefined;
+  };
+  const item = () => readExpr(value.item, `${path}.item`, diagnostics, depth + 1);
+  const text = (): string | undefined =>
+    typeof value.text === "string" ? value.text : fail(`"${value.kind}" needs a string "text"`);
+
+  switch (value.kind) {
+    case "sequence":
+    case "stack": {
+      const read = items();
+      return read && { kind: value.kind, items: read };
+    }
+    case "choice": {
+      const read = items();
+      if (!read) return undefined;
+      const normal = typeof value.normal === "number" && Number.isInteger(value.normal) ? value.normal : 0;
+      if (normal < 0 || normal >= read.length) return fail(`"normal" must index one of the ${read.length} branches`);
+      return { kind: "choice", normal, items: read };
+    }
+    case "optional":
+    case "one-or-more":
+    case "zero-or-more": {
+      const read = item();
+      return read && { kind: value.kind, item: read };
+    }
+    case "terminal":
+    case "comment": {
+      const read = text();
+      return read === undefined ? undefined : { kind: value.kind, text: read };
+    }
+    case "nonterminal":
+      if (typeof value.name !== "string" || !RULE_NAME.test(value.name)) {
+        return fail('"nonterminal" needs a "name" made of letters, digits, "_" and "-"');
+      }
+      return { kind: "nonterminal", name: value.name };
+    default:
+      return fail(`Unknown expression kind ${JSON.stringify(value.kind)}`);
+  }
+}
+
+function loadJsonGrammar(source: string, fallbackTitle: string): GrammarFileResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(source);
+  } catch (e) {
+    return { diagnostics: [{ message: `Invalid JSON: ${e instanceof Error ? e.message : String(e)}` }] };
+  }
+  if (!isObject(data) || !isObject(data.rules)) {
+    return { diagnostics: [{ message: 'Expected an object with a "rules" object mapping rule names to expressions' }] };
+  }
+
+  const diagnostics: GrammarFileDiagnostic[] = [];
+  const rules = new Map<string, GrammarExpr>();
+  for (const [name, value] of Object.entries(data.rules)) {
+    if (!RULE_NAME.test(name)) {
+      diagnostics.push({ message: `Invalid rule name ${JSON.stringify(name)}`, path: "rules" });
+      continue;
+    }
+    const expr = readExpr(value, `rules.${name}`, diagnostics);
+    if (expr) rules.set(name, expr);
+  }
+
+  const listed: ListedSection[] = [];
+  if (data.sections !== undefined) {
+    if (!Array.isArray(data.sections)) {
+      diagnostics.push({ message: '"sections" must be an array', path: "sections" });
+    } else {
+      data.sections.forEach((section, i) => {
+        const path = `sections[${i}]`;
+        if (!isObject(section) || !Array.isArray(section.rules) || !section.rules.every((r) => typeof r === "string")) {
+          diagnostics.push({ message: 'A section needs a "rules" array of rule names', path });
+          return;
+        }
+        const title = typeof section.title === "string" && section.title.trim() ? section.title : `Section ${i + 1}`;
+        listed.push({ title, rules: section.rules as string[], path });
+      });
+    }
+  }
+
+  if (rules.size === 0) return { diagnostics: [...diagnostics, { message: "The file defines no usable rules" }] };
+
+  const title = typeof data.title === "string" && data.title.trim() ? data.title : fallbackTitle;
+  // One notation for the whole file: the extended one if any rule has no Annex A form
+  const formatAll = (form: EbnfForm) =>
+    new Map([...rules].map(([name, expr]) => [name, formatRuleEbnf(name, expr, form, rules.keys())]));
+  const standard = formatAll("standard");
+  const notation: EbnfNotation = [...standard.values()].every((text) => text !== undefined) ? "annex-a" : "extended";
+  const ebnf = (notation === "annex-a" ? standard : formatAll("diagram")) as Map<string, string>;
+  return {
+    grammar: {
+      title,
+      format: "json",
+      rules,
+      ebnf,
+      notation,
+      sections: buildSections(listed, rules, diagnostics),
+    },
+    diagnostics,
+  };
+}
+
+// --- EBNF text ------------------------------------------------------------------
+
+function loadEbnfGrammar(
+  source: string,
+  title: string,
+  ruleTerminals: EbnfParseOptions["ruleTerminals"]
+): GrammarFileResult {
+  const lines = source.split(/\r?\n/);
+
+  // Blank out section headings so the parser's line numbers stay valid
+  const headings: { title: string; line: number }[] = [];
+  const body = lines
+    .map((text, i) => {
+      const heading = SECTION_HEADING.exec(text);
+      if (!heading) return text;
+      headings.push({ title: heading[1].trim() || `Section ${headings.length + 1}`, line: i + 1 });
+      return "";
+    })
+    .join("\n");
+
+  const notation = detectEbnfNotation(body);
+  const parsed = parseEbnf(body, { notation, ruleTerminals });
+  // Warnings (e.g. undefined nonterminals) are left to grammar validation
+  const diagnostics: GrammarFileDiagnostic[] = parsed.diagnostics
+    .filter((d) => d.severity === "error")
+    .map((d) => ({ message: d.message, line: d.line }));
+  if (parsed.rules.length === 0) return { diagnostics: [...diagnostics, { message: "The file defines no rules" }] };
+
+  const rules = new Map(parsed.rules.map((rule) => [rule.name, rule.expr]));
+  const ebnf = new Map<string, string>();
+  parsed.rules.forEach((rule, i) => {
+    const next = parsed.rules[i + 1]?.line ?? lines.length + 1;
+    const end = Math.min(next, headings.find((h) => h.line > rule.line)?.line ?? next);
+    ebnf.set(rule.name, lines.slice(rule.line - 1, end - 1).join("\n").trimEnd());
+  });
+
+  const listed: ListedSection[] = headings.map((heading, i) => ({
+    title: heading.title,
+    rules: parsed.rules
+      .filter((rule) => rule.line > heading.line && rule.line < (headings[i + 1]?.line ?? Infinity))
+      .map((rule) => rule.name),
+  }));
+
+  return {
+    grammar: {
+      title,
+      format: "ebnf",
+      rules,
+      ebnf,
+      notation,
+      ruleTerminals,
+      sections: buildSections(listed, rules, diagnostics),
+    },
+    diagnostics,
+  };
+}
+
+// --- Sections ------------------------------------------------------------------
+
+interface ListedSection {
+  title: string;
+  rules: string[];
+  /** JSON path of the section, for diagnostics. */
+  path?: string;
+}
+
+/**
+ * Gives listed sections unique ids and appends the rules none of them lists.
+ * Entries naming no loaded rule, or a rule listed before, are reported and
+ * dropped, so each rule appears (and gets its element id) once.
+ */
+function buildSections(
+  listed: ListedSection[],
+  rules: Map<string, GrammarExpr>,
+  diagnostics: GrammarFileDiagnostic[]
+): GrammarFileSection[] {
+  const seen = new Set<string>();
+  const sections = listed
+    .map(({ title, rules: names, path }) => ({
+      title,
+      rules: names.filter((name, i) => {
+        const entryPath = path && `${path}.rules[${i}]`;
+        if (!rules.has(name)) {
+          diagnostics.push({ message: `Section "${title}" lists ${JSON.stringify(name)}, which is not a loaded rule`, path: entryPath });
+          return false;
+        }
+        if (seen.has(name)) {
+          diagnostics.push({ message: `Rule "${name}" is listed more than once`, path: entryPath });
+          return false;
+        }
+        seen.add(name);
+        return true;
+      }),
+    }))
+    .filter((section) => section.rules.length > 0)
+    .map((section, i) => ({ id: `grammar-section-${i + 1}`, ...section }));
+  const rest = [...rules.keys()].filter((name) => !seen.has(name));
+  if (rest.length > 0) sections.push({ id: `grammar-section-${sections.length + 1}`, title: OTHER_RULES_TITLE, rules: rest });
+  return sections;
+}
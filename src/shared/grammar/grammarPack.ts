@@ -0,0 +1,212 @@
+/**
+ * Grammar packs: a language's rules, sections and versions behind one interface.
+ *
+ * A pack is declared once from its rule factories and section index
+ * (`defineGrammarPack`); the app, the analyses and the check scripts only talk
+ * to the resulting `GrammarPack`, so any registered grammar gets the same
+ * diagrams, EBNF panels, filters and checks.
+ *
+ * Rule bodies may carry `since`/`until` tags over the pack's ordered versions
+ * and `sources` naming the documents that changed them (e.g. WG21 papers);
+ * every query projects the rules onto one version.
+ */
+
+import { formatRuleEbnf, type EbnfForm } from "./ebnfFormat";
+import { parseEbnf, type ParsedEbnfGrammar } from "./ebnfParser";
+import { exprSources, type GrammarExpr } from "./grammarExpr";
+import { validateGrammar, type GrammarValidation } from "./validation";
+import { isInVersion, projectExpr } from "./versions";
+
+export interface GrammarPackSection {
+  /** Element id of the section, unique across the pack. */
+  id: string;
+  /** Heading, e.g. "A.5 Expressions". */
+  title: string;
+  rules: readonly string[];
+}
+
+export interface GrammarSourceInfo {
+  title: string;
+  /** Version the document was adopted into. */
+  version: string;
+}
+
+/** Documents cited by the `sources` of rule bodies, e.g. WG21 papers. */
+export interface GrammarSources {
+  /** Singular noun for a source, e.g. "WG21 paper". */
+  label: string;
+  /** Sources keyed by id, in adoption order. */
+  entries: Readonly<Record<string, GrammarSourceInfo>>;
+  url: (id: string) => string;
+}
+
+/** External link shown next to a rule's name, e.g. to the clause defining it. */
+export interface RuleLink {
+  label: string;
+  url: string;
+  title: string;
+}
+
+/** Hand-written EBNF, shown wherever a rule reads as in the version it describes. */
+export interface GrammarEbnf {
+  definitions: Readonly<Record<string, string>>;
+  version: string;
+  /** Spellings the definitions set apart by typeface (see `EbnfParseOptions.ruleTerminals`). */
+  ruleTerminals?: Readonly<Partial<Record<string, readonly string[]>>>;
+}
+
+export interface GrammarPackDefinition {
+  /** Short id used in URLs and script flags, e.g. "cpp". */
+  id: string;
+  /** Language name, e.g. "C++". */
+  name: string;
+  /** One line on where the rules come from, shown under the page title. */
+  description: string;
+  /** Versions oldest first. */
+  versions: readonly string[];
+  versionLabels: Readonly<Record<string, string>>;
+  defaultVersion: string;
+  rules: ReadonlyMap<string, () => GrammarExpr>;
+  sections: readonly GrammarPackSection[];
+  /** Section heading as numbered in a version, when it differs from `title`. */
+  sectionTitle?: (section: string, version: string) => string | undefined;
+  /** Start symbols, for reachability and FOLLOW sets. */
+  startRules: readonly string[];
+  /** Sections of the lexical grammar, seen as tokens by phrase-level rules. */
+  lexicalSections?: readonly string[];
+  ebnf?: GrammarEbnf;
+  sources?: GrammarSources;
+  ruleLinks?: (name: string) => RuleLink[];
+}
+
+export interface GrammarPack extends GrammarPackDefinition {
+  /** Whether a string names one of the pack's versions. */
+  isVersion(value: string): boolean;
+  /** Rule body as it reads in a version; undefined if the rule does not exist there. */
+  getRuleExpr(name: string, version?: string): GrammarExpr | undefined;
+  /** Rule body with every version's alternatives, still tagged. */
+  getVersionedRuleExpr(name: string): GrammarExpr | undefined;
+  /** Rules that exist in a version, in definition order. */
+  getRuleNames(version?: string): string[];
+  /** Every rule of any version. */
+  getAllRuleNames(): string[];
+  /** Sections with at least one rule in a version. */
+  getSections(version?: string): GrammarPackSection[];
+  getSectionRules(section: string, version?: string): string[];
+  getSectionTitle(section: string, version?: string): string;
+  getRuleSection(name: string): string | undefined;
+  /** Hand-written EBNF where it applies, else EBNF generated from the rule. */
+  getEbnfDefinition(name: string, version?: string): string | undefined;
+  generateEbnfDefinition(name: string, form?: EbnfForm, version?: string): string | undefined;
+  /** `getEbnfDefinition` parsed, with line numbers relative to the definition. */
+  parseEbnfDefinition(name: string, version?: string): ParsedEbnfGrammar | undefined;
+  /** Undefined references and section index problems in a version. */
+  validate(version?: string): GrammarValidation;
+  /** Sources adopted in a version or earlier. */
+  getSourceIds(version?: string): string[];
+  /** Sources that changed a rule, as far as a version includes them. */
+  getRuleSources(name: string, version?: string): string[];
+  /** Whether a rule cites a source, in whichever version. */
+  citesSource(name: string, id: string): boolean;
+}
+
+/**
+ * Builds the query interface of a grammar pack from its declaration.
+ */
+export function defineGrammarPack(definition: GrammarPackDefinition): GrammarPack {
+  const { rules, sections, versions, defaultVersion, ebnf, sources } = definition;
+  const sectionById = new Map(sections.map((s) => [s.id, s]));
+  const parsedCache = new Map<string, ParsedEbnfGrammar>();
+
+  const isVersion = (value: string) => versions.includes(value);
+
+  const getVersionedRuleExpr = (name: string) => rules.get(name)?.();
+
+  const getRuleExpr = (name: string, version = defaultVersion) => {
+    const factory = rules.get(name);
+    return factory ? projectExpr(factory(), version, versions) : undefined;
+  };
+
+  const getRuleNames = (version = defaultVersion) => [...rules.keys()].filter((name) => getRuleExpr(name, version));
+
+  const getSectionRules = (section: string, version = defaultVersion) =>
+    (sectionById.get(section)?.rules ?? []).filter((name) => !rules.has(name) || getRuleExpr(name, version));
+
+  const generateEbnfDefinition = (name: string, form: EbnfForm = "standard", version = defaultVersion) => {
+    const expr = getRuleExpr(name, version);
+    return expr ? formatRuleEbnf(name, expr, form, rules.keys()) : undefined;
+  };
+
+  // Hand-written text applies where the rule reads as in the version it describes
+  const matchesEbnfVersion = (name: string, version: string) => {
+    if (!ebnf) return false;
+    if (version === ebnf.version) return true;
+    const expr = getRuleExpr(name, version);
+    return expr !== undefined && JSON.stringify(expr) === JSON.stringify(getRuleExpr(name, ebnf.version));
+  };
+
+  const getEbnfDefinition = (name: string, version = defaultVersion) => {
+    const handWritten = matchesEbnfVersion(name, version) ? ebnf?.definitions[name] : undefined;
+    return handWritten ?? generateEbnfDefinition(name, "standard", version);
+  };
+
+  const getSourceIds = (version = defaultVersion) =>
+    Object.keys(sources?.entries ?? {}).filter((id) =>
+      isInVersion({ since: sources!.entries[id].version }, version, versions)
+    );
+
+  return {
+    ...definition,
+    isVersion,
+    getRuleExpr,
+    getVersionedRuleExpr,
+    getRuleNames,
+    getAllRuleNames: () => [...rules.keys()],
+    getSections: (version = defaultVersion) => sections.filter((s) => getSectionRules(s.id, version).length > 0),
+    getSectionRules,
+
+    getSectionTitle(section, version = defaultVersion) {
+      return definition.sectionTitle?.(section, version) ?? sectionById.get(section)?.title ?? section;
+    },
+
+    getRuleSection: (name) => sections.find((s) => s.rules.includes(name))?.id,
+    getEbnfDefinition,
+    generateEbnfDefinition,
+
+    parseEbnfDefinition(name, version = defaultVersion) {
+      const key = `${version}:${name}`;
+      const cached = parsedCache.get(key);
+      if (cached) return cached;
+
+      const source = getEbnfDefinition(name, version);
+      if (source === undefined) return undefined;
+
+      // Nonterminals resolve against every rule of any version
+      const parsed = parseEbnf(source, { knownRules: rules.keys(), ruleTerminals: ebnf?.ruleTerminals });
+      parsedCache.set(key, parsed);
+      return parsed;
+    },
+
+    validate(version = defaultVersion) {
+      return validateGrammar({
+        ruleNames: getRuleNames(version),
+        getRuleExpr: (name) => getRuleExpr(name, version),
+        sections: sections.map((s) => ({ id: s.id, rules: getSectionRules(s.id, version) })),
+      });
+    },
+
+    getSourceIds,
+
+    getRuleSources(name, version = defaultVersion) {
+      const expr = getVersionedRuleExpr(name);
+      if (!expr) return [];
+      const cited = new Set(exprSources(expr));
+      return getSourceIds(version).filter((id) => cited.has(id));
+    },
+
+    citesSource(name, id) {
+      const expr = getVersionedRuleExpr(name);
+      return expr !== undefined && exprSources(expr).includes(id);
+    },
+  };
+}
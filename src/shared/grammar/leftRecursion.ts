@@ -0,0 +1,104 @@
+/**
+ * Left recursion detection.
+ *
+ * A rule is left recursive when it can derive a string starting with itself.
+ * That happens along the "left-corner" graph: `A → B` when `B` can be the
+ * first symbol of `A` (possibly after a nullable prefix). Every cycle in that
+ * graph is left recursion: a self-loop is direct, a longer cycle indirect.
+ */
+
+import type { GrammarExpr } from "./grammarExpr";
+import { isCyclicComponent, stronglyConnectedComponents, type DependencyGraph } from "./dependencyGraph";
+import { analyzeGrammar, isNullableExpr, type GrammarAnalysis } from "./firstFollow";
+
+export interface LeftRecursionCycle {
+  /** Rules on the cycle, in definition order. */
+  rules: string[];
+  /** Members that are left recursive on their own (`A: A …`). */
+  direct: string[];
+}
+
+/**
+ * Nonterminals that can appear at the left edge of an expression.
+ */
+function leftCorners(expr: GrammarExpr, analysis: Pick<GrammarAnalysis, "nullable" | "tokens">): string[] {
+  switch (expr.kind) {
+    case "terminal":
+    case "comment":
+      return [];
+    case "nonterminal":
+      return [expr.name];
+    case "sequence":
+    case "stack": {
+      const out: string[] = [];
+      for (const item of expr.items) {
+        out.push(...leftCorners(item, analysis));
+        if (!isNullableExpr(analysis, item)) break;
+      }
+      return out;
+    }
+    case "choice":
+      return expr.items.flatMap((item) => leftCorners(item, analysis));
+    case "optional":
+    case "zero-or-more":
+    case "one-or-more":
+      return leftCorners(expr.item, analysis);
+  }
+}
+
+/**
+ * Builds the left-corner graph of a grammar.
+ */
+export function leftCornerGraph(
+  ruleNames: readonly string[],
+  getRuleExpr: (name: string) => GrammarExpr | undefined
+): DependencyGraph {
+  const analysis = analyzeGrammar(ruleNames, getRuleExpr);
+  const references = new Map<string, string[]>();
+  const referencedBy = new Map<string, string[]>();
+
+  for (const name of ruleNames) {
+    const expr = getRuleExpr(name);
+    const targets = expr ? [...new Set(leftCorners(expr, analysis))] : [];
+    references.set(name, targets);
+    for (const target of targets) referencedBy.set(target, [...(referencedBy.get(target) ?? []), name]);
+  }
+
+  return { nodes: [...ruleNames], references, referencedBy };
+}
+
+/**
+ * All left recursion cycles in a grammar.
+ */
+export function findLeftRecursion(
+  ruleNames: readonly string[],
+  getRuleExpr: (name: string) => GrammarExpr | undefined
+): LeftRecursionCycle[] {
+  const graph = leftCornerGraph(ruleNames, getRuleExpr);
+  return stronglyConnectedComponents(graph)
+    .filter((component) => isCyclicComponent(graph, component))
+    .map((rules) => ({
+      rules,
+      direct: rules.filter((name) => graph.references.get(name)!.includes(name)),
+    }));
+}
+
+/**
+ * Whether an expression contains `ZeroOrMore` or `OneOrMore`, i.e. is drawn
+ * in iterative form.
+ */
+export function hasRepetition(expr: GrammarExpr): boolean {
+  switch (expr.kind) {
+    case "zero-or-more":
+    case "one-or-more":
+      return true;
+    case "sequence":
+    case "stack":
+    case "choice":
+      return expr.items.some(hasRepetition);
+    case "optional":
+      return hasRepetition(expr.item);
+    default:
+      return false;
+  }
+}
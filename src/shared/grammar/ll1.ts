@@ -0,0 +1,129 @@
+/**
+ * LL(1) conflict detection.
+ *
+ * Every decision point inside a rule body is checked against one token of
+ * lookahead:
+ *
+ * - `choice`: two branches share a FIRST terminal (FIRST/FIRST), or a nullable
+ *   branch's continuation overlaps another branch's FIRST (FIRST/FOLLOW)
+ * - `optional`, `zero-or-more`, `one-or-more`: the item's FIRST overlaps what
+ *   can follow the construct, so "enter or skip" is undecidable (FIRST/FOLLOW)
+ *
+ * The continuation of a construct is computed locally from the rest of the
+ * sequence and, at the end of the rule, the rule's FOLLOW set.
+ */
+
+import type { GrammarExpr } from "./grammarExpr";
+import { formatExpr } from "./ebnfFormat";
+import { analysisFor, firstOfExpr, isNullableExpr, type GrammarAnalysis } from "./firstFollow";
+
+export type Ll1ConflictKind = "first-first" | "first-follow";
+
+export type Ll1Construct = "choice" | "optional" | "zero-or-more" | "one-or-more";
+
+export interface Ll1Conflict {
+  rule: string;
+  kind: Ll1ConflictKind;
+  construct: Ll1Construct;
+  /**
+   * The competing branches in extended EBNF notation. For FIRST/FIRST these
+   * are the two branches; for FIRST/FOLLOW the nullable branch or repeated
+   * item, followed by the competing branch when there is one.
+   */
+  branches: string[];
+  /** Sorted terminal keys on which the parser cannot decide. */
+  terminals: string[];
+}
+
+/** Marks two nullable branches in a FIRST/FIRST conflict. */
+export const EMPTY_STRING = "ε";
+
+function intersect(a: Set<string>, b: Set<string>): string[] {
+  return [...a].filter((t) => b.has(t)).sort((x, y) => x.localeCompare(y));
+}
+
+function collect(
+  rule: string,
+  expr: GrammarExpr,
+  trailer: Set<string>,
+  analysis: GrammarAnalysis,
+  out: Ll1Conflict[]
+): void {
+  const first = (e: GrammarExpr) => firstOfExpr(analysis, e);
+  const nullable = (e: GrammarExpr) => isNullableExpr(analysis, e);
+
+  switch (expr.kind) {
+    case "terminal":
+    case "comment":
+    case "nonterminal":
+      return;
+    case "sequence":
+    case "stack": {
+      let after = trailer;
+      for (let i = expr.items.length - 1; i >= 0; i--) {
+        const item = expr.items[i];
+        collect(rule, item, after, analysis, out);
+        after = nullable(item) ? new Set([...first(item), ...after]) : first(item);
+      }
+      return;
+    }
+    case "choice": {
+      const items = expr.items;
+      const firsts = items.map(first);
+      for (let i = 0; i < items.length; i++) {
+        for (let j = i + 1; j < items.length; j++) {
+          const terminals = intersect(firsts[i], firsts[j]);
+          if (nullable(items[i]) && nullable(items[j])) terminals.unshift(EMPTY_STRING);
+          if (terminals.length > 0) {
+            out.push({
+              rule,
+              kind: "first-first",
+              construct: "choice",
+              branches: [formatExpr(items[i]), formatExpr(items[j])],
+              terminals,
+            });
+          }
+        }
+      }
+      items.forEach((item, i) => {
+        if (!nullable(item)) return;
+        items.forEach((other, j) => {
+          if (i === j) return;
+          const terminals = intersect(firsts[j], trailer);
+          if (terminals.length > 0) {
+            out.push({
+              rule,
+              kind: "first-follow",
+              construct: "choice",
+              branches: [formatExpr(item), formatExpr(other)],
+              terminals,
+            });
+          }
+        });
+      });
+      for (const item of items) collect(rule, item, trailer, analysis, out);
+      return;
+    }
+    case "optional":
+    case "zero-or-more":
+    case "one-or-more": {
+      const itemFirst = first(expr.item);
+      const terminals = intersect(itemFirst, trailer);
+      if (terminals.length > 0) {
+        out.push({ rule, kind: "first-follow", construct: expr.kind, branches: [formatExpr(expr.item)], terminals });
+      }
+      const inner = expr.kind === "optional" ? trailer : new Set([...itemFirst, ...trailer]);
+      collect(rule, expr.item, inner, analysis, out);
+      return;
+    }
+  }
+}
+
+/**
+ * Finds the LL(1) conflicts in one rule body.
+ */
+export function findLl1Conflicts(rule: string, expr: GrammarExpr, analysis: GrammarAnalysis): Ll1Conflict[] {
+  const out: Ll1Conflict[] = [];
+  collect(rule, expr, analysis.follow.get(rule) ?? new Set(), analysisFor(analysis, rule), out);
+  return out;
+}
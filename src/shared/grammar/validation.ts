@@ -0,0 +1,110 @@
+/**
+ * Grammar consistency checks.
+ *
+ * Finds broken links between rule bodies and the section index:
+ *
+ * - nonterminal references with no rule definition
+ * - rules that no section lists
+ * - rules listed by more than one section
+ * - section entries with no rule definition
+ */
+
+import { walkExpr, type GrammarExpr } from "./grammarExpr";
+
+export interface GrammarSection {
+  id: string;
+  rules: readonly string[];
+}
+
+export interface GrammarValidationInput {
+  ruleNames: readonly string[];
+  getRuleExpr: (name: string) => GrammarExpr | undefined;
+  sections: readonly GrammarSection[];
+}
+
+export interface UndefinedReference {
+  /** Rule whose body contains the reference. */
+  rule: string;
+  /** Referenced nonterminal that has no definition. */
+  name: string;
+}
+
+export interface DuplicateSectionRule {
+  rule: string;
+  sections: string[];
+}
+
+export interface MissingSectionEntry {
+  section: string;
+  rule: string;
+}
+
+export interface GrammarValidation {
+  undefinedReferences: UndefinedReference[];
+  unsectionedRules: string[];
+  duplicateSectionRules: DuplicateSectionRule[];
+  sectionEntriesWithoutRule: MissingSectionEntry[];
+}
+
+/**
+ * Nonterminal names referenced by an expression, in first-seen order.
+ */
+export function referencedNames(expr: GrammarExpr): string[] {
+  const names = new Set<string>();
+  walkExpr(expr, (node) => {
+    if (node.kind === "nonterminal") names.add(node.name);
+  });
+  return [...names];
+}
+
+/**
+ * Runs all consistency checks. Results are sorted by rule name.
+ */
+export function validateGrammar(input: GrammarValidationInput): GrammarValidation {
+  const defined = new Set(input.ruleNames);
+
+  const undefinedReferences: UndefinedReference[] = [];
+  for (const rule of input.ruleNames) {
+    const expr = input.getRuleExpr(rule);
+    if (!expr) continue;
+    for (const name of referencedNames(expr)) {
+      if (!defined.has(name)) undefinedReferences.push({ rule, name });
+    }
+  }
+
+  const sectionsByRule = new Map<string, string[]>();
+  const sectionEntriesWithoutRule: MissingSectionEntry[] = [];
+  for (const section of input.sections) {
+    for (const rule of section.rules) {
+      const listed = sectionsByRule.get(rule) ?? [];
+      if (!listed.includes(section.id)) listed.push(section.id);
+      sectionsByRule.set(rule, listed);
+      if (!defined.has(rule)) sectionEntriesWithoutRule.push({ section: section.id, rule });
+    }
+  }
+
+  const unsectionedRules = input.ruleNames.filter((rule) => !sectionsByRule.has(rule));
+  const duplicateSectionRules = [...sectionsByRule]
+    .filter(([, sections]) => sections.length > 1)
+    .map(([rule, sections]) => ({ rule, sections }));
+
+  const byRule = (a: { rule: string }, b: { rule: string }) => a.rule.localeCompare(b.rule);
+  return {
+    undefinedReferences: undefinedReferences.sort(byRule),
+    unsectionedRules: [...unsectionedRules].sort(),
+    duplicateSectionRules: duplicateSectionRules.sort(byRule),
+    sectionEntriesWithoutRule: sectionEntriesWithoutRule.sort(byRule),
+  };
+}
+
+/**
+ * Total number of problems found.
+ */
+export function countGrammarIssues(result: GrammarValidation): number {
+  return (
+    result.undefinedReferences.length +
+    result.unsectionedRules.length +
+    result.duplicateSectionRules.length +
+    result.sectionEntriesWithoutRule.length
+  );
+}
@@ -0,0 +1,52 @@
+/**
+ * Comparison of one version-tagged rule between two language versions.
+ *
+ * Both sides are projections of the same tagged tree (see versions.ts), so a
+ * node that appears on one side only is exactly a node whose own
+ * `since`/`until` range excludes the other version.
+ */
+
+import type { GrammarExpr } from "./grammarExpr";
+import { isInVersion, projectExpr } from "./versions";
+
+export type VersionChange = "added" | "removed" | "changed" | "unchanged";
+
+export interface VersionDiff {
+  change: VersionChange;
+  /** The rule in the older version, if it exists there. */
+  before?: GrammarExpr;
+  /** The rule in the newer version, if it exists there. */
+  after?: GrammarExpr;
+}
+
+/**
+ * Projects a tagged rule onto two versions and classifies the difference.
+ */
+export function diffVersions(
+  expr: GrammarExpr,
+  from: string,
+  to: string,
+  versions: readonly string[]
+): VersionDiff {
+  const before = projectExpr(expr, from, versions);
+  const after = projectExpr(expr, to, versions);
+  const change: VersionChange =
+    !before && !after
+      ? "unchanged"
+      : !before
+        ? "added"
+        : !after
+          ? "removed"
+          : JSON.stringify(before) === JSON.stringify(after)
+            ? "unchanged"
+            : "changed";
+  return { change, before, after };
+}
+
+/**
+ * Whether a node of one side's projection is missing from the `other` version,
+ * i.e. it was added (on the newer side) or removed (on the older side).
+ */
+export function isMissingIn(expr: GrammarExpr, other: string, versions: readonly string[]): boolean {
+  return !isInVersion(expr, other, versions);
+}
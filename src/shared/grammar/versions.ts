@@ -0,0 +1,64 @@
+/**
+ * Version projection for grammar expression trees.
+ *
+ * A grammar covering several language versions tags the nodes that were
+ * added or removed (`since`/`until`, see `VersionRange`). Projecting the tree
+ * for one version drops every node outside its range:
+ *
+ * - a dropped sequence item simply disappears
+ * - a dropped choice branch disappears; a choice left with one branch
+ *   becomes that branch
+ * - an optional or repetition whose item is dropped disappears
+ * - if the root is dropped, the rule does not exist in that version
+ *
+ * Versions are compared by their position in an ordered list (oldest first).
+ */
+
+import type { GrammarExpr, VersionRange } from "./grammarExpr";
+
+/**
+ * Whether a version falls inside a range, given the ordered version list.
+ */
+export function isInVersion(range: VersionRange, version: string, versions: readonly string[]): boolean {
+  const at = versions.indexOf(version);
+  if (range.since !== undefined && at < versions.indexOf(range.since)) return false;
+  if (range.until !== undefined && at >= versions.indexOf(range.until)) return false;
+  return true;
+}
+
+/**
+ * Returns the expression as it exists in `version`, or undefined if the whole
+ * expression is absent there. Untagged trees are returned unchanged.
+ */
+export function projectExpr(expr: GrammarExpr, version: string, versions: readonly string[]): GrammarExpr | undefined {
+  if (!isInVersion(expr, version, versions)) return undefined;
+  const project = (item: GrammarExpr) => projectExpr(item, version, versions);
+
+  switch (expr.kind) {
+    case "sequence":
+    case "stack": {
+      const kept = expr.items.map(project);
+      if (kept.every((item, i) => item === expr.items[i])) return expr;
+      return { ...expr, items: kept.filter((item): item is GrammarExpr => item !== undefined) };
+    }
+    case "choice": {
+      const kept = expr.items.map(project);
+      if (kept.every((item, i) => item === expr.items[i])) return expr;
+      const items = kept.filter((item): item is GrammarExpr => item !== undefined);
+      if (items.length === 0) return undefined;
+      if (items.length === 1 && items.length < expr.items.length) return items[0];
+      // Keep the main-line branch if it survived, else fall back to the first one
+      const normal = kept[expr.normal] ? kept.slice(0, expr.normal).filter(Boolean).length : 0;
+      return { ...expr, normal, items };
+    }
+    case "optional":
+    case "one-or-more":
+    case "zero-or-more": {
+      const item = project(expr.item);
+      if (!item) return undefined;
+      return item === expr.item ? expr : { ...expr, item };
+    }
+    default:
+      return expr;
+  }
+}
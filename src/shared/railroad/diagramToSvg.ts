@@ -1,10 +1,15 @@
+import { escapeXmlText, sanitizeSvg } from "./sanitizeSvg";
+
 /**
  * Converts a railroad-diagrams Diagram to an SVG string.
- * 
+ *
  * Handles multiple possible API shapes from the @prantlf/railroad-diagrams library:
  * - `diagram.toSVG()` returning a string
  * - `diagram.toSVG()` returning a DOM Element
  * - `diagram.toString()` fallback
+ *
+ * The markup is passed through `sanitizeSvg`, so the result is safe for
+ * `dangerouslySetInnerHTML` whatever grammar the diagram was drawn from.
  */
 export function diagramToSvgString(diagram: any): string {
   if (!diagram) return "<!-- empty diagram -->";
@@ -12,21 +17,21 @@ export function diagramToSvgString(diagram: any): string {
   try {
     if (typeof diagram.toSVG === "function") {
       const svg = diagram.toSVG();
-      if (typeof svg === "string") return svg;
+      if (typeof svg === "string") return sanitizeSvg(svg);
       // If it's an Element/Node, serialize it.
       if (svg && typeof svg === "object" && "nodeType" in svg) {
         const el: Element = svg;
-        return el.outerHTML ?? new XMLSerializer().serializeToString(el);
+        return sanitizeSvg(el.outerHTML ?? new XMLSerializer().serializeToString(el));
       }
       return "<!-- toSVG() returned unexpected value -->";
     }
 
     if (typeof diagram.toString === "function") {
-      return String(diagram.toString());
+      return sanitizeSvg(String(diagram.toString()));
     }
 
     return "<!-- Diagram does not support toSVG/toString -->";
   } catch (e: any) {
-    return `<!-- Render error: ${e?.message ?? String(e)} -->`;
+    return `<!-- Render error: ${escapeXmlText(e?.message ?? String(e))} -->`;
   }
 }
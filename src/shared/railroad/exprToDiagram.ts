@@ -0,0 +1,143 @@
+/**
+ * Builds a railroad-diagrams Diagram from a grammar expression tree.
+ */
+
+import * as RR from "@prantlf/railroad-diagrams/lib/index.mjs";
+import type { GrammarExpr } from "../grammar/grammarExpr";
+
+// The @prantlf/railroad-diagrams package has shipped in builds where the exported
+// primitives are factory functions and builds where they are ES class constructors.
+// Calling a class constructor without `new` throws:
+//   "Class constructor X cannot be invoked without 'new'"
+//
+// `callOrNew` lets us treat everything as a callable, regardless of how it is exported.
+function callOrNew(Ctor: any, ...args: any[]) {
+  try {
+    return Ctor(...args);
+  } catch (e) {
+    if (e instanceof TypeError && /without 'new'/.test((e as Error).message)) {
+      return new Ctor(...args);
+    }
+    throw e;
+  }
+}
+
+/**
+ * Nonterminals to draw in place of their box, spliced in from their rule.
+ *
+ * Each nonterminal occurrence is named by its path: the child indices leading
+ * to it from the rule body, e.g. `/2/0`. An expanded nonterminal's body sits
+ * at `<path>/0`, so occurrences inside it can be expanded in turn.
+ */
+export interface NonterminalExpansion {
+  /** Rule the diagram is drawn for; it is never expanded inside itself. */
+  root: string;
+  /** Paths of the occurrences to expand. */
+  paths: ReadonlySet<string>;
+  /** Body a nonterminal expands to; undefined keeps its box. */
+  resolve: (name: string) => GrammarExpr | undefined;
+}
+
+export interface ExprToDiagramOptions {
+  /** Link target for a nonterminal box; return undefined to leave it unlinked. */
+  nonterminalHref?: (name: string) => string | undefined;
+  /** Extra CSS class for the `<g>` drawn for an expression, e.g. to highlight it. */
+  exprClass?: (expr: GrammarExpr) => string | undefined;
+  /** Expand nonterminals in place; also tags every occurrence with its path. */
+  expansion?: NonterminalExpansion;
+}
+
+/** Attribute carrying the rule name on each nonterminal `<g>`, for event delegation. */
+export const NONTERMINAL_RULE_ATTR = "data-rule";
+
+/** Attribute carrying the occurrence path on nonterminals and expansion labels. */
+export const NONTERMINAL_PATH_ATTR = "data-path";
+
+/** Class of a nonterminal that would expand into a rule it is already inside. */
+export const RECURSIVE_NONTERMINAL_CLASS = "non-terminal-recursive";
+
+/** Class of the label above an expansion, which collapses it. */
+export const EXPANSION_LABEL_CLASS = "expansion-label";
+
+/** Where a node sits: its occurrence path and the rules expanded around it. */
+interface NodeContext {
+  path: string;
+  expanding: readonly string[];
+}
+
+function addClass(node: any, cls: string) {
+  node.attrs.class = node.attrs.class ? `${node.attrs.class} ${cls}` : cls;
+}
+
+function toNode(expr: GrammarExpr, options: ExprToDiagramOptions, context: NodeContext): any {
+  const node = toBareNode(expr, options, context);
+  const extra = options.exprClass?.(expr);
+  if (extra) addClass(node, extra);
+  return node;
+}
+
+function toBareNode(expr: GrammarExpr, options: ExprToDiagramOptions, context: NodeContext): any {
+  const child = (item: GrammarExpr, i = 0) =>
+    toNode(item, options, { ...context, path: `${context.path}/${i}` });
+  const children = (items: GrammarExpr[]) => items.map(child);
+
+  switch (expr.kind) {
+    case "sequence":
+      return callOrNew(RR.Sequence, ...children(expr.items));
+    case "choice":
+      return callOrNew(RR.Choice, expr.normal, ...children(expr.items));
+    case "optional":
+      return callOrNew(RR.Optional, child(expr.item));
+    case "one-or-more":
+      return callOrNew(RR.OneOrMore, child(expr.item));
+    case "zero-or-more":
+      return callOrNew(RR.ZeroOrMore, child(expr.item));
+    case "terminal":
+      return callOrNew(RR.Terminal, expr.text);
+    case "nonterminal":
+      return toNonterminalNode(expr.name, options, context);
+    case "comment":
+      return callOrNew(RR.Comment, expr.text);
+    case "stack":
+      return callOrNew(RR.Stack, ...children(expr.items));
+  }
+}
+
+function toNonterminalNode(name: string, options: ExprToDiagramOptions, context: NodeContext): any {
+  const { expansion } = options;
+  const recursive = context.expanding.includes(name);
+
+  const body = expansion?.paths.has(context.path) && !recursive ? expansion.resolve(name) : undefined;
+  if (body) {
+    const label = callOrNew(RR.Comment, `− ${name}`, { title: `Collapse ${name}` });
+    addClass(label, EXPANSION_LABEL_CLASS);
+    label.attrs[NONTERMINAL_PATH_ATTR] = context.path;
+
+    const inner = toNode(body, options, { path: `${context.path}/0`, expanding: [...context.expanding, name] });
+    const group = callOrNew(RR.Group, inner, label);
+    addClass(group, "expansion");
+    return group;
+  }
+
+  const href = options.nonterminalHref?.(name);
+  const node = callOrNew(RR.NonTerminal, name, href ? { href } : {});
+  node.attrs[NONTERMINAL_RULE_ATTR] = name;
+  if (expansion) {
+    node.attrs[NONTERMINAL_PATH_ATTR] = context.path;
+    if (recursive) addClass(node, RECURSIVE_NONTERMINAL_CLASS);
+  }
+  return node;
+}
+
+/**
+ * Converts a rule body into a railroad Diagram.
+ * A top-level sequence is spread into the Diagram so it renders on the main line.
+ */
+export function exprToDiagram(expr: GrammarExpr, options: ExprToDiagramOptions = {}): any {
+  const expanding = options.expansion ? [options.expansion.root] : [];
+  if (expr.kind !== "sequence") return callOrNew(RR.Diagram, toNode(expr, options, { path: "", expanding }));
+  return callOrNew(
+    RR.Diagram,
+    ...expr.items.map((item, i) => toNode(item, options, { path: `/${i}`, expanding }))
+  );
+}
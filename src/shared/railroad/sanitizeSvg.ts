@@ -0,0 +1,201 @@
+/**
+ * Allowlist-based sanitizer for diagram SVG markup.
+ *
+ * Diagrams can be drawn from loaded grammar files, so their SVG is untrusted
+ * before it reaches `dangerouslySetInnerHTML`. The markup is re-tokenized and
+ * rebuilt from the elements and attributes the railroad library emits:
+ *
+ * - Unknown elements are dropped with their content (`script`, `style`,
+ *   `foreignObject`, `image`, `use`, …), as are comments, CDATA sections,
+ *   doctypes and processing instructions.
+ * - Unknown attributes are dropped, which covers `on*` event handlers and
+ *   `style`.
+ * - `href` / `xlink:href` are kept only for same-document `#fragment` links.
+ * - Text (terminal and comment labels) is decoded once and re-escaped, and
+ *   attribute values are re-quoted, so no label can close its element.
+ *
+ * String based, so it runs the same in the browser and in Node scripts.
+ */
+
+/** Elements the railroad library draws. */
+const ALLOWED_ELEMENTS = new Set(["svg", "g", "path", "rect", "circle", "text", "tspan", "a", "title", "desc"]);
+
+/** Attributes kept on any allowed element, mapped from lower case to their SVG spelling. */
+const ALLOWED_ATTRIBUTES = new Map(
+  [
+    "class",
+    "transform",
+    "d",
+    "x",
+    "y",
+    "cx",
+    "cy",
+    "r",
+    "rx",
+    "ry",
+    "width",
+    "height",
+    "viewBox",
+    "text-anchor",
+    "xmlns",
+    "xmlns:xlink",
+    "data-rule",
+    "data-path",
+  ].map((name) => [name.toLowerCase(), name])
+);
+
+const LINK_ATTRIBUTES = new Set(["href", "xlink:href"]);
+
+/** Elements whose content the HTML parser may read as raw text; skipped up to their end tag. */
+const RAW_TEXT_ELEMENTS = new Set(["script", "style", "textarea", "xmp", "iframe", "noembed", "noframes", "noscript", "plaintext"]);
+
+/** Namespace URIs allowed as `xmlns` / `xmlns:xlink` values. */
+const NAMESPACES = new Set(["http://www.w3.org/2000/svg", "http://www.w3.org/1999/xlink"]);
+
+const TAG = /<(\/?)([A-Za-z][\w:.-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/y;
+const ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+const NAMED_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: "\u00a0" };
+
+/**
+ * Decodes the character references a serializer may have written.
+ * Unknown named references are kept literally (and re-escaped later).
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (match, ref: string) => {
+    if (ref[0] !== "#") return NAMED_ENTITIES[ref.toLowerCase()] ?? match;
+    const code = ref[1] === "x" || ref[1] === "X" ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+    return code > 0 && code <= 0x10ffff && !(code >= 0xd800 && code <= 0xdfff) ? String.fromCodePoint(code) : "�";
+  });
+}
+
+/**
+ * Escapes text for use as XML/HTML character data.
+ */
+export function escapeXmlText(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function escapeAttribute(value: string): string {
+  return escapeXmlText(value).replace(/"/g, "&quot;");
+}
+
+function sanitizeAttributes(source: string): string {
+  let out = "";
+  const seen = new Set<string>();
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    const name = match[1].toLowerCase();
+    const value = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+    if (seen.has(name)) continue;
+    seen.add(name);
+
+    if (LINK_ATTRIBUTES.has(name)) {
+      // Same-document fragments only: no javascript:, data: or external URLs
+      if (/^#[\w-]*$/.test(value.trim())) out += ` ${name}="${escapeAttribute(value.trim())}"`;
+      continue;
+    }
+    const canonical = ALLOWED_ATTRIBUTES.get(name);
+    if (!canonical) continue;
+    if (name.startsWith("xmlns") && !NAMESPACES.has(value)) continue;
+    out += ` ${canonical}="${escapeAttribute(value)}"`;
+  }
+  return out;
+}
+
+/**
+ * Index just past the end tag closing a raw-text element, or the end of input.
+ */
+function skipRawText(svg: string, from: number, name: string): number {
+  const endTag = new RegExp(`</${name}[\\s/>]`, "ig");
+  endTag.lastIndex = from;
+  const end = endTag.exec(svg);
+  if (!end) return svg.length;
+  const close = svg.indexOf(">", end.index);
+  return close < 0 ? svg.length : close + 1;
+}
+
+/**
+ * Rebuilds SVG markup keeping only allowlisted elements, attributes and
+ * same-document links. Always returns well-formed markup: unmatched end tags
+ * are dropped and unclosed elements are closed at the end.
+ */
+export function sanitizeSvg(svg: string): string {
+  let out = "";
+  const open: string[] = [];
+  // Nesting depth inside a dropped element; its whole subtree is skipped
+  let dropDepth = 0;
+  let pos = 0;
+
+  while (pos < svg.length) {
+    const lt = svg.indexOf("<", pos);
+    if (lt < 0 || lt > pos) {
+      const text = svg.slice(pos, lt < 0 ? svg.length : lt);
+      if (dropDepth === 0) out += escapeXmlText(decodeEntities(text));
+      pos = lt < 0 ? svg.length : lt;
+      continue;
+    }
+
+    // Comments, CDATA, doctypes and processing instructions never survive
+    if (svg.startsWith("<!--", pos)) {
+      const end = svg.indexOf("-->", pos + 4);
+      pos = end < 0 ? svg.length : end + 3;
+      continue;
+    }
+    if (svg.startsWith("<![CDATA[", pos)) {
+      const end = svg.indexOf("]]>", pos);
+      pos = end < 0 ? svg.length : end + 3;
+      continue;
+    }
+    if (svg.startsWith("<!", pos) || svg.startsWith("<?", pos)) {
+      const end = svg.indexOf(">", pos);
+      pos = end < 0 ? svg.length : end + 1;
+      continue;
+    }
+
+    TAG.lastIndex = pos;
+    const tag = TAG.exec(svg);
+    if (!tag) {
+      // A stray "<" is text
+      if (dropDepth === 0) out += "&lt;";
+      pos++;
+      continue;
+    }
+    pos = TAG.lastIndex;
+
+    const [, closing, rawName, attributes, selfClosing] = tag;
+    const name = rawName.toLowerCase();
+    const element = ALLOWED_ELEMENTS.has(name) ? name : undefined;
+
+    if (closing) {
+      if (dropDepth > 0) {
+        dropDepth--;
+      } else if (element && open.includes(element)) {
+        while (open.length > 0) {
+          const top = open.pop()!;
+          out += `</${top}>`;
+          if (top === element) break;
+        }
+      }
+      continue;
+    }
+
+    if (dropDepth > 0 || !element) {
+      if (RAW_TEXT_ELEMENTS.has(name)) {
+        if (!selfClosing) pos = skipRawText(svg, pos, name);
+      } else if (!selfClosing) {
+        dropDepth++;
+      }
+      continue;
+    }
+
+    out += `<${element}${sanitizeAttributes(attributes)}>`;
+    if (selfClosing) {
+      out += `</${element}>`;
+    } else {
+      open.push(element);
+    }
+  }
+
+  while (open.length > 0) out += `</${open.pop()}>`;
+  return out;
+}
@@ -0,0 +1,112 @@
+/**
+ * Fuzzy matching for short identifiers such as hyphenated rule names.
+ *
+ * A query matches when its characters appear in the text in order (case- and
+ * whitespace-insensitive). Among all such alignments the best-scoring one is
+ * kept: matches at the start of the text or of a word, and runs of adjacent
+ * matches, score higher, while skipped characters between matches cost a
+ * little. So `ptrdecl` ranks `ptr-declarator` above `noptr-declarator`, and
+ * `nns` finds `nested-name-specifier`.
+ */
+
+export interface FuzzyMatch {
+  score: number;
+  /** Indexes of the matched characters of the text, ascending. */
+  positions: number[];
+}
+
+const MATCH = 1;
+const START_BONUS = 8;
+const WORD_BONUS = 6;
+const ADJACENT_BONUS = 4;
+const GAP_PENALTY = 0.5;
+
+const isSeparator = (c: string) => c === "-" || c === "_" || c === " " || c === ".";
+
+function boundaryBonus(text: string, i: number): number {
+  if (i === 0) return START_BONUS;
+  return isSeparator(text[i - 1]) ? WORD_BONUS : 0;
+}
+
+/**
+ * Best alignment of `query` in `text`, or null if the query's characters do
+ * not all appear in order. An empty query matches with score 0.
+ */
+export function fuzzyMatch(text: string, query: string): FuzzyMatch | null {
+  const t = text.toLowerCase();
+  const q = query.toLowerCase().replace(/\s+/g, "");
+  const n = t.length;
+  const m = q.length;
+  if (m === 0) return { score: 0, positions: [] };
+  if (m > n) return null;
+
+  // score[j][i]: best score with q[j] matched at t[i]; from[j][i]: where q[j - 1] was
+  const score = Array.from({ length: m }, () => new Array<number>(n).fill(-Infinity));
+  const from = Array.from({ length: m }, () => new Array<number>(n).fill(-1));
+
+  for (let j = 0; j < m; j++) {
+    // Best q[j - 1] match at least two characters back, net of the gap penalty
+    let gapBest = -Infinity;
+    let gapFrom = -1;
+
+    for (let i = j; i < n; i++) {
+      if (j > 0) {
+        gapBest -= GAP_PENALTY;
+        const k = i - 2;
+        if (k >= 0 && score[j - 1][k] - GAP_PENALTY > gapBest) {
+          gapBest = score[j - 1][k] - GAP_PENALTY;
+          gapFrom = k;
+        }
+      }
+      if (t[i] !== q[j]) continue;
+
+      const gain = MATCH + boundaryBonus(t, i);
+      if (j === 0) {
+        score[j][i] = gain;
+        continue;
+      }
+      const adjacent = score[j - 1][i - 1] + ADJACENT_BONUS;
+      if (adjacent >= gapBest) {
+        score[j][i] = adjacent + gain;
+        from[j][i] = i - 1;
+      } else {
+        score[j][i] = gapBest + gain;
+        from[j][i] = gapFrom;
+      }
+    }
+  }
+
+  let best = -Infinity;
+  let end = -1;
+  for (let i = m - 1; i < n; i++) {
+    if (score[m - 1][i] > best) {
+      best = score[m - 1][i];
+      end = i;
+    }
+  }
+  if (end < 0) return null;
+
+  const positions: number[] = [];
+  for (let j = m - 1, i = end; j >= 0; i = from[j][i], j--) positions.unshift(i);
+  return { score: best, positions };
+}
+
+/**
+ * Items whose key fuzzy-matches `query`, best first; ties go to the shorter
+ * key, then to the earlier item.
+ */
+export function fuzzyRank<T>(
+  items: readonly T[],
+  key: (item: T) => string,
+  query: string
+): { item: T; match: FuzzyMatch }[] {
+  const results: { item: T; match: FuzzyMatch; index: number }[] = [];
+  items.forEach((item, index) => {
+    const match = fuzzyMatch(key(item), query);
+    if (match) results.push({ item, match, index });
+  });
+  results.sort(
+    (a, b) => b.match.score - a.match.score || key(a.item).length - key(b.item).length || a.index - b.index
+  );
+  return results.map(({ item, match }) => ({ item, match }));
+}
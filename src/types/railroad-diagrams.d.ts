@@ -9,4 +9,5 @@ declare module "@prantlf/railroad-diagrams/lib/index.mjs" {
   export const NonTerminal: any;
   export const Stack: any;
   export const Comment: any;
+  export const Group: any;
 }
@@ -0,0 +1,2 @@
+/** webpack's `output.publicPath`, substituted at build time. */
+declare const __webpack_public_path__: string;